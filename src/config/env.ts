@@ -1,28 +1,319 @@
-import {getSecret} from './vault';
-import type {Vault}  from '../interfaces/vault'
-
-export async function loadEnvironment() {
-    const ENCRYPTION_KEY_SECRET = await getSecret('/v1/secrets/data/api/database/aes_key');
-    const JWT_SECRET_SECRET = await getSecret('/v1/secrets/data/api/authentication/jwt_token');
-    const DB_CONNECTION_SECRET = await getSecret('/v1/secrets/data/api/database/connection');
-
-    return {
-        BACKEND_API_URL: process.env.BACKEND_API_URL || 'http://localhost:3000',
-        SMTP_HOST: process.env.SMTP_HOST || '',
-        SMTP_PORT: parseInt(process.env.SMTP_PORT || '587'),
-        SMTP_USER: process.env.SMTP_USER || '',
-        SMTP_PASS: process.env.SMTP_PASS || '',
-        TEST_EMAIL_RECIPIENT: process.env.TEST_EMAIL_RECIPIENT || 'aws-dev@hofflabs.org',
-
-        //Vault specific
-        VAULT_ADDR: process.env.VAULT_ADDR,
-        VAULT_PASS: process.env.VAULT_PASS,
-        ENCRYPTION_KEY: process.env.ENCRYPTION_KEY || ENCRYPTION_KEY_SECRET.key as string,
-        JWT_SECRET: process.env.JWT_SECRET || JWT_SECRET_SECRET.key as string,
-        DB_HOST: process.env.DB_HOST || DB_CONNECTION_SECRET.host as string,
-        DB_PORT: process.env.DB_PORT || DB_CONNECTION_SECRET.port as string,
-        DB_USERNAME: process.env.DB_USERNAME || DB_CONNECTION_SECRET.username as string,
-        DB_PASSWORD: process.env.DB_PASSWORD || DB_CONNECTION_SECRET.password as string,
-        DATABASE: process.env.DATABASE || DB_CONNECTION_SECRET.database as string,
-    };
+import * as settings from './environment';
+import {
+  applyVaultSettings,
+  DEVELOPMENT_DEFAULTS,
+  NODE_ENV,
+  JWT_ALGORITHM,
+  VAULT_ADDR,
+  VAULT_ROLE_ID,
+  VAULT_SECRET_ID,
+  VAULT_DB_CREDS_PATH,
+  type VaultBackedSetting
+} from './environment';
+import {
+  isVaultConfigured,
+  vaultLogin,
+  renewVaultToken,
+  readKvSecret,
+  readDynamicSecret,
+  renewLease,
+  type VaultLease
+} from './vault';
+import { replaceDbPool } from '../database/utils/connect';
+import { logger } from '../utils/logger';
+
+// Where each Vault-backed setting lives in the KV v2 mount (VAULT_KV_MOUNT). Settings Vault
+// doesn't have are taken from the environment / .env, one by one.
+const VAULT_SECRETS: { setting: VaultBackedSetting; path: string; field: string }[] = [
+  { setting: 'ENCRYPTION_KEY', path: 'api/database/aes_key', field: 'key' },
+  { setting: 'JWT_SECRET', path: 'api/authentication/jwt_token', field: 'key' },
+  { setting: 'DB_HOST', path: 'api/database/connection', field: 'host' },
+  { setting: 'DB_PORT', path: 'api/database/connection', field: 'port' },
+  { setting: 'DB_USERNAME', path: 'api/database/connection', field: 'username' },
+  { setting: 'DB_PASSWORD', path: 'api/database/connection', field: 'password' },
+  { setting: 'DATABASE', path: 'api/database/connection', field: 'database' }
+];
+
+export type SettingSource = 'vault' | 'environment' | 'default';
+
+// Every exported setting, typed by its value, so a rule can't be written for a setting that
+// doesn't exist or check a number as if it were a string
+type Settings = typeof settings;
+type SettingName = { [K in keyof Settings]: Settings[K] extends string | number | boolean | undefined ? K : never }[keyof Settings];
+
+interface ConfigRule {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  oneOf?: readonly string[];
+  url?: boolean;
+  pattern?: RegExp;
+}
+
+type Rule<T> = T extends number
+  ? Pick<ConfigRule, 'integer' | 'min' | 'max'>
+  : T extends string
+    ? Pick<ConfigRule, 'oneOf' | 'url' | 'pattern'>
+    : never;
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+const STORES = ['postgres', 'memory'] as const;
+
+const CONFIG_SCHEMA: { [K in SettingName]?: Rule<Settings[K]> } = {
+  BACKEND_API_URL: { url: true },
+  SMTP_PORT: { integer: true, min: 1, max: 65535 },
+  REFRESH_REUSE_GRACE_SECONDS: { integer: true, min: 0 },
+  TOKEN_DENYLIST_BACKEND: { oneOf: STORES },
+  TOKEN_DENYLIST_CACHE_SIZE: { integer: true, min: 0 },
+  RATE_LIMIT_STORE: { oneOf: STORES },
+  RATE_LIMIT_GLOBAL_STORE: { oneOf: ['memory', 'shared'] },
+  AUDIT_CHECKPOINT_INTERVAL_MINUTES: { integer: true, min: 0 },
+  WEBHOOK_MAX_ATTEMPTS: { integer: true, min: 1 },
+  WEBHOOK_RETRY_BASE_SECONDS: { integer: true, min: 1 },
+  WEBHOOK_POLL_INTERVAL_SECONDS: { integer: true, min: 0 },
+  WEBHOOK_TIMEOUT_MS: { integer: true, min: 1 },
+  ALERT_MIN_SEVERITY: { oneOf: SEVERITIES },
+  ALERT_DEDUP_WINDOW_SECONDS: { integer: true, min: 0 },
+  ALERT_WEBHOOK_URL: { url: true },
+  ALERT_WEBHOOK_MIN_SEVERITY: { oneOf: SEVERITIES },
+  ALERT_EMAIL_MIN_SEVERITY: { oneOf: SEVERITIES },
+  ALERT_FILE_MIN_SEVERITY: { oneOf: SEVERITIES },
+  HEALTH_CACHE_SECONDS: { integer: true, min: 0 },
+  HEALTH_CHECK_TIMEOUT_MS: { integer: true, min: 1 },
+  TRACING_SAMPLE_RATIO: { min: 0, max: 1 },
+  VAULT_ADDR: { url: true },
+  VAULT_TIMEOUT_MS: { integer: true, min: 1 },
+  JWT_ALGORITHM: { oneOf: ['HS256', 'RS256', 'ES256', 'EdDSA'] },
+  DB_PORT: { pattern: /^\d{1,5}$/ },
+  LOG_LEVEL: { oneOf: ['trace', 'debug', 'info', 'warn', 'error', 'fatal', 'silent'] },
+  SHUTDOWN_READINESS_DELAY_SECONDS: { integer: true, min: 0 },
+  SHUTDOWN_TIMEOUT_SECONDS: { integer: true, min: 0 }
+};
+
+function checkRule(name: string, value: unknown, rule: ConfigRule): string | null {
+  // Optional settings that aren't set have nothing to check
+  if (value === undefined || value === '') return null;
+
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) return `${name} must be a number`;
+    if (rule.integer && !Number.isInteger(value)) return `${name} must be a whole number`;
+    if (rule.min !== undefined && value < rule.min) return `${name} must be at least ${rule.min}`;
+    if (rule.max !== undefined && value > rule.max) return `${name} must be at most ${rule.max}`;
+    return null;
+  }
+
+  const text = String(value);
+  if (rule.oneOf && !rule.oneOf.includes(text)) return `${name} must be one of ${rule.oneOf.join(', ')}`;
+  if (rule.pattern && !rule.pattern.test(text)) return `${name} is not in the expected format`;
+  if (rule.url && !URL.canParse(text)) return `${name} must be a URL`;
+  return null;
+}
+
+// Every problem at once, so a bad deploy is fixed in one go rather than one restart per setting
+export function validateConfig(sources: Partial<Record<VaultBackedSetting, SettingSource>> = {}): string[] {
+  const problems: string[] = [];
+
+  for (const [name, rule] of Object.entries(CONFIG_SCHEMA)) {
+    const problem = checkRule(name, settings[name as SettingName], rule);
+    if (problem) problems.push(problem);
+  }
+
+  // Development stand-ins for secrets are fine locally and never in production
+  const needsSecret = (name: keyof typeof DEVELOPMENT_DEFAULTS) => name !== 'JWT_SECRET' || JWT_ALGORITHM === 'HS256';
+  for (const name of Object.keys(DEVELOPMENT_DEFAULTS) as (keyof typeof DEVELOPMENT_DEFAULTS)[]) {
+    if (sources[name] !== 'default' || !needsSecret(name)) continue;
+    if (NODE_ENV === 'production') {
+      problems.push(`${name} must be set in Vault or the environment in production`);
+    } else {
+      logger.warn({ setting: name }, 'Using a development-only default; never deploy this');
+    }
+  }
+
+  if (settings.JWT_SECRET.length < 32 && needsSecret('JWT_SECRET')) {
+    if (NODE_ENV === 'production') {
+      problems.push('JWT_SECRET must be at least 32 characters long');
+    } else {
+      logger.warn('JWT_SECRET should be at least 32 characters long');
+    }
+  }
+
+  if (VAULT_ADDR && !isVaultConfigured()) {
+    problems.push('VAULT_ADDR is set but neither VAULT_TOKEN nor VAULT_ROLE_ID and VAULT_SECRET_ID are');
+  }
+  if (VAULT_DB_CREDS_PATH && !VAULT_ADDR) {
+    problems.push('VAULT_DB_CREDS_PATH needs VAULT_ADDR');
+  }
+
+  return problems;
+}
+
+async function readVaultSettings(): Promise<Partial<Record<VaultBackedSetting, string>>> {
+  const paths = [...new Set(VAULT_SECRETS.map(secret => secret.path))];
+  const secrets = new Map(await Promise.all(paths.map(async path => [path, await readKvSecret(path)] as const)));
+
+  const values: Partial<Record<VaultBackedSetting, string>> = {};
+  for (const { setting, path, field } of VAULT_SECRETS) {
+    const value = secrets.get(path)?.[field];
+    if (value !== undefined && value !== '') {
+      values[setting] = String(value);
+    }
+  }
+  return values;
+}
+
+// Renew at two thirds of a lease, leaving the last third to retry in
+const RENEW_AT = 2 / 3;
+const RENEWAL_RETRY_SECONDS = 15;
+
+const renewalTimers = new Map<string, NodeJS.Timeout>();
+let renewing = false;
+
+// Refresh a lease before it runs out, and again after every refresh, until stopSecretRenewal
+function keepRenewed(name: string, lease: VaultLease, refresh: (lease: VaultLease) => Promise<VaultLease>): void {
+  const schedule = (current: VaultLease, delaySeconds: number) => {
+    // A duration of 0 never expires
+    if (!renewing || current.duration <= 0) return;
+
+    const timer = setTimeout(() => {
+      refresh(current)
+        .then(next => schedule(next, next.duration * RENEW_AT))
+        .catch(err => {
+          logger.error({ err, lease: name }, 'Vault lease renewal failed, retrying');
+          schedule(current, RENEWAL_RETRY_SECONDS);
+        });
+    }, Math.max(delaySeconds, 1) * 1000);
+    // Never keep the process alive just for renewals
+    timer.unref();
+    renewalTimers.set(name, timer);
+  };
+
+  schedule(lease, lease.duration * RENEW_AT);
+}
+
+// Renewals are capped by the token's max TTL; with AppRole, log in again before it's reached.
+// A plain VAULT_TOKEN can only be renewed until then.
+async function refreshToken(granted: number, lease: VaultLease): Promise<VaultLease> {
+  const canLogIn = Boolean(VAULT_ROLE_ID && VAULT_SECRET_ID);
+
+  if (lease.renewable) {
+    try {
+      const renewed = await renewVaultToken();
+      if (renewed.duration >= granted / 2 || !canLogIn) return renewed;
+    } catch (err) {
+      if (!canLogIn) throw err;
+      logger.warn({ err }, 'Vault token renewal failed, logging in again');
+    }
+  }
+  return vaultLogin();
+}
+
+async function readDatabaseCredentials(): Promise<{ values: Partial<Record<VaultBackedSetting, string>>; lease: VaultLease }> {
+  const { data, lease } = await readDynamicSecret(VAULT_DB_CREDS_PATH!);
+  if (!data.username || !data.password) {
+    throw new Error(`Vault secret at ${VAULT_DB_CREDS_PATH} does not contain a username and password`);
+  }
+  return { values: { DB_USERNAME: data.username, DB_PASSWORD: data.password }, lease };
+}
+
+// New credentials get a new pool; the old one drains and closes while its lease is still valid
+async function rotateDatabaseCredentials(): Promise<VaultLease> {
+  const { values, lease } = await readDatabaseCredentials();
+  const previous = { DB_USERNAME: settings.DB_USERNAME, DB_PASSWORD: settings.DB_PASSWORD };
+
+  applyVaultSettings(values);
+  try {
+    await replaceDbPool();
+  } catch (err) {
+    applyVaultSettings(previous);
+    throw err;
+  }
+
+  logger.info({ leaseDuration: lease.duration }, 'Database credentials rotated');
+  return lease;
+}
+
+// Renew the credentials' lease while Vault keeps granting most of what was asked for; once
+// it's near its max TTL (or can't be renewed at all) switch to fresh credentials
+async function refreshDatabaseCredentials(granted: number, lease: VaultLease): Promise<VaultLease> {
+  if (lease.renewable) {
+    try {
+      const renewed = await renewLease(lease, granted);
+      if (renewed.duration >= granted / 2) return renewed;
+      logger.info('Database credential lease is near its max TTL, requesting new credentials');
+    } catch (err) {
+      logger.warn({ err }, 'Database credential renewal failed, requesting new credentials');
+    }
+  }
+  return rotateDatabaseCredentials();
+}
+
+export interface LoadEnvironmentOptions {
+  // Keep Vault leases renewed in the background (off for one-shot commands like the migration CLI)
+  renew?: boolean;
+}
+
+// Resolve secrets from Vault (falling back to the environment per setting), validate the whole
+// configuration and apply it. Call once, before anything reads secrets or connects to the database.
+export async function loadEnvironment(options: LoadEnvironmentOptions = {}): Promise<Record<VaultBackedSetting, SettingSource>> {
+  let vaultValues: Partial<Record<VaultBackedSetting, string>> = {};
+  let tokenLease: VaultLease | null = null;
+  let dbLease: VaultLease | null = null;
+
+  if (isVaultConfigured()) {
+    try {
+      tokenLease = await vaultLogin();
+      vaultValues = await readVaultSettings();
+      if (VAULT_DB_CREDS_PATH) {
+        const credentials = await readDatabaseCredentials();
+        vaultValues = { ...vaultValues, ...credentials.values };
+        dbLease = credentials.lease;
+      }
+    } catch (error) {
+      // Production must not quietly start on whatever happens to be in the environment
+      if (NODE_ENV === 'production') {
+        throw Object.assign(new Error('Could not load secrets from Vault'), { cause: error });
+      }
+      logger.warn({ err: error }, 'Could not load secrets from Vault, using the environment');
+      vaultValues = {};
+      tokenLease = dbLease = null;
+    }
+  }
+
+  const sources = {} as Record<VaultBackedSetting, SettingSource>;
+  for (const { setting: name } of VAULT_SECRETS) {
+    sources[name] = vaultValues[name] !== undefined ? 'vault' : process.env[name] ? 'environment' : 'default';
+  }
+
+  applyVaultSettings(vaultValues);
+
+  const problems = validateConfig(sources);
+  if (problems.length > 0) {
+    throw new Error(`Invalid configuration:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  logger.info({ sources }, 'Configuration loaded');
+
+  if (options.renew !== false) {
+    renewing = true;
+    if (tokenLease && !tokenLease.renewable && !(VAULT_ROLE_ID && VAULT_SECRET_ID) && tokenLease.duration > 0) {
+      logger.warn({ ttl: tokenLease.duration }, 'Vault token cannot be renewed; secrets stop refreshing when it expires');
+    } else if (tokenLease) {
+      const granted = tokenLease.duration;
+      keepRenewed('token', tokenLease, lease => refreshToken(granted, lease));
+    }
+    if (dbLease) {
+      const granted = dbLease.duration;
+      keepRenewed('database', dbLease, lease => refreshDatabaseCredentials(granted, lease));
+    }
+  }
+
+  return sources;
+}
+
+export function stopSecretRenewal(): void {
+  renewing = false;
+  for (const timer of renewalTimers.values()) {
+    clearTimeout(timer);
+  }
+  renewalTimers.clear();
 }
@@ -10,50 +10,144 @@ export const SMTP_PORT = parseInt(process.env.SMTP_PORT || '587');
 export const SMTP_USER = process.env.SMTP_USER || '';
 export const SMTP_PASS = process.env.SMTP_PASS || '';
 export const TEST_EMAIL_RECIPIENT = process.env.TEST_EMAIL_RECIPIENT || 'aws-dev@hofflabs.org';
+// Email users when a replayed refresh token gets their session revoked
+export const REFRESH_REUSE_EMAIL_ALERTS = process.env.REFRESH_REUSE_EMAIL_ALERTS === 'true';
+// A client that lost the response to its refresh retries with the old token; replays this soon after a
+// rotation fail without revoking the family
+export const REFRESH_REUSE_GRACE_SECONDS = parseInt(process.env.REFRESH_REUSE_GRACE_SECONDS || '10');
 
-// Vault configuration (optional)
+// Where revoked access tokens are shared between instances: 'postgres' (default) or 'memory' for a single instance
+export const TOKEN_DENYLIST_BACKEND = process.env.TOKEN_DENYLIST_BACKEND || 'postgres';
+// Revoked tokens each instance keeps in memory before checking the shared backend
+export const TOKEN_DENYLIST_CACHE_SIZE = parseInt(process.env.TOKEN_DENYLIST_CACHE_SIZE || '10000');
+
+// Where rate limit counters live: 'postgres' (default, shared by all instances) or 'memory' for a single instance
+export const RATE_LIMIT_STORE = process.env.RATE_LIMIT_STORE || 'postgres';
+// Where the `global` policy, which every request counts against, keeps its counters: 'memory'
+// (default, per instance) or 'shared' for RATE_LIMIT_STORE. Shared costs a store round trip on
+// every request; with postgres that is an upsert per request.
+export const RATE_LIMIT_GLOBAL_STORE = process.env.RATE_LIMIT_GLOBAL_STORE || 'memory';
+// Overrides for the built-in rate limit policies, e.g. "auth=5/15m/1h,global=300/1m" (max/window[/block])
+export const RATE_LIMIT_POLICIES = process.env.RATE_LIMIT_POLICIES || '';
+
+// How often each audit log stream gets a signed checkpoint (0 disables them)
+export const AUDIT_CHECKPOINT_INTERVAL_MINUTES = parseInt(process.env.AUDIT_CHECKPOINT_INTERVAL_MINUTES || '60');
+
+// Webhook delivery: attempts before a delivery is marked failed, the first retry
+// delay (doubling each time), how often the outbox is polled and the request timeout
+export const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8');
+export const WEBHOOK_RETRY_BASE_SECONDS = parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30');
+export const WEBHOOK_POLL_INTERVAL_SECONDS = parseInt(process.env.WEBHOOK_POLL_INTERVAL_SECONDS || '5');
+export const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+
+// Security alerts. Each sink is enabled by setting its target and receives events at or
+// above its own threshold (default ALERT_MIN_SEVERITY). Repeats of the same alert within
+// the dedup window are counted and folded into the next one sent.
+export const ALERT_MIN_SEVERITY = process.env.ALERT_MIN_SEVERITY || 'critical';
+export const ALERT_DEDUP_WINDOW_SECONDS = parseInt(process.env.ALERT_DEDUP_WINDOW_SECONDS || '300');
+export const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL;
+export const ALERT_WEBHOOK_MIN_SEVERITY = process.env.ALERT_WEBHOOK_MIN_SEVERITY;
+export const ALERT_EMAIL_TO = process.env.ALERT_EMAIL_TO;
+export const ALERT_EMAIL_MIN_SEVERITY = process.env.ALERT_EMAIL_MIN_SEVERITY;
+export const ALERT_FILE_PATH = process.env.ALERT_FILE_PATH;
+export const ALERT_FILE_MIN_SEVERITY = process.env.ALERT_FILE_MIN_SEVERITY;
+
+// Readiness checks: how long results are reused (so load balancers can poll freely), how long each
+// dependency gets before it counts as down, and whether to open an SMTP connection as part of the check
+export const HEALTH_CACHE_SECONDS = parseInt(process.env.HEALTH_CACHE_SECONDS || '5');
+export const HEALTH_CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '2000');
+export const HEALTH_CHECK_SMTP = process.env.HEALTH_CHECK_SMTP === 'true';
+
+// Bearer token Prometheus must send to scrape /metrics; unset leaves the endpoint open (restrict it at the network instead)
+export const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+// OpenTelemetry tracing, off unless enabled. Spans are exported over OTLP/HTTP to the standard
+// OTEL_EXPORTER_OTLP_ENDPOINT / OTEL_EXPORTER_OTLP_TRACES_ENDPOINT (default http://localhost:4318, a local collector).
+export const TRACING_ENABLED = process.env.TRACING_ENABLED === 'true';
+export const TRACING_SERVICE_NAME = process.env.OTEL_SERVICE_NAME || 'hofflabs-api';
+// Share of new traces kept, 0 to 1; requests arriving with a traceparent follow the caller's decision
+export const TRACING_SAMPLE_RATIO = parseFloat(process.env.TRACING_SAMPLE_RATIO || '1');
+
+// Optional offline GeoIP database (CSV of start_ip,end_ip,country[,region[,city]]) used to label sessions with a coarse location
+export const GEOIP_DATABASE_FILE = process.env.GEOIP_DATABASE_FILE;
+
+// Vault (optional). Authenticate with a token, or with AppRole when VAULT_ROLE_ID and VAULT_SECRET_ID are set.
+// VAULT_PASS is the old name for VAULT_TOKEN.
 export const VAULT_ADDR = process.env.VAULT_ADDR;
-export const VAULT_PASS = process.env.VAULT_PASS;
-
-// Critical environment variables - MUST be set in production
-export const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || (() => {
-  if (process.env.NODE_ENV === 'production') {
-    throw new Error('ENCRYPTION_KEY must be set in production environment');
-  }
-  console.warn('⚠️  WARNING: Using default ENCRYPTION_KEY for development only');
-  return 'dev_only_encryption_key_32_chars';
-})();
-
-export const JWT_SECRET = process.env.JWT_SECRET || (() => {
-  if (process.env.NODE_ENV === 'production') {
-    throw new Error('JWT_SECRET must be set in production environment');
-  }
-  console.warn('⚠️  WARNING: Using default JWT_SECRET for development only');
-  // Use a stronger default for development
-  return 'dev_only_jwt_secret_key_for_development_with_sufficient_entropy_12345678';
-})();
-
-// Validate JWT secret strength
-if (JWT_SECRET.length < 32) {
-  if (process.env.NODE_ENV === 'production') {
-    throw new Error('JWT_SECRET must be at least 32 characters long for security');
-  }
-  console.warn('⚠️  WARNING: JWT_SECRET should be at least 32 characters long');
-}
+export const VAULT_TOKEN = process.env.VAULT_TOKEN || process.env.VAULT_PASS;
+export const VAULT_ROLE_ID = process.env.VAULT_ROLE_ID;
+export const VAULT_SECRET_ID = process.env.VAULT_SECRET_ID;
+export const VAULT_APPROLE_MOUNT = process.env.VAULT_APPROLE_MOUNT || 'approle';
+export const VAULT_NAMESPACE = process.env.VAULT_NAMESPACE;
+// KV v2 mount holding api/database/aes_key, api/authentication/jwt_token and api/database/connection
+export const VAULT_KV_MOUNT = process.env.VAULT_KV_MOUNT || 'secrets';
+// Dynamic database credentials (e.g. "database/creds/hofflabs-api"); renewed, and replaced before they expire
+export const VAULT_DB_CREDS_PATH = process.env.VAULT_DB_CREDS_PATH;
+export const VAULT_TIMEOUT_MS = parseInt(process.env.VAULT_TIMEOUT_MS || '5000');
 
-// Database configuration
-export const DB_HOST = process.env.DB_HOST || 'localhost';
-export const DB_PORT = process.env.DB_PORT || '5432';
-export const DB_USERNAME = process.env.DB_USERNAME || 'postgres';
-export const DB_PASSWORD = process.env.DB_PASSWORD || (() => {
-  if (process.env.NODE_ENV === 'production') {
-    throw new Error('DB_PASSWORD must be set in production environment');
-  }
-  console.warn('⚠️  WARNING: Using default DB_PASSWORD for development only');
-  return 'dev_password';
-})();
-export const DATABASE = process.env.DATABASE || 'Hofflabs';
+// Stand-ins for secrets that are neither in Vault nor the environment. loadEnvironment refuses
+// them in production and warns about them everywhere else.
+export const DEVELOPMENT_DEFAULTS = {
+  ENCRYPTION_KEY: 'dev_only_encryption_key_32_chars',
+  JWT_SECRET: 'dev_only_jwt_secret_key_for_development_with_sufficient_entropy_12345678',
+  DB_PASSWORD: 'dev_password'
+};
+
+// Critical settings - MUST come from Vault or the environment in production. These and the other
+// Vault-backed settings below are `let` so loadEnvironment can fill them in before startup.
+export let ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || DEVELOPMENT_DEFAULTS.ENCRYPTION_KEY;
+
+// Additional field encryption keys as comma-separated id:secret pairs (e.g. "2026a:base64key,2026b:base64key").
+// ENCRYPTION_KEY is always available under the id "default" and decrypts values written before key ids existed.
+export const ENCRYPTION_KEYS = process.env.ENCRYPTION_KEYS || '';
+// Id of the key new values are encrypted with
+export const ENCRYPTION_KEY_ID = process.env.ENCRYPTION_KEY_ID || 'default';
+// Still read values in the older formats (AES-256-CBC, or GCM bound to the owner rather than the row).
+// Turn off once `npm run db:reencrypt` has completed, so old ciphertexts pasted into a row are refused.
+export const ENCRYPTION_ALLOW_LEGACY = process.env.ENCRYPTION_ALLOW_LEGACY !== 'false';
+
+// JWT signing algorithm: HS256 (shared JWT_SECRET) or RS256 / ES256 / EdDSA (key pair)
+export const JWT_ALGORITHM = process.env.JWT_ALGORITHM || 'HS256';
+// PEM private key for asymmetric signing; the public key is derived from it when no public key file is given
+export const JWT_PRIVATE_KEY_FILE = process.env.JWT_PRIVATE_KEY_FILE;
+export const JWT_PUBLIC_KEY_FILE = process.env.JWT_PUBLIC_KEY_FILE;
+// Alternatively load the key pair from a Vault KV path with private_key / public_key (and optional kid) fields
+export const JWT_KEY_VAULT_PATH = process.env.JWT_KEY_VAULT_PATH;
+// Published as the `kid` header; defaults to the RFC 7638 thumbprint of the public key
+export const JWT_KEY_ID = process.env.JWT_KEY_ID;
+
+export let JWT_SECRET = process.env.JWT_SECRET || DEVELOPMENT_DEFAULTS.JWT_SECRET;
+
+// Database configuration. Read when a pool is created, so rotated credentials apply to the next pool.
+export let DB_HOST = process.env.DB_HOST || 'localhost';
+export let DB_PORT = process.env.DB_PORT || '5432';
+export let DB_USERNAME = process.env.DB_USERNAME || 'postgres';
+export let DB_PASSWORD = process.env.DB_PASSWORD || DEVELOPMENT_DEFAULTS.DB_PASSWORD;
+export let DATABASE = process.env.DATABASE || 'Hofflabs';
+// Apply pending migrations on startup. When disabled the server refuses to boot until `npm run db:migrate` has been run.
+export const DB_AUTO_MIGRATE = process.env.DB_AUTO_MIGRATE !== 'false';
 
 // Environment settings
 export const NODE_ENV = process.env.NODE_ENV || 'development';
 export const TEST_MODE = process.env.TEST_MODE === 'true';
+// pino level: trace, debug, info, warn, error, fatal or silent
+export const LOG_LEVEL = process.env.LOG_LEVEL || (NODE_ENV === 'development' ? 'debug' : 'info');
+
+// Graceful shutdown on SIGTERM/SIGINT: how long /health/ready reports down before the listener closes
+// (load balancers need a poll or two to notice), then how long in-flight requests and background
+// work (audit writes, alerts, webhook deliveries) get to finish before the process exits anyway
+export const SHUTDOWN_READINESS_DELAY_SECONDS = parseInt(process.env.SHUTDOWN_READINESS_DELAY_SECONDS || (NODE_ENV === 'production' ? '5' : '0'));
+export const SHUTDOWN_TIMEOUT_SECONDS = parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || '20');
+
+export type VaultBackedSetting = 'ENCRYPTION_KEY' | 'JWT_SECRET' | 'DB_HOST' | 'DB_PORT' | 'DB_USERNAME' | 'DB_PASSWORD' | 'DATABASE';
+
+// Only loadEnvironment should call this: at startup, and again when Vault issues new database credentials
+export function applyVaultSettings(values: Partial<Record<VaultBackedSetting, string>>): void {
+  ENCRYPTION_KEY = values.ENCRYPTION_KEY ?? ENCRYPTION_KEY;
+  JWT_SECRET = values.JWT_SECRET ?? JWT_SECRET;
+  DB_HOST = values.DB_HOST ?? DB_HOST;
+  DB_PORT = values.DB_PORT ?? DB_PORT;
+  DB_USERNAME = values.DB_USERNAME ?? DB_USERNAME;
+  DB_PASSWORD = values.DB_PASSWORD ?? DB_PASSWORD;
+  DATABASE = values.DATABASE ?? DATABASE;
+}
@@ -282,6 +282,10 @@ export const SwaggerTags = [
     name: 'Sessions',
     description: 'Session management including active sessions, revocation, and login history'
   },
+  {
+    name: 'MFA',
+    description: 'TOTP multi-factor authentication enrollment and login verification'
+  },
   {
     name: 'Password Reset',
     description: 'Password reset functionality including forgot password and reset confirmation'
@@ -290,6 +294,10 @@ export const SwaggerTags = [
     name: 'Email Verification',
     description: 'Email verification processes for account security'
   },
+  {
+    name: 'Admin',
+    description: 'Operator endpoints for user management. Requires the admin role.'
+  },
   {
     name: 'Health',
     description: 'Service health checks and system status monitoring'
@@ -344,7 +352,10 @@ Authorization: Bearer <your-jwt-token>
 ## Rate Limiting
 All endpoints are rate-limited to prevent abuse. Default limits:
 - 100 requests per minute per IP
-- Additional limits on sensitive endpoints (login, registration)
+- Additional limits on sensitive endpoints (login, registration): 10 attempts per 15 minutes, then blocked for 15 minutes
+
+Responses carry \`RateLimit-Limit\`, \`RateLimit-Remaining\`, \`RateLimit-Reset\` and \`RateLimit-Policy\` headers.
+Rate-limited requests get a 429 with a \`Retry-After\` header (seconds).
 
 ## Error Handling
 All endpoints return consistent error responses with:
@@ -1,29 +1,174 @@
 import { Vault } from '../interfaces/vault';
-import { VAULT_ADDR, VAULT_PASS } from './env';
+import {
+  VAULT_ADDR,
+  VAULT_TOKEN,
+  VAULT_ROLE_ID,
+  VAULT_SECRET_ID,
+  VAULT_APPROLE_MOUNT,
+  VAULT_NAMESPACE,
+  VAULT_KV_MOUNT,
+  VAULT_TIMEOUT_MS
+} from './environment';
+import { getLogger } from '../utils/logger';
 
+// A token or secret lease Vault will revoke after `duration` seconds unless renewed
+export interface VaultLease {
+  id: string;
+  duration: number;
+  renewable: boolean;
+}
+
+export interface DynamicSecret {
+  data: Record<string, string>;
+  lease: VaultLease;
+}
+
+// Set by vaultLogin; every other request is made with it
+let clientToken: string | null = null;
+
+export const isVaultConfigured = (): boolean =>
+  Boolean(VAULT_ADDR && (VAULT_TOKEN || (VAULT_ROLE_ID && VAULT_SECRET_ID)));
+
+// Paths are relative to /v1. Error messages carry the status only: Vault's error bodies can
+// echo the request, and AppRole logins carry a secret_id.
+async function vaultRequest(method: string, path: string, body?: object): Promise<unknown> {
+  if (!VAULT_ADDR) {
+    throw new Error('VAULT_ADDR is not set');
+  }
+
+  const response = await fetch(`${VAULT_ADDR}/v1/${path.replace(/^\/+/, '')}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(clientToken && { 'X-Vault-Token': clientToken }),
+      ...(VAULT_NAMESPACE && { 'X-Vault-Namespace': VAULT_NAMESPACE })
+    },
+    body: body ? JSON.stringify(body) : undefined,
+    signal: AbortSignal.timeout(VAULT_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Vault ${method} ${path} failed: HTTP ${response.status}`);
+  }
+  return response.status === 204 ? {} : response.json();
+}
+
+// Response bodies are narrowed field by field: a proxy in front of Vault, or a path pointing at
+// the wrong kind of secret, answers 200 with a different shape
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const field = (value: unknown, name: string): unknown => (isObject(value) ? value[name] : undefined);
+
+function toLease(id: unknown, duration: unknown, renewable: unknown, path: string): VaultLease {
+  if (typeof id !== 'string' || typeof duration !== 'number' || typeof renewable !== 'boolean') {
+    throw new Error(`Vault ${path} returned no lease`);
+  }
+  return { id, duration, renewable };
+}
+
+// Secret fields as strings; KV values written as JSON may be numbers (a port, say)
+function secretFields(value: unknown): Record<string, string> {
+  if (!isObject(value)) return {};
+
+  const fields: Record<string, string> = {};
+  for (const [name, fieldValue] of Object.entries(value)) {
+    if (typeof fieldValue === 'string' || typeof fieldValue === 'number') {
+      fields[name] = String(fieldValue);
+    }
+  }
+  return fields;
+}
+
+// Log in with AppRole when it's configured, otherwise use VAULT_TOKEN as is. Returns the
+// token's lease; a duration of 0 means it never expires (root and periodic-less tokens).
+export async function vaultLogin(): Promise<VaultLease> {
+  if (VAULT_ROLE_ID && VAULT_SECRET_ID) {
+    clientToken = null;
+    const path = `auth/${VAULT_APPROLE_MOUNT}/login`;
+    const auth = field(await vaultRequest('POST', path, {
+      role_id: VAULT_ROLE_ID,
+      secret_id: VAULT_SECRET_ID
+    }), 'auth');
+    const token = field(auth, 'client_token');
+    if (typeof token !== 'string') {
+      throw new Error(`Vault ${path} returned no client token`);
+    }
+    clientToken = token;
+    return toLease('token', field(auth, 'lease_duration'), field(auth, 'renewable'), path);
+  }
+
+  if (!VAULT_TOKEN) {
+    throw new Error('VAULT_TOKEN, or VAULT_ROLE_ID and VAULT_SECRET_ID, must be set to read secrets from Vault');
+  }
+
+  clientToken = VAULT_TOKEN;
+  const data = field(await vaultRequest('GET', 'auth/token/lookup-self'), 'data');
+  return toLease('token', field(data, 'ttl'), field(data, 'renewable'), 'auth/token/lookup-self');
+}
+
+export async function renewVaultToken(): Promise<VaultLease> {
+  const auth = field(await vaultRequest('POST', 'auth/token/renew-self', {}), 'auth');
+  return toLease('token', field(auth, 'lease_duration'), field(auth, 'renewable'), 'auth/token/renew-self');
+}
+
+// Fields of the latest version of a KV v2 secret, or {} when there is no such secret
+export async function readKvSecret(path: string): Promise<Record<string, string>> {
+  try {
+    const response = await vaultRequest('GET', `${VAULT_KV_MOUNT}/data/${path}`);
+    return secretFields(field(field(response, 'data'), 'data'));
+  } catch (error) {
+    if (error instanceof Error && error.message.endsWith('HTTP 404')) {
+      return {};
+    }
+    throw error;
+  }
+}
+
+// A secret Vault generates on read, such as database credentials, along with its lease
+export async function readDynamicSecret(path: string): Promise<DynamicSecret> {
+  const response = await vaultRequest('GET', path);
+  return {
+    data: secretFields(field(response, 'data')),
+    lease: toLease(field(response, 'lease_id'), field(response, 'lease_duration'), field(response, 'renewable'), path)
+  };
+}
+
+// Vault may grant less than the increment asked for once the lease nears its max TTL
+export async function renewLease(lease: VaultLease, increment: number = lease.duration): Promise<VaultLease> {
+  const response = await vaultRequest('PUT', 'sys/leases/renew', { lease_id: lease.id, increment });
+  return toLease(field(response, 'lease_id'), field(response, 'lease_duration'), field(response, 'renewable'), 'sys/leases/renew');
+}
+
+// Read a KV secret by its full API path (e.g. /v1/secrets/data/api/authentication/jwt_signing_key).
+// Failures are logged and return {} so callers can decide whether the secret was required.
 export async function getSecret(path: string): Promise<Vault> {
   if (!path) return {};
 
   try {
-    const VAULT_URL = VAULT_ADDR + path;
-    const VAULT_TOKEN = VAULT_PASS;
-    const response = await fetch(VAULT_URL, {
-      method: 'GET',
-      headers: {
-        'X-Vault-Token': VAULT_TOKEN,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Vault request failed: ${response.status}`);
+    if (!clientToken) {
+      await vaultLogin();
     }
 
-    const data = await response.json();
-    const secretValue = data?.data?.data;
-    return secretValue && typeof secretValue === 'object' ? secretValue : {};
+    const response = await vaultRequest('GET', path.replace(/^\/?v1\//, ''));
+    return secretFields(field(field(response, 'data'), 'data'));
   } catch (error) {
-    console.error('Error fetching Vault secret:', error instanceof Error ? error.message : String(error));
+    getLogger().error({ err: error }, 'Error fetching Vault secret');
     return {};
   }
-}
\ No newline at end of file
+}
+
+// Vault's unauthenticated health endpoint answers 200 when active and 429/472/473 on
+// standbys, which still serve reads; sealed or uninitialized nodes get 503/501
+const VAULT_SERVING_STATUSES = [200, 429, 472, 473];
+
+export async function checkVaultHealth(timeoutMs: number): Promise<void> {
+  if (!VAULT_ADDR) {
+    throw new Error('VAULT_ADDR is not set');
+  }
+
+  const response = await fetch(`${VAULT_ADDR}/v1/sys/health`, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!VAULT_SERVING_STATUSES.includes(response.status)) {
+    throw new Error(`Vault is not serving requests (HTTP ${response.status})`);
+  }
+}
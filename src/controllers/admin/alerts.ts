@@ -0,0 +1,36 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getActorUid } from '../../middleware/security';
+import { sendTestAlertService } from '../../services/admin/alerts';
+import { type AuditSeverity } from '../../interfaces/audit';
+
+interface TestAlertRequest {
+  Body: {
+    severity?: AuditSeverity;
+  };
+}
+
+export const sendTestAlert = async (
+  request: FastifyRequest<TestAlertRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const result = await sendTestAlertService(getActorUid(request), request.body?.severity || 'critical');
+    const failed = result.results.filter(entry => !entry.delivered).length;
+
+    reply.send({
+      success: failed === 0 && result.results.length > 0,
+      message: result.results.length === 0
+        ? 'No alert sink accepts alerts of this severity'
+        : `Test alert sent to ${result.results.length - failed} of ${result.results.length} sink(s)`,
+      ...result
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to send test alert';
+
+    reply.status(500).send({
+      error: 'Test alert failed',
+      message: errorMessage
+    });
+  }
+};
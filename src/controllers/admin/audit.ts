@@ -0,0 +1,98 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getActorUid } from '../../middleware/security';
+import { listAuditEventsService, verifyAuditLogService } from '../../services/admin/audit';
+import { type AuditEventType, type AuditSeverity } from '../../interfaces/audit';
+
+interface ListAuditRequest {
+  Querystring: {
+    user_uid?: string;
+    type?: AuditEventType;
+    severity?: AuditSeverity;
+    from?: string;
+    to?: string;
+    cursor?: string;
+    limit?: string;
+  };
+}
+
+interface VerifyAuditRequest {
+  Querystring: {
+    stream?: AuditEventType;
+  };
+}
+
+const parseDate = (value?: string): Date | undefined | null => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const listAuditEvents = async (
+  request: FastifyRequest<ListAuditRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const { user_uid, type, severity, cursor } = request.query;
+    const limit = request.query.limit ? parseInt(request.query.limit) : 50;
+    const from = parseDate(request.query.from);
+    const to = parseDate(request.query.to);
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return reply.status(400).send({
+        error: 'Invalid limit',
+        message: 'Limit must be a number between 1 and 200'
+      });
+    }
+
+    if (from === null || to === null) {
+      return reply.status(400).send({
+        error: 'Invalid time range',
+        message: 'from and to must be ISO 8601 timestamps'
+      });
+    }
+
+    const page = await listAuditEventsService({ user_uid, type, severity, from, to, cursor, limit });
+
+    reply.send({
+      success: true,
+      ...page
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list audit events';
+
+    if (errorMessage === 'Invalid cursor') {
+      return reply.status(400).send({
+        error: 'Invalid cursor',
+        message: 'The cursor is malformed; use next_cursor from a previous response'
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Audit log query failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const verifyAuditLog = async (
+  request: FastifyRequest<VerifyAuditRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const result = await verifyAuditLogService(getActorUid(request), request.query.stream);
+
+    reply.send({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to verify audit log';
+
+    reply.status(500).send({
+      error: 'Audit log verification failed',
+      message: errorMessage
+    });
+  }
+};
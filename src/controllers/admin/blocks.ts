@@ -0,0 +1,92 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getActorUid } from '../../middleware/security';
+import { isIP } from 'net';
+import { listIpBlocksService, unblockIpService } from '../../services/admin/blocks';
+import { listLockedAccountsService } from '../../services/admin/users';
+
+interface IpParams {
+  Params: { ip: string };
+}
+
+export const listIpBlocks = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  try {
+    const blocks = await listIpBlocksService();
+
+    reply.send({
+      success: true,
+      blocks
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list IP blocks';
+
+    reply.status(500).send({
+      error: 'IP block listing failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const unblockIp = async (
+  request: FastifyRequest<IpParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const { ip } = request.params;
+
+    if (!isIP(ip)) {
+      return reply.status(400).send({
+        error: 'Invalid IP address',
+        message: 'Provide an IPv4 or IPv6 address'
+      });
+    }
+
+    const policies = await unblockIpService(getActorUid(request), ip);
+
+    reply.send({
+      success: true,
+      message: 'IP address unblocked and its rate limit counters reset',
+      policies
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to unblock IP address';
+
+    if (errorMessage.includes('not blocked')) {
+      return reply.status(404).send({
+        error: 'Block not found',
+        message: errorMessage
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Unblock failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const listAccountLocks = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  try {
+    const users = await listLockedAccountsService();
+
+    reply.send({
+      success: true,
+      users
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list locked accounts';
+
+    reply.status(500).send({
+      error: 'Account lock listing failed',
+      message: errorMessage
+    });
+  }
+};
@@ -0,0 +1,55 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getActorUid } from '../../middleware/security';
+import { listSigningKeysService, rotateSigningKeyService } from '../../services/auth/signingKeys';
+
+export const listSigningKeys = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  try {
+    const keys = await listSigningKeysService();
+
+    reply.send({
+      success: true,
+      keys
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to list signing keys';
+
+    reply.status(500).send({
+      error: 'Signing key listing failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const rotateSigningKey = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  try {
+    const key = await rotateSigningKeyService(getActorUid(request));
+
+    reply.status(202).send({
+      success: true,
+      message: 'New signing key published. It will start signing tokens at activates_at; previous keys keep verifying until every token they issued has expired.',
+      key
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to rotate signing key';
+
+    if (errorMessage.includes('already in progress')) {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: errorMessage
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Key rotation failed',
+      message: errorMessage
+    });
+  }
+};
@@ -0,0 +1,298 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getActorUid } from '../../middleware/security';
+import {
+  listUsersService,
+  findUserService,
+  getUserService,
+  banUserService,
+  unbanUserService,
+  unlockUserService,
+  changeUserRoleService,
+  setUserActiveService,
+  revokeUserSessionsService,
+  type UserStatusFilter,
+  type BanOptions,
+  type RoleChange
+} from '../../services/admin/users';
+
+interface UserParams {
+  Params: { uid: string };
+}
+
+interface ListUsersRequest {
+  Querystring: { page?: string; limit?: string; status?: UserStatusFilter };
+}
+
+interface SearchUsersRequest {
+  Querystring: { username?: string; email?: string };
+}
+
+interface BanRequest extends UserParams {
+  Body: BanOptions;
+}
+
+interface RoleChangeRequest extends UserParams {
+  Body: RoleChange;
+}
+
+// Map service errors to HTTP status codes
+const sendAdminError = (reply: FastifyReply, error: unknown, fallback: string) => {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+
+  if (errorMessage.includes('not found')) {
+    return reply.status(404).send({
+      error: 'User not found',
+      message: errorMessage
+    });
+  }
+
+  if (errorMessage.includes('cannot') || errorMessage.startsWith('Unknown')) {
+    return reply.status(400).send({
+      error: 'Invalid operation',
+      message: errorMessage
+    });
+  }
+
+  return reply.status(500).send({
+    error: fallback,
+    message: errorMessage
+  });
+};
+
+export const listUsers = async (
+  request: FastifyRequest<ListUsersRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const page = request.query.page ? parseInt(request.query.page) : 1;
+    const limit = request.query.limit ? parseInt(request.query.limit) : 25;
+
+    if (isNaN(page) || page < 1) {
+      return reply.status(400).send({
+        error: 'Invalid page',
+        message: 'Page must be a positive number'
+      });
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 100) {
+      return reply.status(400).send({
+        error: 'Invalid limit',
+        message: 'Limit must be a number between 1 and 100'
+      });
+    }
+
+    const { users, total } = await listUsersService({ page, limit, status: request.query.status });
+
+    reply.header('X-Total-Count', total);
+    reply.send({
+      success: true,
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit)
+      }
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'User listing failed');
+  }
+};
+
+export const searchUsers = async (
+  request: FastifyRequest<SearchUsersRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const { username, email } = request.query;
+
+    if (!username && !email) {
+      return reply.status(400).send({
+        error: 'Missing search criteria',
+        message: 'Provide a username or email to search for'
+      });
+    }
+
+    const user = await findUserService(username, email);
+
+    if (!user) {
+      return reply.status(404).send({
+        error: 'User not found',
+        message: 'No user matches the given username or email'
+      });
+    }
+
+    reply.send({
+      success: true,
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'User search failed');
+  }
+};
+
+export const getUser = async (
+  request: FastifyRequest<UserParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const user = await getUserService(request.params.uid);
+
+    reply.send({
+      success: true,
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'User retrieval failed');
+  }
+};
+
+export const banUser = async (
+  request: FastifyRequest<BanRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const { reason, shadow } = request.body;
+
+    if (!reason || !reason.trim()) {
+      return reply.status(400).send({
+        error: 'Missing reason',
+        message: 'A ban reason is required'
+      });
+    }
+
+    const user = await banUserService(getActorUid(request), request.params.uid, {
+      reason: reason.trim(),
+      shadow: shadow === true
+    });
+
+    reply.send({
+      success: true,
+      message: shadow ? 'User shadowbanned' : 'User banned and signed out of all sessions',
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Ban failed');
+  }
+};
+
+export const unbanUser = async (
+  request: FastifyRequest<UserParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const user = await unbanUserService(getActorUid(request), request.params.uid);
+
+    reply.send({
+      success: true,
+      message: 'User unbanned',
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Unban failed');
+  }
+};
+
+export const unlockUser = async (
+  request: FastifyRequest<UserParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const user = await unlockUserService(getActorUid(request), request.params.uid);
+
+    reply.send({
+      success: true,
+      message: 'Account unlocked and login attempts reset',
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Unlock failed');
+  }
+};
+
+export const changeUserRole = async (
+  request: FastifyRequest<RoleChangeRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const { role, sub_roles } = request.body;
+
+    if (role === undefined && sub_roles === undefined) {
+      return reply.status(400).send({
+        error: 'Missing role data',
+        message: 'Provide a role and/or sub_roles'
+      });
+    }
+
+    const user = await changeUserRoleService(getActorUid(request), request.params.uid, { role, sub_roles });
+
+    reply.send({
+      success: true,
+      message: 'Role updated. The user\'s access tokens were revoked, so the change applies immediately.',
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Role change failed');
+  }
+};
+
+export const deactivateUser = async (
+  request: FastifyRequest<UserParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const user = await setUserActiveService(getActorUid(request), request.params.uid, false);
+
+    reply.send({
+      success: true,
+      message: 'User deactivated and signed out of all sessions',
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Deactivation failed');
+  }
+};
+
+export const reactivateUser = async (
+  request: FastifyRequest<UserParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const user = await setUserActiveService(getActorUid(request), request.params.uid, true);
+
+    reply.send({
+      success: true,
+      message: 'User reactivated',
+      user
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Reactivation failed');
+  }
+};
+
+export const revokeUserSessions = async (
+  request: FastifyRequest<UserParams>,
+  reply: FastifyReply
+) => {
+  try {
+    const revokedCount = await revokeUserSessionsService(getActorUid(request), request.params.uid);
+
+    reply.send({
+      success: true,
+      message: `Revoked ${revokedCount} session(s)`,
+      revoked_count: revokedCount
+    });
+
+  } catch (error) {
+    sendAdminError(reply, error, 'Session revocation failed');
+  }
+};
@@ -0,0 +1,161 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getActorUid } from '../../middleware/security';
+import {
+  listWebhooksService,
+  createWebhookService,
+  updateWebhookService,
+  deleteWebhookService,
+  listWebhookDeliveriesService
+} from '../../services/admin/webhooks';
+import { type WebhookDeliveryStatus } from '../../interfaces/webhook';
+
+interface WebhookParams {
+  Params: { uid: string };
+}
+
+interface CreateWebhookRequest {
+  Body: {
+    url: string;
+    description?: string;
+    event_types: string[];
+  };
+}
+
+interface UpdateWebhookRequest extends WebhookParams {
+  Body: {
+    url?: string;
+    description?: string;
+    event_types?: string[];
+    is_active?: boolean;
+  };
+}
+
+interface ListDeliveriesRequest extends WebhookParams {
+  Querystring: {
+    status?: WebhookDeliveryStatus;
+    cursor?: string;
+    limit?: string;
+  };
+}
+
+// Map service errors to HTTP status codes
+const sendWebhookError = (reply: FastifyReply, error: unknown, fallback: string) => {
+  const errorMessage = error instanceof Error ? error.message : fallback;
+
+  if (errorMessage === 'Webhook not found') {
+    return reply.status(404).send({
+      error: 'Webhook not found',
+      message: errorMessage
+    });
+  }
+
+  if (errorMessage.startsWith('Invalid') || errorMessage.startsWith('Unknown')) {
+    return reply.status(400).send({
+      error: 'Invalid webhook',
+      message: errorMessage
+    });
+  }
+
+  return reply.status(500).send({
+    error: fallback,
+    message: errorMessage
+  });
+};
+
+export const listWebhooks = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  try {
+    const webhooks = await listWebhooksService();
+
+    reply.send({
+      success: true,
+      webhooks
+    });
+
+  } catch (error) {
+    sendWebhookError(reply, error, 'Webhook listing failed');
+  }
+};
+
+export const createWebhook = async (
+  request: FastifyRequest<CreateWebhookRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const { webhook, secret } = await createWebhookService(getActorUid(request), request.body);
+
+    reply.status(201).send({
+      success: true,
+      message: 'Webhook created. Store the secret now; it will not be shown again.',
+      webhook,
+      secret
+    });
+
+  } catch (error) {
+    sendWebhookError(reply, error, 'Webhook creation failed');
+  }
+};
+
+export const updateWebhook = async (
+  request: FastifyRequest<UpdateWebhookRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const webhook = await updateWebhookService(getActorUid(request), request.params.uid, request.body);
+
+    reply.send({
+      success: true,
+      message: 'Webhook updated',
+      webhook
+    });
+
+  } catch (error) {
+    sendWebhookError(reply, error, 'Webhook update failed');
+  }
+};
+
+export const deleteWebhook = async (
+  request: FastifyRequest<WebhookParams>,
+  reply: FastifyReply
+) => {
+  try {
+    await deleteWebhookService(getActorUid(request), request.params.uid);
+
+    reply.send({
+      success: true,
+      message: 'Webhook and its delivery log deleted'
+    });
+
+  } catch (error) {
+    sendWebhookError(reply, error, 'Webhook deletion failed');
+  }
+};
+
+export const listWebhookDeliveries = async (
+  request: FastifyRequest<ListDeliveriesRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const { status, cursor } = request.query;
+    const limit = request.query.limit ? parseInt(request.query.limit) : 50;
+
+    if (isNaN(limit) || limit < 1 || limit > 200) {
+      return reply.status(400).send({
+        error: 'Invalid limit',
+        message: 'Limit must be a number between 1 and 200'
+      });
+    }
+
+    const page = await listWebhookDeliveriesService(request.params.uid, { status, cursor, limit });
+
+    reply.send({
+      success: true,
+      ...page
+    });
+
+  } catch (error) {
+    sendWebhookError(reply, error, 'Delivery log query failed');
+  }
+};
@@ -86,7 +86,18 @@ export const login = async (request: FastifyRequest<{ Body: AuthBody }>, reply:
     });
   }
   
-  if (response.success) {
+  // Password accepted but the account requires a second factor - no cookies until /auth/mfa/verify
+  if (response.mfa_required) {
+    return reply.send({
+      success: true,
+      mfa_required: true,
+      message: 'Multi-factor authentication required',
+      mfa_token: response.mfa_token,
+      expires_in: response.expires_in
+    });
+  }
+  
+  if (response.success && response.access_token && response.refresh_token) {
     // Set secure httpOnly cookies for tokens and user data
     const isProduction = process.env.NODE_ENV === 'production';
     
@@ -170,9 +181,9 @@ export const register = async (request: FastifyRequest<{ Body: AuthBody }>, repl
     });
   }
   
-  // Hash password before storing
-  const { encryptPassword } = await import('../../utils/auth/authEncryption');
-  const hashedPassword = await encryptPassword(password);
+  // Hash password before storing (createUser encrypts the hash)
+  const { hashPassword } = await import('../../utils/auth/authEncryption');
+  const hashedPassword = await hashPassword(password);
   
   const newUser = { 
     username: username, 
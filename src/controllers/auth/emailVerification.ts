@@ -4,6 +4,7 @@ import {
   verifyEmailService, 
   resendVerificationEmailService 
 } from '../../services/auth/emailVerification';
+import { getLogger } from '../../utils/logger';
 
 interface EmailVerificationBody {
   email: string;
@@ -37,7 +38,7 @@ export const sendVerificationEmail = async (request: FastifyRequest<{ Body: Emai
       reply.status(500).send({ error: result.message });
     }
   } catch (error) {
-    console.error('Send verification email controller error:', error);
+    getLogger().error({ err: error }, 'Send verification email controller error');
     reply.status(500).send({ error: 'Internal server error' });
   }
 };
@@ -69,7 +70,7 @@ export const verifyEmail = async (request: FastifyRequest<{ Querystring: VerifyE
       });
     }
   } catch (error) {
-    console.error('Verify email controller error:', error);
+    getLogger().error({ err: error }, 'Verify email controller error');
     reply.status(500).send({ error: 'Internal server error' });
   }
 };
@@ -90,7 +91,7 @@ export const resendVerificationEmail = async (request: FastifyRequest<{ Body: Re
       reply.status(400).send({ error: result.message });
     }
   } catch (error) {
-    console.error('Resend verification email controller error:', error);
+    getLogger().error({ err: error }, 'Resend verification email controller error');
     reply.status(500).send({ error: 'Internal server error' });
   }
 };
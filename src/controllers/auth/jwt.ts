@@ -2,7 +2,10 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { verifyJWT, decodeJWT } from '../../utils/jwt';
 import { refreshTokenService, validateRefreshTokenService } from '../../services/auth/refresh';
 import { validateAndExtendSession, invalidateSession, findSessionByJWT } from '../../utils/auth/sessionManagement';
+import { isAccessTokenRevoked } from '../../utils/auth/tokenDenylist';
+import { logSecurityEvent } from '../../utils/secureLogger';
 import { extractTokenFromRequest, extractRefreshTokenFromRequest, MISSING_TOKEN_ERROR } from '../../utils/tokenExtractor';
+import { getPublicJwks } from '../../utils/auth/signingKeys';
 
 interface JWTVerifyBody {
   token: string;
@@ -30,6 +33,14 @@ export const verifyToken = async (
     // First verify JWT signature
     const decoded = verifyJWT(token);
     
+    if (await isAccessTokenRevoked(decoded.jti)) {
+      return reply.status(401).send({
+        valid: false,
+        error: 'Token revoked',
+        message: 'Token signature is valid but the token has been revoked'
+      });
+    }
+    
     // Then validate against session in database and potentially extend session
     const sessionValidation = await validateAndExtendSession(token);
     
@@ -185,7 +196,7 @@ export const refreshToken = async (
     }
 
     // Process the refresh token
-    const result = await refreshTokenService(refresh_token);
+    const result = await refreshTokenService(refresh_token, request.ip, request.headers['user-agent']);
 
     if (!result) {
       return reply.status(401).send({
@@ -307,7 +318,15 @@ export const invalidateToken = async (
       });
     }
     
-    await invalidateSession(session.id);
+    await invalidateSession(session);
+    
+    logSecurityEvent({
+      type: 'auth',
+      severity: 'low',
+      message: 'User logged out',
+      userId: session.user_uid,
+      details: { session_id: session.id }
+    });
     
     // Clear authentication cookies
     reply.clearCookie('access_token', { path: '/' });
@@ -333,3 +352,22 @@ export const invalidateToken = async (
     });
   }
 };
+
+export const getJwks = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  try {
+    // Public keys only - safe to cache, but not for so long that a rotated key goes unseen
+    reply.header('Cache-Control', 'public, max-age=300');
+    reply.send(getPublicJwks());
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to load signing keys';
+
+    reply.status(500).send({
+      error: 'JWKS unavailable',
+      message: errorMessage
+    });
+  }
+};
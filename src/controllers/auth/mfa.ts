@@ -0,0 +1,262 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { verifyJWT } from '../../utils/jwt';
+import { extractTokenFromRequest, MISSING_TOKEN_ERROR } from '../../utils/tokenExtractor';
+import {
+  startMfaEnrollmentService,
+  confirmMfaEnrollmentService,
+  regenerateRecoveryCodesService,
+  verifyMfaLoginService
+} from '../../services/auth/mfa';
+
+interface TokenRequest {
+  Headers?: { authorization?: string };
+}
+
+interface MfaConfirmRequest {
+  Body: { code: string; token?: string };
+  Headers?: { authorization?: string };
+}
+
+interface RecoveryCodesRequest {
+  Body: { password: string; token?: string };
+  Headers?: { authorization?: string };
+}
+
+interface MfaVerifyBody {
+  mfa_token: string;
+  code?: string;
+  recovery_code?: string;
+}
+
+export const enrollMfa = async (
+  request: FastifyRequest<TokenRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const token = extractTokenFromRequest(request);
+    if (!token) {
+      return reply.status(400).send(MISSING_TOKEN_ERROR);
+    }
+
+    // Extract UID from JWT
+    const decoded = verifyJWT(token);
+    const uid = decoded.sub;
+
+    if (!uid) {
+      return reply.status(401).send({
+        error: 'Invalid token',
+        message: 'Token does not contain valid user information'
+      });
+    }
+
+    const enrollment = await startMfaEnrollmentService(uid);
+
+    reply.send({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      secret: enrollment.secret,
+      otpauth_uri: enrollment.otpauth_uri
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to start MFA enrollment';
+
+    if (errorMessage.includes('already enabled')) {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: errorMessage
+      });
+    }
+
+    reply.status(500).send({
+      error: 'MFA enrollment failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const confirmMfa = async (
+  request: FastifyRequest<MfaConfirmRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const token = extractTokenFromRequest(request);
+    if (!token) {
+      return reply.status(400).send(MISSING_TOKEN_ERROR);
+    }
+
+    // Extract UID from JWT
+    const decoded = verifyJWT(token);
+    const uid = decoded.sub;
+
+    if (!uid) {
+      return reply.status(401).send({
+        error: 'Invalid token',
+        message: 'Token does not contain valid user information'
+      });
+    }
+
+    const { code } = request.body;
+    if (!code) {
+      return reply.status(400).send({
+        error: 'Missing code',
+        message: 'A verification code from your authenticator app is required'
+      });
+    }
+
+    const recoveryCodes = await confirmMfaEnrollmentService(uid, code);
+
+    reply.send({
+      success: true,
+      message: 'Multi-factor authentication enabled. Store these recovery codes somewhere safe - they will not be shown again.',
+      recovery_codes: recoveryCodes
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to confirm MFA enrollment';
+
+    if (errorMessage.includes('Invalid verification code') || errorMessage.includes('not been started')) {
+      return reply.status(400).send({
+        error: 'MFA confirmation failed',
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('already enabled')) {
+      return reply.status(409).send({
+        error: 'Conflict',
+        message: errorMessage
+      });
+    }
+
+    reply.status(500).send({
+      error: 'MFA confirmation failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const regenerateRecoveryCodes = async (
+  request: FastifyRequest<RecoveryCodesRequest>,
+  reply: FastifyReply
+) => {
+  try {
+    const token = extractTokenFromRequest(request);
+    if (!token) {
+      return reply.status(400).send(MISSING_TOKEN_ERROR);
+    }
+
+    // Extract UID from JWT
+    const decoded = verifyJWT(token);
+    const uid = decoded.sub;
+
+    if (!uid) {
+      return reply.status(401).send({
+        error: 'Invalid token',
+        message: 'Token does not contain valid user information'
+      });
+    }
+
+    const { password } = request.body;
+    if (!password) {
+      return reply.status(400).send({
+        error: 'Missing password',
+        message: 'Your current password is required to regenerate recovery codes'
+      });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodesService(uid, password);
+
+    reply.send({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work.',
+      recovery_codes: recoveryCodes
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Failed to regenerate recovery codes';
+
+    if (errorMessage.includes('incorrect')) {
+      return reply.status(400).send({
+        error: 'Invalid current password',
+        message: errorMessage
+      });
+    }
+
+    if (errorMessage.includes('not enabled')) {
+      return reply.status(400).send({
+        error: 'MFA not enabled',
+        message: errorMessage
+      });
+    }
+
+    reply.status(500).send({
+      error: 'Recovery code generation failed',
+      message: errorMessage
+    });
+  }
+};
+
+export const verifyMfa = async (request: FastifyRequest<{ Body: MfaVerifyBody }>, reply: FastifyReply) => {
+  const { mfa_token, code, recovery_code } = request.body;
+  const login_ip = request.ip;
+  const user_agent = request.headers['user-agent'];
+
+  if (!mfa_token || (!code && !recovery_code)) {
+    return reply.status(400).send({ error: 'mfa_token and either code or recovery_code are required' });
+  }
+
+  const response = await verifyMfaLoginService(mfa_token, { code, recovery_code }, login_ip, user_agent);
+
+  if ('error' in response) {
+    const statusCode = response.locked ? 423 : 401; // 423 = Locked
+    return reply.status(statusCode).send({
+      error: response.error,
+      locked: response.locked,
+      attempts_remaining: response.attempts_remaining
+    });
+  }
+
+  // Set secure httpOnly cookies for tokens and user data
+  const isProduction = process.env.NODE_ENV === 'production';
+
+  // Access token cookie (15 minutes)
+  reply.setCookie('access_token', response.access_token, {
+    httpOnly: true,
+    secure: isProduction, // Only HTTPS in production
+    sameSite: 'strict',
+    maxAge: 15 * 60 * 1000, // 15 minutes
+    path: '/'
+  });
+
+  // Refresh token cookie (7 days)
+  reply.setCookie('refresh_token', response.refresh_token, {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'strict',
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    path: '/'
+  });
+
+  // User data cookie (non-httpOnly for frontend access, but still secure)
+  reply.setCookie('user_data', JSON.stringify({
+    uid: response.user.uid,
+    username: response.user.username,
+    email: response.user.email,
+    email_verified: response.user.email_verified,
+    created_at: response.user.created_at
+  }), {
+    httpOnly: false, // Frontend needs to read user data
+    secure: isProduction,
+    sameSite: 'strict',
+    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    path: '/'
+  });
+
+  reply.send({
+    success: true,
+    message: 'Login successful',
+    user: response.user,
+    expires_in: response.expires_in
+  });
+};
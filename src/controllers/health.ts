@@ -0,0 +1,23 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { getLivenessService, getReadinessService } from '../services/health';
+
+export const getLiveness = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  reply.header('Cache-Control', 'no-store').send(getLivenessService());
+};
+
+// Failed checks are reported in the body rather than thrown
+export const getReadiness = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  const report = await getReadinessService();
+
+  // Degraded still takes traffic; only a required dependency being down takes the instance out
+  reply
+    .header('Cache-Control', 'no-store')
+    .status(report.status === 'down' ? 503 : 200)
+    .send(report);
+};
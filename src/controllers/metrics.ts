@@ -0,0 +1,28 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { createHash, timingSafeEqual } from 'crypto';
+import { METRICS_TOKEN } from '../config/environment';
+import { renderMetrics, METRICS_CONTENT_TYPE } from '../utils/metrics/registry';
+
+// Compare digests so the check takes the same time whatever the token's length
+const tokenMatches = (presented: string, expected: string): boolean =>
+  timingSafeEqual(createHash('sha256').update(presented).digest(), createHash('sha256').update(expected).digest());
+
+export const getMetrics = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+) => {
+  if (METRICS_TOKEN) {
+    const [scheme, token] = (request.headers.authorization || '').split(' ');
+    if (scheme !== 'Bearer' || !token || !tokenMatches(token, METRICS_TOKEN)) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'A valid metrics token is required'
+      });
+    }
+  }
+
+  reply
+    .header('Cache-Control', 'no-store')
+    .type(METRICS_CONTENT_TYPE)
+    .send(renderMetrics());
+};
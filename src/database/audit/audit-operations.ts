@@ -0,0 +1,110 @@
+import { executeQuery } from '../utils/operations';
+import {
+    type AuditEventRecord,
+    type ChainedAuditEvent,
+    type AuditEventFilter,
+    type AuditEventType,
+    type AuditCheckpoint
+} from '../../interfaces/audit';
+
+// Fails with a unique violation if another writer already appended after prev_hash
+export async function insertAuditEvent(event: ChainedAuditEvent): Promise<void> {
+    const query = {
+        text: `INSERT INTO audit_events (occurred_at, type, severity, message, actor_uid, target_uid, ip_address, user_agent, details, prev_hash, hash)
+               VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        values: [
+            event.occurred_at,
+            event.type,
+            event.severity,
+            event.message,
+            event.actor_uid,
+            event.target_uid,
+            event.ip_address,
+            event.user_agent,
+            event.details ? JSON.stringify(event.details) : null,
+            event.prev_hash,
+            event.hash
+        ],
+    };
+    await executeQuery(query);
+}
+
+// Newest first. Filters are bound parameters; only the fixed column conditions are
+// assembled into the SQL text.
+export async function readAuditEvents(filter: AuditEventFilter, limit: number): Promise<AuditEventRecord[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+    const bind = (value: any): string => {
+        values.push(value);
+        return `$${values.length}`;
+    };
+
+    if (filter.user_uid) {
+        const uid = bind(filter.user_uid);
+        conditions.push(`(actor_uid = ${uid} OR target_uid = ${uid})`);
+    }
+    if (filter.type) conditions.push(`type = ${bind(filter.type)}`);
+    if (filter.severity) conditions.push(`severity = ${bind(filter.severity)}`);
+    if (filter.from) conditions.push(`occurred_at >= ${bind(filter.from)}`);
+    if (filter.to) conditions.push(`occurred_at < ${bind(filter.to)}`);
+    if (filter.before_id) conditions.push(`id < ${bind(filter.before_id)}`);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const query = {
+        text: `SELECT * FROM audit_events ${where} ORDER BY id DESC LIMIT ${bind(limit)}`,
+        values,
+    };
+    return executeQuery<AuditEventRecord>(query);
+}
+
+export async function readAuditChainHead(type: AuditEventType): Promise<{ id: string; hash: string } | undefined> {
+    const query = {
+        text: 'SELECT id, hash FROM audit_events WHERE type = $1 AND hash IS NOT NULL ORDER BY id DESC LIMIT 1',
+        values: [type],
+    };
+    const result = await executeQuery<{ id: string; hash: string }>(query);
+    return result[0];
+}
+
+// Oldest first, for walking a chain
+export async function readAuditEventsAfter(type: AuditEventType, after_id: string, limit: number): Promise<AuditEventRecord[]> {
+    const query = {
+        text: 'SELECT * FROM audit_events WHERE type = $1 AND id > $2 ORDER BY id LIMIT $3',
+        values: [type, after_id, limit],
+    };
+    return executeQuery<AuditEventRecord>(query);
+}
+
+export async function readAuditStreams(): Promise<AuditEventType[]> {
+    const query = {
+        text: 'SELECT DISTINCT type AS stream FROM audit_events UNION SELECT DISTINCT stream FROM audit_checkpoints ORDER BY stream',
+    };
+    const result = await executeQuery<{ stream: AuditEventType }>(query);
+    return result.map(row => row.stream);
+}
+
+export async function insertAuditCheckpoint(checkpoint: Omit<AuditCheckpoint, 'id' | 'created_at'>): Promise<void> {
+    const query = {
+        text: `INSERT INTO audit_checkpoints (stream, event_id, hash, signature) VALUES ($1, $2, $3, $4)
+               ON CONFLICT (stream, event_id) DO NOTHING`,
+        values: [checkpoint.stream, checkpoint.event_id, checkpoint.hash, checkpoint.signature],
+    };
+    await executeQuery(query);
+}
+
+export async function readLatestAuditCheckpoint(stream: AuditEventType): Promise<AuditCheckpoint | undefined> {
+    const query = {
+        text: 'SELECT * FROM audit_checkpoints WHERE stream = $1 ORDER BY event_id DESC LIMIT 1',
+        values: [stream],
+    };
+    const result = await executeQuery<AuditCheckpoint>(query);
+    return result[0];
+}
+
+export async function readAuditCheckpoints(stream: AuditEventType): Promise<AuditCheckpoint[]> {
+    const query = {
+        text: 'SELECT * FROM audit_checkpoints WHERE stream = $1 ORDER BY event_id',
+        values: [stream],
+    };
+    return executeQuery<AuditCheckpoint>(query);
+}
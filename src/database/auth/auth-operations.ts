@@ -115,14 +115,63 @@ export async function isAccountLocked(username_hash: string): Promise<boolean> {
     return true;
 }
 
-export async function recordLoginAttempt(user_uid: string, login_ip: string | null, user_agent: string | null, success: boolean): Promise<void> {
+export async function recordLoginAttempt(user_uid: string, login_ip: string | null, user_agent: string | null, success: boolean, method: string = 'password'): Promise<void> {
     const query = {
         text: 'INSERT INTO user_login_history (user_uid, login_ip, user_agent, auth_method) VALUES ($1, $2, $3, $4)',
-        values: [user_uid, login_ip, user_agent, success ? 'password_success' : 'password_failed'],
+        values: [user_uid, login_ip, user_agent, `${method}_${success ? 'success' : 'failed'}`],
     };
     await executeQuery(query);
 }
 
+export async function getMfaMethodId(name: string): Promise<number | null> {
+    const query = {
+        text: 'SELECT id FROM mfa_methods WHERE name = $1',
+        values: [name],
+    };
+    const result = await executeQuery<{ id: number }>(query);
+    return result[0]?.id ?? null;
+}
+
+// Replace all of a user's recovery codes in one statement so old and new sets never coexist
+export async function replaceRecoveryCodes(user_uid: string, code_hashes: string[]): Promise<void> {
+    const query = {
+        text: `WITH removed AS (DELETE FROM mfa_recovery_codes WHERE user_uid = $1)
+               INSERT INTO mfa_recovery_codes (user_uid, code_hash) SELECT $1, unnest($2::text[])`,
+        values: [user_uid, code_hashes],
+    };
+    await executeQuery(query);
+}
+
+// Atomically mark a recovery code as used. Returns false if it doesn't exist or was already used.
+export async function consumeRecoveryCode(user_uid: string, code_hash: string): Promise<boolean> {
+    const query = {
+        text: 'UPDATE mfa_recovery_codes SET used_at = CURRENT_TIMESTAMP WHERE user_uid = $1 AND code_hash = $2 AND used_at IS NULL RETURNING id',
+        values: [user_uid, code_hash],
+    };
+    const result = await executeQuery<{ id: number }>(query);
+    return result.length > 0;
+}
+
+// Record a TOTP time step as used. Fails if it is not later than the last one accepted,
+// so a code can only be used once even by concurrent requests.
+export async function claimTotpStep(uid: string, step: number): Promise<boolean> {
+    const query = {
+        text: 'UPDATE users SET mfa_last_used_step = $2 WHERE uid = $1 AND (mfa_last_used_step IS NULL OR mfa_last_used_step < $2) RETURNING id',
+        values: [uid, step],
+    };
+    const result = await executeQuery<{ id: number }>(query);
+    return result.length > 0;
+}
+
+export async function countUnusedRecoveryCodes(user_uid: string): Promise<number> {
+    const query = {
+        text: 'SELECT COUNT(*)::int AS count FROM mfa_recovery_codes WHERE user_uid = $1 AND used_at IS NULL',
+        values: [user_uid],
+    };
+    const result = await executeQuery<{ count: number }>(query);
+    return result[0]?.count || 0;
+}
+
 function sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -0,0 +1,63 @@
+import { executeQuery } from '../utils/operations';
+
+export interface RateLimitCounterRow {
+    count: number;
+    resets_at: Date;
+}
+
+// Count a hit in one statement: a key whose window has passed starts over at 1
+export async function incrementRateLimitCounter(key: string, window_ms: number): Promise<RateLimitCounterRow> {
+    const query = {
+        text: `INSERT INTO rate_limit_counters (key, count, resets_at)
+               VALUES ($1, 1, CURRENT_TIMESTAMP + $2 * INTERVAL '1 millisecond')
+               ON CONFLICT (key) DO UPDATE SET
+                   count = CASE WHEN rate_limit_counters.resets_at <= CURRENT_TIMESTAMP
+                                THEN 1 ELSE rate_limit_counters.count + 1 END,
+                   resets_at = CASE WHEN rate_limit_counters.resets_at <= CURRENT_TIMESTAMP
+                                    THEN EXCLUDED.resets_at ELSE rate_limit_counters.resets_at END
+               RETURNING count, resets_at`,
+        values: [key, window_ms],
+    };
+    const result = await executeQuery<RateLimitCounterRow>(query);
+    return result[0];
+}
+
+// Keep a key's current count until `until`, so a client over its limit stays blocked
+export async function extendRateLimitCounter(key: string, until: Date): Promise<void> {
+    const query = {
+        text: 'UPDATE rate_limit_counters SET resets_at = GREATEST(resets_at, $2) WHERE key = $1',
+        values: [key, until],
+    };
+    await executeQuery(query);
+}
+
+export interface RateLimitCounterListing extends RateLimitCounterRow {
+    key: string;
+}
+
+// Open windows under a key prefix with at least min_count hits
+export async function listRateLimitCounters(prefix: string, min_count: number): Promise<RateLimitCounterListing[]> {
+    const query = {
+        text: `SELECT key, count, resets_at FROM rate_limit_counters
+               WHERE starts_with(key, $1) AND count >= $2 AND resets_at > CURRENT_TIMESTAMP
+               ORDER BY resets_at DESC`,
+        values: [prefix, min_count],
+    };
+    return executeQuery<RateLimitCounterListing>(query);
+}
+
+export async function deleteRateLimitCounter(key: string): Promise<void> {
+    const query = {
+        text: 'DELETE FROM rate_limit_counters WHERE key = $1',
+        values: [key],
+    };
+    await executeQuery(query);
+}
+
+export async function pruneRateLimitCounters(): Promise<number> {
+    const query = {
+        text: 'DELETE FROM rate_limit_counters WHERE resets_at <= CURRENT_TIMESTAMP RETURNING key',
+    };
+    const result = await executeQuery<{ key: string }>(query);
+    return result.length;
+}
@@ -0,0 +1,76 @@
+import { executeQuery } from '../utils/operations';
+import { type UserSession, type RefreshTokenHistory } from '../../interfaces/auth/user';
+
+export interface SessionRotation {
+    session_token: string;
+    refresh_token: string;
+    refresh_token_id: string | null;
+    session_token_fingerprint: string;
+    refresh_token_fingerprint: string;
+    session_expires_at: Date;
+    refresh_expires_at: Date;
+}
+
+// Swap in the new tokens only if the session still holds the refresh token being
+// rotated, and remember the replaced token id in the same statement. Returns
+// undefined when another request rotated the session first.
+export async function rotateSessionTokens(session: UserSession, rotation: SessionRotation): Promise<UserSession | undefined> {
+    const query = {
+        text: `WITH rotated AS (
+                   UPDATE user_sessions
+                   SET session_token = $3, refresh_token = $4, refresh_token_id = $5,
+                       session_expires_at = $6, refresh_expires_at = $7,
+                       session_token_fingerprint = $10, refresh_token_fingerprint = $11,
+                       last_accessed = CURRENT_TIMESTAMP
+                   WHERE id = $1 AND refresh_token = $2
+                   RETURNING *
+               ), recorded AS (
+                   INSERT INTO refresh_token_history (token_id, family_id, user_uid, expires_at)
+                   SELECT $8::text, family_id, user_uid, $9 FROM rotated WHERE $8::text IS NOT NULL
+                   ON CONFLICT (token_id) DO NOTHING
+               )
+               SELECT * FROM rotated`,
+        values: [
+            session.id,
+            session.refresh_token,
+            rotation.session_token,
+            rotation.refresh_token,
+            rotation.refresh_token_id,
+            rotation.session_expires_at,
+            rotation.refresh_expires_at,
+            session.refresh_token_id,
+            session.refresh_expires_at,
+            rotation.session_token_fingerprint,
+            rotation.refresh_token_fingerprint
+        ],
+    };
+    const result = await executeQuery<UserSession>(query);
+    return result[0];
+}
+
+export async function readRotatedRefreshToken(token_id: string): Promise<RefreshTokenHistory | undefined> {
+    const query = {
+        text: 'SELECT * FROM refresh_token_history WHERE token_id = $1',
+        values: [token_id],
+    };
+    const result = await executeQuery<RefreshTokenHistory>(query);
+    return result[0];
+}
+
+// End every session in a family. Returns the sessions removed.
+export async function revokeTokenFamily(family_id: string): Promise<UserSession[]> {
+    const query = {
+        text: 'DELETE FROM user_sessions WHERE family_id = $1 RETURNING *',
+        values: [family_id],
+    };
+    return executeQuery<UserSession>(query);
+}
+
+// Replaced tokens can't be replayed once they have expired, so their history can go
+export async function pruneRefreshTokenHistory(): Promise<number> {
+    const query = {
+        text: 'DELETE FROM refresh_token_history WHERE expires_at < CURRENT_TIMESTAMP RETURNING token_id',
+    };
+    const result = await executeQuery<{ token_id: string }>(query);
+    return result.length;
+}
@@ -0,0 +1,28 @@
+import { executeQuery } from '../utils/operations';
+
+export async function insertRevokedToken(jti: string, expires_at: Date): Promise<void> {
+    const query = {
+        text: `INSERT INTO revoked_access_tokens (jti, expires_at) VALUES ($1, $2)
+               ON CONFLICT (jti) DO NOTHING`,
+        values: [jti, expires_at],
+    };
+    await executeQuery(query);
+}
+
+export async function readRevokedToken(jti: string): Promise<{ jti: string; expires_at: Date } | undefined> {
+    const query = {
+        text: 'SELECT jti, expires_at FROM revoked_access_tokens WHERE jti = $1 AND expires_at > CURRENT_TIMESTAMP',
+        values: [jti],
+    };
+    const result = await executeQuery<{ jti: string; expires_at: Date }>(query);
+    return result[0];
+}
+
+// Expired tokens are rejected by signature verification anyway
+export async function pruneRevokedTokens(): Promise<number> {
+    const query = {
+        text: 'DELETE FROM revoked_access_tokens WHERE expires_at <= CURRENT_TIMESTAMP RETURNING jti',
+    };
+    const result = await executeQuery<{ jti: string }>(query);
+    return result.length;
+}
@@ -0,0 +1,12 @@
+import { executeQuery } from '../utils/operations';
+
+// Record that a session was used. Skipped when it was already recorded within the
+// last minute so busy sessions don't turn every request into a write.
+export async function touchSession(session_id: number): Promise<void> {
+    const query = {
+        text: `UPDATE user_sessions SET last_accessed = CURRENT_TIMESTAMP
+               WHERE id = $1 AND last_accessed < CURRENT_TIMESTAMP - INTERVAL '1 minute'`,
+        values: [session_id],
+    };
+    await executeQuery(query);
+}
@@ -0,0 +1,63 @@
+import { executeQuery } from '../utils/operations';
+import { type JwtSigningKeyRecord } from '../../interfaces/auth/signingKey';
+
+// Arbitrary constant used with pg_advisory_xact_lock so only one key rotation runs at a time
+const ROTATION_LOCK_ID = 7241866;
+
+// Block other rotations, on any instance, until the surrounding transaction ends
+export async function lockSigningKeyRotation(): Promise<void> {
+    const query = {
+        text: 'SELECT pg_advisory_xact_lock($1)',
+        values: [ROTATION_LOCK_ID],
+    };
+    await executeQuery(query);
+}
+
+export async function readUnretiredSigningKeys(): Promise<JwtSigningKeyRecord[]> {
+    const query = {
+        text: 'SELECT * FROM jwt_signing_keys WHERE retired_at IS NULL ORDER BY activates_at',
+    };
+    return executeQuery<JwtSigningKeyRecord>(query);
+}
+
+export async function readAllSigningKeys(): Promise<JwtSigningKeyRecord[]> {
+    const query = {
+        text: 'SELECT * FROM jwt_signing_keys ORDER BY activates_at DESC',
+    };
+    return executeQuery<JwtSigningKeyRecord>(query);
+}
+
+export async function insertSigningKey(key: Pick<JwtSigningKeyRecord, 'kid' | 'algorithm' | 'key_material' | 'public_key' | 'activates_at' | 'created_by'>): Promise<JwtSigningKeyRecord> {
+    const query = {
+        text: `INSERT INTO jwt_signing_keys (kid, algorithm, key_material, public_key, activates_at, created_by)
+               VALUES ($1, $2, $3, $4, $5, $6)
+               ON CONFLICT (kid) DO NOTHING
+               RETURNING *`,
+        values: [key.kid, key.algorithm, key.key_material, key.public_key, key.activates_at, key.created_by],
+    };
+    const result = await executeQuery<JwtSigningKeyRecord>(query);
+    return result[0];
+}
+
+// Schedule every key except the new one that doesn't already have a retirement date
+export async function scheduleSigningKeyRetirement(except_kid: string, retires_at: Date): Promise<string[]> {
+    const query = {
+        text: `UPDATE jwt_signing_keys SET retires_at = $2
+               WHERE kid <> $1 AND retired_at IS NULL AND retires_at IS NULL
+               RETURNING kid`,
+        values: [except_kid, retires_at],
+    };
+    const result = await executeQuery<{ kid: string }>(query);
+    return result.map(row => row.kid);
+}
+
+// Retire keys past their retirement date and destroy their private material
+export async function retireExpiredSigningKeys(): Promise<string[]> {
+    const query = {
+        text: `UPDATE jwt_signing_keys SET retired_at = CURRENT_TIMESTAMP, key_material = NULL
+               WHERE retired_at IS NULL AND retires_at <= CURRENT_TIMESTAMP
+               RETURNING kid`,
+    };
+    const result = await executeQuery<{ kid: string }>(query);
+    return result.map(row => row.kid);
+}
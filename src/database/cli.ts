@@ -0,0 +1,123 @@
+import { initDbConnection, getDbPool } from './utils/connect';
+import { migrate, rollback, getMigrationStatus, createMigration } from './utils/migrate';
+import { reencryptAll } from './utils/reencrypt';
+import { backfillTokenFingerprints } from './utils/fingerprints';
+import { verifyAuditChain } from './utils/auditVerify';
+import { getCurrentEncryptionKeyId } from '../utils/crypto';
+import { type AuditEventType } from '../interfaces/audit';
+import { loadEnvironment } from '../config/env';
+
+const USAGE = `Usage: tsx src/database/cli.ts <command>
+
+Commands:
+  migrate [version]   Apply pending migrations (optionally up to a version)
+  rollback [steps]    Roll back the last applied migration(s), default 1
+  status              List migrations and whether they are applied
+  create <name>       Create an empty up/down migration pair
+  reencrypt [batch]   Re-encrypt every encrypted column as AES-256-GCM under ENCRYPTION_KEY_ID (resumable)
+  fingerprints [batch] Fill in session token fingerprints for sessions created before they existed
+  verify-audit [type] Walk the audit log hash chains and report the first broken link in each`;
+
+const parsePositiveInt = (value: string | undefined, label: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 1) {
+    throw new Error(`${label} must be a positive number`);
+  }
+  return parsed;
+};
+
+async function main(): Promise<void> {
+  const [command, argument] = process.argv.slice(2);
+
+  // create only touches the filesystem, no database connection needed
+  if (command === 'create') {
+    if (!argument) throw new Error('A migration name is required');
+    for (const file of createMigration(argument)) {
+      console.log(`Created src/database/migrations/${file}`);
+    }
+    return;
+  }
+
+  if (!['migrate', 'rollback', 'status', 'reencrypt', 'fingerprints', 'verify-audit'].includes(command)) {
+    console.log(USAGE);
+    process.exitCode = command ? 1 : 0;
+    return;
+  }
+
+  // Same secrets as the server; a one-off command doesn't need its leases kept renewed
+  await loadEnvironment({ renew: false });
+  await initDbConnection();
+
+  try {
+    switch (command) {
+      case 'migrate': {
+        const applied = await migrate(parsePositiveInt(argument, 'Version'));
+        console.log(applied.length ? `Applied ${applied.length} migration(s)` : 'No pending migrations');
+        break;
+      }
+      case 'rollback': {
+        const rolledBack = await rollback(parsePositiveInt(argument, 'Steps') ?? 1);
+        console.log(rolledBack.length ? `Rolled back ${rolledBack.length} migration(s)` : 'Nothing to roll back');
+        break;
+      }
+      case 'status': {
+        const statuses = await getMigrationStatus();
+        for (const status of statuses) {
+          const appliedAt = status.applied_at ? new Date(status.applied_at).toISOString() : '';
+          console.log(`${String(status.version).padStart(4, '0')}  ${status.state.padEnd(8)}  ${status.name.padEnd(32)}  ${appliedAt}`);
+        }
+        break;
+      }
+      case 'reencrypt': {
+        console.log(`Re-encrypting under key "${getCurrentEncryptionKeyId()}"..`);
+        const results = await reencryptAll({
+          batchSize: parsePositiveInt(argument, 'Batch size'),
+          onProgress: progress => {
+            const percent = progress.total ? Math.floor((progress.processed / progress.total) * 100) : 100;
+            console.log(`${progress.table.padEnd(20)} ${String(percent).padStart(3)}%  ${progress.processed}/${progress.total} rows  ${progress.rotated} rotated  ${progress.skipped} skipped`);
+          }
+        });
+        const skipped = results.reduce((sum, result) => sum + result.skipped, 0);
+        console.log(skipped
+          ? `Done. ${skipped} value(s) could not be re-encrypted and still use an older key - inspect them before retiring it.`
+          : 'Done. Every encrypted value now uses the current key.');
+        break;
+      }
+      case 'fingerprints': {
+        const result = await backfillTokenFingerprints({
+          batchSize: parsePositiveInt(argument, 'Batch size'),
+          onProgress: progress => {
+            console.log(`${progress.processed}/${progress.total} sessions  ${progress.filled} filled  ${progress.skipped} skipped`);
+          }
+        });
+        console.log(result.skipped
+          ? `Done. ${result.skipped} session(s) could not be fingerprinted; they are still found by decrypting until they expire.`
+          : 'Done. Every session has token fingerprints; lookups no longer fall back to decrypting.');
+        break;
+      }
+      case 'verify-audit': {
+        if (argument && !['auth', 'error', 'security', 'audit'].includes(argument)) {
+          throw new Error('Type must be one of auth, error, security, audit');
+        }
+        const result = await verifyAuditChain({ stream: argument as AuditEventType | undefined });
+        for (const stream of result.streams) {
+          const status = stream.first_break
+            ? `BROKEN at event ${stream.first_break.event_id}: ${stream.first_break.reason}`
+            : 'ok';
+          console.log(`${stream.stream.padEnd(10)} ${String(stream.events).padStart(8)} events  ${stream.unchained} unchained  ${stream.checkpoints} checkpoints  ${status}`);
+        }
+        console.log(result.valid ? 'Done. Every audit chain is intact.' : 'Done. The audit log has been tampered with.');
+        process.exitCode = result.valid ? 0 : 2;
+        break;
+      }
+    }
+  } finally {
+    await (await getDbPool()).end();
+  }
+}
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
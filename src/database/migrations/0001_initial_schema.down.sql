@@ -0,0 +1,6 @@
+DROP TABLE IF EXISTS user_login_history;
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS users;
+DROP TABLE IF EXISTS mfa_methods;
+DROP TABLE IF EXISTS roles;
+DROP TABLE IF EXISTS system;
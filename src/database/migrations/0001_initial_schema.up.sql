@@ -1,3 +1,6 @@
+-- Baseline schema (formerly database/auth/schemas/master.sql).
+-- Written with IF NOT EXISTS so databases created by the old schema sync adopt it cleanly.
+
 CREATE TABLE IF NOT EXISTS system (
   version TEXT NOT NULL,
   api_version TEXT NOT NULL
@@ -49,6 +52,10 @@ CREATE TABLE IF NOT EXISTS users (
   FOREIGN KEY (mfa_method_id) REFERENCES mfa_methods(id) ON DELETE RESTRICT
 );
 
+-- Older databases were created before the email verification columns existed
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_token TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_expires TIMESTAMPTZ;
+
 CREATE TABLE IF NOT EXISTS user_sessions (
   id SERIAL PRIMARY KEY,
   user_uid TEXT NOT NULL,
@@ -70,17 +77,17 @@ CREATE TABLE IF NOT EXISTS user_login_history (
   FOREIGN KEY (user_uid) REFERENCES users(uid) ON DELETE CASCADE
 );
 
-CREATE UNIQUE INDEX idx_system_version ON system(version);
-CREATE INDEX idx_users_username_hash ON users(username_hash);
-CREATE INDEX idx_users_email_hash ON users(email_hash);
-CREATE INDEX idx_users_role_id ON users(role_id);
-CREATE INDEX idx_users_password_reset_token ON users(password_reset_token) WHERE password_reset_token IS NOT NULL;
-CREATE INDEX idx_users_email_verification_token ON users(email_verification_token) WHERE email_verification_token IS NOT NULL;
-CREATE INDEX idx_user_sessions_user_uid ON user_sessions(user_uid);
-CREATE INDEX idx_user_sessions_session_expires_at ON user_sessions(session_expires_at);
-CREATE INDEX idx_user_sessions_refresh_expires_at ON user_sessions(refresh_expires_at);
-CREATE INDEX idx_user_login_history_user_uid ON user_login_history(user_uid);
-CREATE INDEX idx_user_login_history_login_at ON user_login_history(login_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_system_version ON system(version);
+CREATE INDEX IF NOT EXISTS idx_users_username_hash ON users(username_hash);
+CREATE INDEX IF NOT EXISTS idx_users_email_hash ON users(email_hash);
+CREATE INDEX IF NOT EXISTS idx_users_role_id ON users(role_id);
+CREATE INDEX IF NOT EXISTS idx_users_password_reset_token ON users(password_reset_token) WHERE password_reset_token IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_users_email_verification_token ON users(email_verification_token) WHERE email_verification_token IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_uid ON user_sessions(user_uid);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_session_expires_at ON user_sessions(session_expires_at);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_refresh_expires_at ON user_sessions(refresh_expires_at);
+CREATE INDEX IF NOT EXISTS idx_user_login_history_user_uid ON user_login_history(user_uid);
+CREATE INDEX IF NOT EXISTS idx_user_login_history_login_at ON user_login_history(login_at);
 
 INSERT INTO roles (name, description) VALUES
   ('admin', 'Administrator with full system access and control'),
@@ -91,7 +98,3 @@ ON CONFLICT (name) DO NOTHING;
 INSERT INTO mfa_methods (name, description) VALUES
   ('none', 'No multi-factor authentication enabled')
 ON CONFLICT (name) DO NOTHING;
-
-ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_token TEXT;
-ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_expires TIMESTAMPTZ;
-CREATE INDEX IF NOT EXISTS idx_users_email_verification_token ON users(email_verification_token) WHERE email_verification_token IS NOT NULL;
@@ -0,0 +1,8 @@
+-- Anyone enrolled in TOTP falls back to password-only login
+UPDATE users
+SET mfa_enabled = FALSE,
+    mfa_secret = NULL,
+    mfa_method_id = (SELECT id FROM mfa_methods WHERE name = 'none')
+WHERE mfa_method_id = (SELECT id FROM mfa_methods WHERE name = 'totp');
+
+DELETE FROM mfa_methods WHERE name = 'totp';
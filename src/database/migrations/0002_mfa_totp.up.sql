@@ -0,0 +1,3 @@
+INSERT INTO mfa_methods (name, description) VALUES
+  ('totp', 'Time-based one-time password (RFC 6238) authenticator app')
+ON CONFLICT (name) DO NOTHING;
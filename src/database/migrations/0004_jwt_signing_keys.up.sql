@@ -0,0 +1,17 @@
+-- Key ring for JWT signing. The newest key whose activates_at has passed signs new
+-- tokens; every key that isn't retired is accepted for verification and published
+-- in the JWKS. Old keys are retired once every token they signed has expired.
+CREATE TABLE IF NOT EXISTS jwt_signing_keys (
+  id SERIAL PRIMARY KEY,
+  kid TEXT NOT NULL UNIQUE,
+  algorithm VARCHAR(10) NOT NULL,
+  key_material TEXT,
+  public_key TEXT,
+  activates_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  retires_at TIMESTAMPTZ,
+  retired_at TIMESTAMPTZ,
+  created_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jwt_signing_keys_unretired ON jwt_signing_keys(activates_at) WHERE retired_at IS NULL;
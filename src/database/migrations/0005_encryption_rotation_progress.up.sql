@@ -0,0 +1,12 @@
+-- Checkpoints for the re-encryption job so an interrupted run resumes where it stopped
+CREATE TABLE IF NOT EXISTS encryption_rotation_progress (
+  target_key_id TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  last_id INTEGER NOT NULL DEFAULT 0,
+  rotated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMPTZ,
+  PRIMARY KEY (target_key_id, table_name)
+);
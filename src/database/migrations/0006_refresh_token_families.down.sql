@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS refresh_token_history;
+DROP INDEX IF EXISTS idx_user_sessions_family_id;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS refresh_token_id;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS family_id;
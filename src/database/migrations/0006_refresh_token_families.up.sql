@@ -0,0 +1,24 @@
+-- Refresh token families. A session is one family: every rotation records the id
+-- (jti) of the token it replaced, so presenting a replaced token again is detected
+-- as reuse and the whole family is revoked.
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS family_id TEXT;
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS refresh_token_id TEXT;
+
+UPDATE user_sessions SET family_id = md5(random()::text || id::text) WHERE family_id IS NULL;
+ALTER TABLE user_sessions ALTER COLUMN family_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_family_id ON user_sessions(family_id);
+
+-- Kept after the session is gone so replays of a revoked family still raise an alarm
+-- until the replaced token would have expired anyway
+CREATE TABLE IF NOT EXISTS refresh_token_history (
+  token_id TEXT PRIMARY KEY,
+  family_id TEXT NOT NULL,
+  user_uid TEXT NOT NULL,
+  rotated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMPTZ NOT NULL,
+  FOREIGN KEY (user_uid) REFERENCES users(uid) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_token_history_family_id ON refresh_token_history(family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_token_history_expires_at ON refresh_token_history(expires_at);
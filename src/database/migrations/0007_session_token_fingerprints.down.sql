@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS idx_user_sessions_refresh_token_fingerprint;
+DROP INDEX IF EXISTS idx_user_sessions_session_token_fingerprint;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS refresh_token_fingerprint;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS session_token_fingerprint;
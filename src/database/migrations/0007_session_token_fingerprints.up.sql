@@ -0,0 +1,8 @@
+-- Keyed hashes of the session and refresh tokens so a session can be found by its
+-- token with an index lookup instead of decrypting every candidate row. Existing
+-- rows are filled in by `npm run db:fingerprints`.
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS session_token_fingerprint TEXT;
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS refresh_token_fingerprint TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_sessions_session_token_fingerprint ON user_sessions(session_token_fingerprint);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_sessions_refresh_token_fingerprint ON user_sessions(refresh_token_fingerprint);
@@ -0,0 +1,7 @@
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS last_accessed;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS location;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS device_type;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS os;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS browser;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS user_agent;
+ALTER TABLE user_sessions DROP COLUMN IF EXISTS ip_address;
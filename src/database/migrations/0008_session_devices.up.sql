@@ -0,0 +1,14 @@
+-- Device metadata per session so users can recognise their sessions. ip_address is
+-- encrypted; browser / os / device_type are parsed from the user agent at login and
+-- location is a coarse label from the offline GeoIP database, if one is configured.
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS ip_address TEXT;
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS browser VARCHAR(64);
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS os VARCHAR(64);
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS device_type VARCHAR(16);
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS location VARCHAR(128);
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS last_accessed TIMESTAMPTZ;
+
+UPDATE user_sessions SET last_accessed = created_at WHERE last_accessed IS NULL;
+ALTER TABLE user_sessions ALTER COLUMN last_accessed SET DEFAULT CURRENT_TIMESTAMP;
+ALTER TABLE user_sessions ALTER COLUMN last_accessed SET NOT NULL;
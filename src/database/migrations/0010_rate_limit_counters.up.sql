@@ -0,0 +1,10 @@
+-- Fixed-window rate limit counters shared by every API instance. A key is a policy
+-- name plus the client it limits (usually an IP); rows past resets_at are stale and
+-- get replaced on the next hit or pruned.
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  resets_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_resets_at ON rate_limit_counters(resets_at);
@@ -0,0 +1,38 @@
+-- Append-only security audit log. actor_uid is who acted, target_uid who it was
+-- done to; there are no foreign keys so events outlive deleted accounts. IPs are
+-- stored in the clear: rows can't be rewritten, so they couldn't be re-encrypted
+-- when the field encryption key rotates.
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  type VARCHAR(16) NOT NULL,
+  severity VARCHAR(16) NOT NULL,
+  message TEXT NOT NULL,
+  actor_uid TEXT,
+  target_uid TEXT,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  details JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_occurred_at ON audit_events(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_uid ON audit_events(actor_uid, id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_target_uid ON audit_events(target_uid, id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_type ON audit_events(type, id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_severity ON audit_events(severity, id);
+
+CREATE OR REPLACE FUNCTION reject_audit_event_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
+
+DROP TRIGGER IF EXISTS audit_events_no_truncate ON audit_events;
+CREATE TRIGGER audit_events_no_truncate
+  BEFORE TRUNCATE ON audit_events
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_audit_event_change();
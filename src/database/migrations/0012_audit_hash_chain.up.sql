@@ -0,0 +1,32 @@
+-- Tamper evidence for audit_events. Each event type is its own chain: hash covers
+-- the event and prev_hash, the hash of the previous event of that type (64 zeros
+-- for the first). Events written before this migration have no hashes and sit
+-- outside the chains. The unique index stops two writers forking a chain.
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS prev_hash CHAR(64);
+ALTER TABLE audit_events ADD COLUMN IF NOT EXISTS hash CHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_events_chain ON audit_events(type, prev_hash) WHERE prev_hash IS NOT NULL;
+
+-- Signed chain heads. Rewriting the chain after a checkpoint means forging its
+-- signature, which needs a key that never touches the database.
+CREATE TABLE IF NOT EXISTS audit_checkpoints (
+  id SERIAL PRIMARY KEY,
+  stream VARCHAR(16) NOT NULL,
+  event_id BIGINT NOT NULL,
+  hash CHAR(64) NOT NULL,
+  signature CHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (stream, event_id)
+);
+
+-- Shared with audit_events, so name whichever table was touched
+CREATE OR REPLACE FUNCTION reject_audit_event_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_checkpoints_append_only ON audit_checkpoints;
+CREATE TRIGGER audit_checkpoints_append_only
+  BEFORE UPDATE OR DELETE ON audit_checkpoints
+  FOR EACH ROW EXECUTE FUNCTION reject_audit_event_change();
@@ -0,0 +1,3 @@
+-- The last TOTP time step accepted for each user. A code is only accepted for a later
+-- step, so one that was seen once can't be replayed within the drift window.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_last_used_step BIGINT;
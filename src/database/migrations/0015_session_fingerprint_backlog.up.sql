@@ -0,0 +1,5 @@
+-- Live sessions still missing token fingerprints. Session lookups check this is empty
+-- before falling back to decrypting tokens, so the check has to stay cheap; the index
+-- also serves the `npm run db:fingerprints` backfill.
+CREATE INDEX IF NOT EXISTS idx_user_sessions_missing_fingerprint ON user_sessions(refresh_expires_at)
+  WHERE session_token_fingerprint IS NULL OR refresh_token_fingerprint IS NULL;
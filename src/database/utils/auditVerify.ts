@@ -0,0 +1,139 @@
+import { timingSafeEqual } from 'crypto';
+import { readAuditStreams, readAuditEventsAfter, readAuditCheckpoints } from '../audit/audit-operations';
+import { AUDIT_GENESIS_HASH, hashAuditEvent, checkpointPayload } from '../../utils/auditChain';
+import { checkpointSignature } from '../../utils/crypto';
+import { type AuditEventRecord, type AuditEventType, type AuditCheckpoint } from '../../interfaces/audit';
+
+export interface AuditChainBreak {
+  event_id: string;
+  reason: string;
+}
+
+export interface AuditStreamVerification {
+  stream: AuditEventType;
+  events: number;       // chained events checked
+  unchained: number;    // events written before chaining was enabled
+  checkpoints: number;
+  first_break: AuditChainBreak | null;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  streams: AuditStreamVerification[];
+}
+
+export interface AuditVerifyOptions {
+  stream?: AuditEventType;
+  batchSize?: number;
+  onProgress?: (progress: AuditStreamVerification) => void;
+}
+
+const signatureMatches = (checkpoint: AuditCheckpoint): boolean => {
+  const expected = Buffer.from(checkpointSignature(checkpointPayload(checkpoint.stream, String(checkpoint.event_id), checkpoint.hash)));
+  const actual = Buffer.from(checkpoint.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// Checks one stream's events, fed oldest first. Stops at the first broken link,
+// since everything after it is suspect anyway.
+export class AuditChainVerifier {
+  readonly result: AuditStreamVerification;
+  private readonly pending = new Map<string, AuditCheckpoint>();
+  private prevHash: string | null = null;
+  private forgedCheckpoint: string | null = null;  // earliest checkpoint with a bad signature
+
+  constructor(stream: AuditEventType, checkpoints: AuditCheckpoint[]) {
+    this.result = { stream, events: 0, unchained: 0, checkpoints: checkpoints.length, first_break: null };
+
+    for (const checkpoint of checkpoints) {
+      if (!signatureMatches(checkpoint)) {
+        this.forgedCheckpoint ??= String(checkpoint.event_id);
+        continue;
+      }
+      this.pending.set(String(checkpoint.event_id), checkpoint);
+    }
+  }
+
+  get broken(): boolean {
+    return this.result.first_break !== null;
+  }
+
+  check(event: AuditEventRecord): void {
+    if (this.broken) return;
+    const eventId = String(event.id);
+
+    if (this.forgedCheckpoint && BigInt(eventId) >= BigInt(this.forgedCheckpoint)) {
+      return this.fail(this.forgedCheckpoint, 'Checkpoint signature is invalid');
+    }
+
+    if (!event.hash || !event.prev_hash) {
+      if (this.prevHash === null) {
+        this.result.unchained++;
+        return;
+      }
+      return this.fail(eventId, 'Event has no hash');
+    }
+
+    const expectedPrev = this.prevHash ?? AUDIT_GENESIS_HASH;
+    if (event.prev_hash !== expectedPrev) {
+      return this.fail(eventId, 'Previous hash does not match; an earlier event is missing or was reordered');
+    }
+    if (hashAuditEvent(event.prev_hash, event) !== event.hash) {
+      return this.fail(eventId, 'Hash does not match the event; it was modified');
+    }
+
+    const checkpoint = this.pending.get(eventId);
+    if (checkpoint) {
+      if (checkpoint.hash !== event.hash) {
+        return this.fail(eventId, 'Hash does not match its signed checkpoint');
+      }
+      this.pending.delete(eventId);
+    }
+
+    this.prevHash = event.hash;
+    this.result.events++;
+  }
+
+  // Call after the last event. Any checkpoint not reached means events it covered are gone.
+  finish(): AuditStreamVerification {
+    if (this.forgedCheckpoint) {
+      this.fail(this.forgedCheckpoint, 'Checkpoint signature is invalid');
+    }
+    if (!this.broken && this.pending.size > 0) {
+      const [missing] = Array.from(this.pending.keys()).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+      this.fail(missing, 'Checkpointed event is missing; the chain was truncated');
+    }
+    return this.result;
+  }
+
+  private fail(eventId: string, reason: string): void {
+    this.result.first_break ??= { event_id: eventId, reason };
+  }
+}
+
+// Walk every chain (or one) from the start and report the first broken link in each
+export async function verifyAuditChain(options: AuditVerifyOptions = {}): Promise<AuditVerification> {
+  const batchSize = options.batchSize ?? 1000;
+  const streams = options.stream ? [options.stream] : await readAuditStreams();
+  const results: AuditStreamVerification[] = [];
+
+  for (const stream of streams) {
+    const verifier = new AuditChainVerifier(stream, await readAuditCheckpoints(stream));
+    let lastId = '0';
+
+    while (!verifier.broken) {
+      const events = await readAuditEventsAfter(stream, lastId, batchSize);
+      for (const event of events) {
+        verifier.check(event);
+        lastId = String(event.id);
+      }
+
+      options.onProgress?.({ ...verifier.result });
+      if (events.length < batchSize) break;
+    }
+
+    results.push(verifier.finish());
+  }
+
+  return { valid: results.every(result => result.first_break === null), streams: results };
+}
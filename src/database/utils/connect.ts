@@ -1,6 +1,8 @@
 
 import { Pool, Client } from 'pg';
 import { DB_HOST, DB_PORT, DB_USERNAME, DB_PASSWORD, DATABASE } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { trackBackgroundTask } from '../../utils/lifecycle';
 
 interface PostgresConfig {
     host: string;
@@ -14,21 +16,30 @@ interface PostgresConfig {
 // Cached Pool instance
 let cachedPool: Pool | null = null;
 
-const config: PostgresConfig = {
+// Read on every call: credentials from Vault can change while the process runs
+const connectionConfig = (): PostgresConfig => ({
     host: DB_HOST || 'localhost',
     port: parseInt(DB_PORT || '5432', 10),
     user: DB_USERNAME || 'postgres',
     password: DB_PASSWORD || 'hofflabs_dev',
     database: DATABASE || 'Hofflabs',
-  };
+  });
+
+function createPool(config: PostgresConfig): Pool {
+  const pool = new Pool(config);
+  pool.on('connect', () => logger.debug(`Connection made to database: ${config.database}`));
+  pool.on('error', (err) => logger.error({ err }, 'Pool error'));
+  return pool;
+}
 
 // Initialize the pool
 async function initializePool(): Promise<Pool> {
   if (cachedPool) {
-    console.log('Using cached PostgreSQL connection pool');
+    logger.debug('Using cached PostgreSQL connection pool');
     return cachedPool;
   }
 
+  const config = connectionConfig();
   const tempClient = new Client({
     host: config.host,
     port: config.port,
@@ -44,30 +55,20 @@ async function initializePool(): Promise<Pool> {
       [config.database]
     );
     if (res.rowCount === 0) {
-      console.log(`Creating database ${config.database}...`);
+      logger.info({ database: config.database }, 'Creating database');
       await tempClient.query(`CREATE DATABASE "${config.database}"`);
-      console.log(`Database ${config.database} created..`);
+      logger.info({ database: config.database }, 'Database created');
     } else {
-      console.log('\x1b[32m%s\x1b[0m', `${config.database} database exists..`);
+      logger.info(`${config.database} database exists..`);
     }
   } catch (err) {
-    console.error('Error checking/creating database:', err instanceof Error ? err.message : err);
+    logger.error({ err }, 'Error checking/creating database');
     throw err;
   } finally {
     await tempClient.end();
   }
 
-  cachedPool = new Pool({
-    host: config.host,
-    port: config.port,
-    user: config.user,
-    password: config.password,
-    database: config.database,
-  });
-
-  cachedPool.on('connect', () => console.log('\x1b[34m%s\x1b[0m', `Connection made to database: ${config.database}`));
-  cachedPool.on('error', (err) => console.error('Pool error:', err.message));
-
+  cachedPool = createPool(config);
   return cachedPool;
 }
 
@@ -83,3 +84,36 @@ export async function getDbPool(): Promise<Pool> {
 export async function initDbConnection(): Promise<void> {
   await initializePool();
 }
+
+// Switch to a pool built from the current settings, e.g. after Vault issued new credentials.
+// The new credentials are tried before anything is swapped; queries and transactions already
+// running finish on the old pool, which closes once its clients are released.
+export async function replaceDbPool(): Promise<void> {
+  if (!cachedPool) return;
+
+  const pool = createPool(connectionConfig());
+  try {
+    await pool.query('SELECT 1');
+  } catch (err) {
+    await pool.end();
+    throw err;
+  }
+
+  const previous = cachedPool;
+  cachedPool = pool;
+  trackBackgroundTask(previous.end().catch(err => {
+    logger.error({ err }, 'Failed to close replaced database pool');
+  }));
+  logger.info('Database pool replaced');
+}
+
+// Wait for checked-out clients to be released, then close every connection. Part of shutdown,
+// after the server has stopped taking requests; getDbPool throws afterwards.
+export async function closeDbPool(): Promise<void> {
+  if (!cachedPool) return;
+
+  const pool = cachedPool;
+  cachedPool = null;
+  await pool.end();
+  logger.info('Database pool closed');
+}
@@ -0,0 +1,84 @@
+import { executeQuery } from './operations';
+import { decrypt, fieldContext, fingerprint } from '../../utils/crypto';
+
+export interface FingerprintBackfillProgress {
+  processed: number;  // sessions examined so far
+  total: number;      // sessions missing a fingerprint when the run started
+  filled: number;     // sessions given fingerprints
+  skipped: number;    // sessions whose tokens could not be decrypted or changed underneath us
+}
+
+export interface FingerprintBackfillOptions {
+  batchSize?: number;
+  onProgress?: (progress: FingerprintBackfillProgress) => void;
+}
+
+interface UnfingerprintedSession {
+  id: number;
+  user_uid: string;
+  session_token: string;
+  refresh_token: string;
+}
+
+const MISSING_FINGERPRINT = 'session_token_fingerprint IS NULL OR refresh_token_fingerprint IS NULL';
+
+// Whether any live session still lacks fingerprints and so can only be found by decrypting
+// its tokens. False once the backfill has run and the sessions it skipped have expired.
+export async function hasUnfingerprintedSessions(): Promise<boolean> {
+  const [{ remaining }] = await executeQuery<{ remaining: boolean }>({
+    text: `SELECT EXISTS (
+             SELECT 1 FROM user_sessions WHERE (${MISSING_FINGERPRINT}) AND refresh_expires_at > CURRENT_TIMESTAMP
+           ) AS remaining`
+  });
+  return remaining;
+}
+
+// Fill in token fingerprints for sessions created before they existed. Safe to
+// interrupt and re-run: filled rows drop out of the next run by themselves.
+export async function backfillTokenFingerprints(options: FingerprintBackfillOptions = {}): Promise<FingerprintBackfillProgress> {
+  const batchSize = options.batchSize ?? 500;
+  const [{ total }] = await executeQuery<{ total: number }>({
+    text: `SELECT COUNT(*)::int AS total FROM user_sessions WHERE ${MISSING_FINGERPRINT}`
+  });
+
+  const progress: FingerprintBackfillProgress = { processed: 0, total, filled: 0, skipped: 0 };
+  let lastId = 0;
+
+  while (true) {
+    const rows = await executeQuery<UnfingerprintedSession>({
+      text: `SELECT id, user_uid, session_token, refresh_token FROM user_sessions
+             WHERE id > $1 AND (${MISSING_FINGERPRINT}) ORDER BY id LIMIT $2`,
+      values: [lastId, batchSize]
+    });
+
+    for (const row of rows) {
+      lastId = row.id;
+      progress.processed++;
+
+      let sessionToken: string;
+      let refreshToken: string;
+      try {
+        sessionToken = await decrypt(row.session_token, fieldContext('user_sessions', 'session_token', row.id, row.user_uid));
+        refreshToken = await decrypt(row.refresh_token, fieldContext('user_sessions', 'refresh_token', row.id, row.user_uid));
+      } catch {
+        progress.skipped++;
+        continue;
+      }
+
+      // Only write if the tokens weren't rotated meanwhile; a rotation sets fingerprints itself
+      const updated = await executeQuery<{ id: number }>({
+        text: `UPDATE user_sessions SET session_token_fingerprint = $2, refresh_token_fingerprint = $3
+               WHERE id = $1 AND session_token = $4 AND refresh_token = $5 RETURNING id`,
+        values: [row.id, fingerprint(sessionToken), fingerprint(refreshToken), row.session_token, row.refresh_token]
+      });
+
+      if (updated.length > 0) progress.filled++;
+      else progress.skipped++;
+    }
+
+    options.onProgress?.({ ...progress, processed: Math.min(progress.processed, progress.total) });
+    if (rows.length < batchSize) break;
+  }
+
+  return progress;
+}
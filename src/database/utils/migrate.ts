@@ -0,0 +1,326 @@
+import { type PoolClient } from 'pg';
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { getDbPool } from './connect';
+import { logger } from '../../utils/logger';
+
+// Migrations live in src/database/migrations as pairs of files:
+//   0004_add_widgets.up.sql / 0004_add_widgets.down.sql
+// The numeric prefix is the version; versions are applied in ascending order.
+const MIGRATIONS_DIR = path.join(process.cwd(), '/src/database/migrations');
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Statements such as CREATE INDEX CONCURRENTLY cannot run inside a transaction.
+// Migrations that start with this directive run without one and are marked dirty
+// until they finish, so a crash half way through is detected on the next boot.
+const NO_TRANSACTION_DIRECTIVE = '-- migrate:no-transaction';
+
+// Arbitrary constant used with pg_advisory_lock so only one instance migrates at a time
+const MIGRATION_LOCK_ID = 7241865;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+  transactional: boolean;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+  execution_ms: number;
+  dirty: boolean;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'dirty' | 'drifted' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  applied_at: Date | null;
+}
+
+const checksum = (sql: string): string => createHash('sha256').update(sql).digest('hex');
+
+export function loadMigrations(directory: string = MIGRATIONS_DIR): Migration[] {
+  const files = fs.readdirSync(directory);
+  const byVersion = new Map<number, { name: string; up?: string; down?: string }>();
+
+  for (const file of files) {
+    const match = file.match(MIGRATION_FILE_PATTERN);
+    if (!match) continue;
+
+    const version = parseInt(match[1], 10);
+    const name = match[2];
+    const direction = match[3] as 'up' | 'down';
+    const existing = byVersion.get(version);
+
+    if (existing && existing.name !== name) {
+      throw new Error(`Duplicate migration version ${version}: ${existing.name} and ${name}`);
+    }
+
+    const entry = existing || { name };
+    entry[direction] = fs.readFileSync(path.join(directory, file), 'utf-8');
+    byVersion.set(version, entry);
+  }
+
+  return Array.from(byVersion.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([version, entry]) => {
+      if (!entry.up) {
+        throw new Error(`Migration ${version}_${entry.name} has no .up.sql file`);
+      }
+      return {
+        version,
+        name: entry.name,
+        up: entry.up,
+        down: entry.down ?? null,
+        checksum: checksum(entry.up),
+        transactional: !entry.up.trimStart().startsWith(NO_TRANSACTION_DIRECTIVE)
+      };
+    });
+}
+
+async function ensureMigrationsTable(client: PoolClient): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      execution_ms INTEGER NOT NULL DEFAULT 0,
+      dirty BOOLEAN NOT NULL DEFAULT FALSE
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>('SELECT * FROM schema_migrations ORDER BY version');
+  return result.rows;
+}
+
+// Run a callback holding a dedicated client and the global migration lock
+async function withMigrationLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  const pool = await getDbPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+    return await callback(client);
+  } finally {
+    try {
+      await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+function computeStatus(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus[] {
+  const appliedByVersion = new Map(applied.map(row => [row.version, row]));
+  const statuses: MigrationStatus[] = [];
+
+  for (const migration of migrations) {
+    const row = appliedByVersion.get(migration.version);
+    let state: MigrationState = 'pending';
+
+    if (row) {
+      if (row.dirty) state = 'dirty';
+      else if (row.checksum !== migration.checksum) state = 'drifted';
+      else state = 'applied';
+      appliedByVersion.delete(migration.version);
+    }
+
+    statuses.push({
+      version: migration.version,
+      name: migration.name,
+      state,
+      applied_at: row?.applied_at ?? null
+    });
+  }
+
+  // Applied in the database but the file no longer exists in this build
+  for (const row of appliedByVersion.values()) {
+    statuses.push({
+      version: row.version,
+      name: row.name,
+      state: row.dirty ? 'dirty' : 'missing',
+      applied_at: row.applied_at
+    });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+function describeProblems(statuses: MigrationStatus[]): string[] {
+  return statuses
+    .filter(status => status.state === 'dirty' || status.state === 'drifted' || status.state === 'missing')
+    .map(status => {
+      const label = `${status.version}_${status.name}`;
+      switch (status.state) {
+        case 'dirty':
+          return `${label} is dirty (a previous run failed part way through; fix the schema by hand and clear the dirty flag)`;
+        case 'drifted':
+          return `${label} was modified after it was applied (checksum mismatch)`;
+        default:
+          return `${label} is applied in the database but its file is missing`;
+      }
+    });
+}
+
+async function applyMigration(client: PoolClient, migration: Migration): Promise<void> {
+  const startTime = Date.now();
+
+  if (migration.transactional) {
+    try {
+      await client.query('BEGIN');
+      await client.query(migration.up);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+        [migration.version, migration.name, migration.checksum, Date.now() - startTime]
+      );
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    }
+    return;
+  }
+
+  await client.query(
+    'INSERT INTO schema_migrations (version, name, checksum, dirty) VALUES ($1, $2, $3, TRUE)',
+    [migration.version, migration.name, migration.checksum]
+  );
+  await client.query(migration.up);
+  await client.query(
+    'UPDATE schema_migrations SET dirty = FALSE, execution_ms = $2 WHERE version = $1',
+    [migration.version, Date.now() - startTime]
+  );
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations();
+  return withMigrationLock(async client => computeStatus(migrations, await getAppliedMigrations(client)));
+}
+
+// Same comparison without the migration lock, so health checks never queue behind a running migration
+export async function readSchemaStatus(migrations: Migration[] = loadMigrations()): Promise<MigrationStatus[]> {
+  const pool = await getDbPool();
+  const result = await pool.query<AppliedMigration>('SELECT * FROM schema_migrations ORDER BY version');
+  return computeStatus(migrations, result.rows);
+}
+
+// Throws if the database can't safely be used by this build
+export async function verifySchema(options: { allowPending?: boolean } = {}): Promise<MigrationStatus[]> {
+  const statuses = await getMigrationStatus();
+  const problems = describeProblems(statuses);
+
+  if (!options.allowPending) {
+    const pending = statuses.filter(status => status.state === 'pending');
+    if (pending.length > 0) {
+      problems.push(`${pending.length} pending migration(s): ${pending.map(status => `${status.version}_${status.name}`).join(', ')}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Database schema check failed:\n  - ${problems.join('\n  - ')}`);
+  }
+
+  return statuses;
+}
+
+// Apply every pending migration (or up to and including targetVersion)
+export async function migrate(targetVersion?: number): Promise<Migration[]> {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async client => {
+    const statuses = computeStatus(migrations, await getAppliedMigrations(client));
+    const problems = describeProblems(statuses);
+    if (problems.length > 0) {
+      throw new Error(`Refusing to migrate:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    const appliedVersions = new Set(statuses.filter(status => status.state === 'applied').map(status => status.version));
+    const pending = migrations.filter(migration =>
+      !appliedVersions.has(migration.version) &&
+      (targetVersion === undefined || migration.version <= targetVersion)
+    );
+
+    for (const migration of pending) {
+      try {
+        await applyMigration(client, migration);
+        logger.info({ version: migration.version, name: migration.name }, 'Migration applied');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`Migration ${migration.version}_${migration.name} failed: ${message}`);
+      }
+    }
+
+    return pending;
+  });
+}
+
+// Roll back the most recently applied migrations, newest first
+export async function rollback(steps: number = 1): Promise<Migration[]> {
+  const migrations = loadMigrations();
+  const byVersion = new Map(migrations.map(migration => [migration.version, migration]));
+
+  return withMigrationLock(async client => {
+    const applied = await getAppliedMigrations(client);
+    const problems = describeProblems(computeStatus(migrations, applied));
+    if (problems.length > 0) {
+      throw new Error(`Refusing to roll back:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    const toRollBack = applied.slice(-steps).reverse();
+    const rolledBack: Migration[] = [];
+
+    for (const row of toRollBack) {
+      const migration = byVersion.get(row.version)!;
+      if (!migration.down) {
+        throw new Error(`Migration ${migration.version}_${migration.name} has no .down.sql file and cannot be rolled back`);
+      }
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`Rollback of ${migration.version}_${migration.name} failed: ${message}`);
+      }
+
+      logger.info({ version: migration.version, name: migration.name }, 'Migration rolled back');
+      rolledBack.push(migration);
+    }
+
+    return rolledBack;
+  });
+}
+
+// Scaffold an empty up/down pair with the next version number
+export function createMigration(name: string, directory: string = MIGRATIONS_DIR): string[] {
+  if (!/^[a-z0-9_]+$/.test(name)) {
+    throw new Error('Migration names may only contain lowercase letters, numbers and underscores');
+  }
+
+  const migrations = loadMigrations(directory);
+  const nextVersion = (migrations[migrations.length - 1]?.version ?? 0) + 1;
+  const prefix = `${String(nextVersion).padStart(4, '0')}_${name}`;
+  const files = [`${prefix}.up.sql`, `${prefix}.down.sql`];
+
+  for (const file of files) {
+    fs.writeFileSync(path.join(directory, file), '');
+  }
+
+  return files;
+}
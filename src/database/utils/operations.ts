@@ -1,7 +1,11 @@
-import { Pool, type QueryResult } from 'pg';
+import { Pool, type PoolClient, type QueryResult } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
 import { getDbPool } from './connect';
 import { type User } from '../../interfaces/auth/user';
-import { encrypt, decrypt } from '../../utils/crypto';
+import { encrypt, decrypt, fieldContext, fingerprint } from '../../utils/crypto';
+import { getLogger } from '../../utils/logger';
+import { dbQueryDuration, sqlOperation } from '../../utils/metrics/instruments';
+import { withQuerySpan } from '../../utils/tracing';
 
 interface QueryResultRow {
   [key: string]: any;
@@ -12,29 +16,72 @@ interface QueryParams {
   values?: any[];
 }
 
-export async function executeQuery<T extends QueryResultRow>(query: QueryParams): Promise<T[]> {
-  const pool: Pool = await getDbPool();
+interface Transaction {
+  client: PoolClient;
+  finished: boolean;
+}
+
+const transactions = new AsyncLocalStorage<Transaction>();
+
+// Queries inside withTransaction go to its client; anything still running after
+// the transaction has ended (e.g. fire-and-forget writes) falls back to the pool.
+async function getQueryable(): Promise<Pool | PoolClient> {
+  const transaction = transactions.getStore();
+  return transaction && !transaction.finished ? transaction.client : getDbPool();
+}
+
+// Run fn in a transaction. Every query made through this module while fn runs,
+// however deep the call, joins it. Nested calls reuse the outer transaction.
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  const current = transactions.getStore();
+  if (current && !current.finished) {
+    return fn();
+  }
+
+  const client = await (await getDbPool()).connect();
+  const transaction: Transaction = { client, finished: false };
   try {
-    // Log query for debugging SQL syntax errors
-    if (process.env.TEST_MODE === 'true' && (!query.text || query.text.trim() === '')) {
-      console.error('Empty query detected:', query);
-    }
-    const result: QueryResult<T> = await pool.query(query);
-    return result.rows;
+    await client.query('BEGIN');
+    const result = await transactions.run(transaction, fn);
+    await client.query('COMMIT');
+    return result;
   } catch (err) {
-    console.error('Query error:', err instanceof Error ? err.message : err);
-    console.error('Problematic query:', query);
+    await client.query('ROLLBACK').catch(() => {});
     throw err;
+  } finally {
+    transaction.finished = true;
+    client.release();
   }
 }
 
+export async function executeQuery<T extends QueryResultRow>(query: QueryParams): Promise<T[]> {
+  const pool = await getQueryable();
+  const endTimer = dbQueryDuration.startTimer({ operation: sqlOperation(query.text || '') });
+  return withQuerySpan(query.text || '', async () => {
+    try {
+      // Log query for debugging SQL syntax errors
+      if (process.env.TEST_MODE === 'true' && (!query.text || query.text.trim() === '')) {
+        getLogger().error({ query: query.text }, 'Empty query detected');
+      }
+      const result: QueryResult<T> = await pool.query(query);
+      endTimer({ outcome: 'ok' });
+      return result.rows;
+    } catch (err) {
+      endTimer({ outcome: 'error' });
+      getLogger().error({ err, query: query.text }, 'Query error');
+      throw err;
+    }
+  });
+}
+
 // Whitelist of allowed table names for security
 const ALLOWED_TABLES = [
   'users',
   'user_sessions', 
   'user_login_history',
   'email_verifications',
-  'password_resets'
+  'password_resets',
+  'mfa_recovery_codes'
 ];
 
 function validateTableName(table: string): string {
@@ -59,6 +106,18 @@ export async function create<T extends QueryResultRow>(table: string, data: Reco
   return result[0];
 }
 
+// Take the next serial id for a row before inserting it, for values that have to be
+// encrypted with the row id bound in. Pass it to create() as `id`.
+export async function reserveId(table: string): Promise<number> {
+    const validatedTable = validateTableName(table);
+    const query = {
+        text: `SELECT nextval(pg_get_serial_sequence($1, 'id'))::int AS id`,
+        values: [validatedTable],
+    };
+    const [{ id }] = await executeQuery<{ id: number }>(query);
+    return id;
+}
+
 export async function read<T extends QueryResultRow>(table: string, id: number | string): Promise<T | null> {
   const validatedTable = validateTableName(table);
   const query = {
@@ -85,17 +144,22 @@ export async function readSpecific<T extends QueryResultRow>(
   const values: (unknown | string)[] = [value];
   let queryText = `SELECT * FROM ${validatedTable} WHERE ${id} = $1`;
   if(validateUser && andCondition) {
+    // Match on the token fingerprint; only sessions from before fingerprints were
+    // backfilled still need decrypting
+    values.push(fingerprint(andCondition.value as string));
     const query = {
-      text: queryText,
+      text: `${queryText} AND (session_token_fingerprint = $2 OR session_token_fingerprint IS NULL)`,
       values,
     };
     const result = await executeQuery<T>(query);
     for (const session of result) {
-      const value = await decrypt(session.session_token);
+      const value = session.session_token_fingerprint
+        ? andCondition.value
+        : await decrypt(session.session_token, fieldContext('user_sessions', 'session_token', session.id, session.user_uid));
       if (value === andCondition.value) {
         if (new Date(session.session_expires_at) > new Date()) {
           const newExpiresAt = new Date(Date.now() + 30 * 60 * 1000); 
-          await update('user_sessions', session.id, { session_expires_at: newExpiresAt });
+          await update('user_sessions', session.id, { session_expires_at: newExpiresAt, last_accessed: new Date() });
           return 200;
         } else {
           return 403;
@@ -166,12 +230,12 @@ export async function remove(table: string, id: number | string): Promise<boolea
     values: [id],
   };
   
-  const pool: Pool = await getDbPool();
+  const pool = await getQueryable();
   try {
     const result = await pool.query(query);
-    return result.rowCount > 0;
+    return (result.rowCount ?? 0) > 0;
   } catch (err) {
-    console.error('Delete error:', err instanceof Error ? err.message : err);
+    getLogger().error({ err }, 'Delete error');
     return false;
   }
 }
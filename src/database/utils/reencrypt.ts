@@ -0,0 +1,173 @@
+import { executeQuery } from './operations';
+import { encrypt, decrypt, fieldContext, needsReencryption, getCurrentEncryptionKeyId, type EncryptionContext } from '../../utils/crypto';
+
+// Every column written through utils/crypto encrypt(), with the column whose value
+// is bound into each ciphertext as its row id, and the one older releases bound
+// instead. Fixed identifiers only - these are interpolated into SQL.
+export const ENCRYPTED_COLUMNS: Record<string, { rowId: string; previousRowId?: string; columns: string[] }> = {
+  users: { rowId: 'uid', columns: ['username', 'email', 'password_hash', 'mfa_secret'] },
+  user_sessions: { rowId: 'id', previousRowId: 'user_uid', columns: ['session_token', 'refresh_token', 'ip_address'] },
+  user_login_history: { rowId: 'id', previousRowId: 'user_uid', columns: ['login_ip'] },
+  jwt_signing_keys: { rowId: 'kid', columns: ['key_material'] },
+  webhook_endpoints: { rowId: 'uid', columns: ['secret'] }
+};
+
+export interface ReencryptionProgress {
+  table: string;
+  target_key_id: string;
+  processed: number;  // rows examined so far
+  total: number;      // rows in the table when the run started
+  rotated: number;    // values re-encrypted under the target key
+  skipped: number;    // values that could not be decrypted or changed underneath us
+  completed: boolean;
+}
+
+export interface ReencryptionOptions {
+  batchSize?: number;
+  tables?: string[];
+  onProgress?: (progress: ReencryptionProgress) => void;
+}
+
+interface Checkpoint {
+  last_id: number;
+  rotated_count: number;
+  skipped_count: number;
+  completed_at: Date | null;
+}
+
+async function loadCheckpoint(targetKeyId: string, table: string): Promise<Checkpoint> {
+  const rows = await executeQuery<Checkpoint>({
+    text: `INSERT INTO encryption_rotation_progress (target_key_id, table_name) VALUES ($1, $2)
+           ON CONFLICT (target_key_id, table_name) DO UPDATE SET updated_at = CURRENT_TIMESTAMP
+           RETURNING last_id, rotated_count, skipped_count, completed_at`,
+    values: [targetKeyId, table]
+  });
+  return rows[0];
+}
+
+async function saveCheckpoint(targetKeyId: string, table: string, checkpoint: Checkpoint): Promise<void> {
+  await executeQuery({
+    text: `UPDATE encryption_rotation_progress
+           SET last_id = $3, rotated_count = $4, skipped_count = $5, completed_at = $6, updated_at = CURRENT_TIMESTAMP
+           WHERE target_key_id = $1 AND table_name = $2`,
+    values: [targetKeyId, table, checkpoint.last_id, checkpoint.rotated_count, checkpoint.skipped_count, checkpoint.completed_at]
+  });
+}
+
+// Re-encrypt one value under the current key, format and row binding. Returns null when
+// it is already current, or 'skip' when it can't be decrypted (e.g. legacy plaintext).
+async function rotateValue(value: string | null, context: EncryptionContext): Promise<string | null | 'skip'> {
+  if (!value) return null;
+
+  // A value bound to the previous row id has a current envelope; only decrypting tells
+  if (!needsReencryption(value)) {
+    if (!context.previousRowId) return null;
+    try {
+      await decrypt(value, context, { allowLegacy: false });
+      return null;
+    } catch {
+      // Bound to the previous row id; rebind it below
+    }
+  }
+
+  try {
+    // CBC values ignore the context; GCM values were written with it (or the previous one)
+    return await encrypt(await decrypt(value, context, { allowLegacy: true }), context);
+  } catch {
+    return 'skip';
+  }
+}
+
+async function reencryptTable(table: string, targetKeyId: string, batchSize: number, onProgress?: (progress: ReencryptionProgress) => void): Promise<ReencryptionProgress> {
+  const encrypted = ENCRYPTED_COLUMNS[table];
+  if (!encrypted) {
+    throw new Error(`Table ${table} has no encrypted columns`);
+  }
+  const { rowId, previousRowId, columns } = encrypted;
+
+  const checkpoint = await loadCheckpoint(targetKeyId, table);
+  const [{ total }] = await executeQuery<{ total: number }>({ text: `SELECT COUNT(*)::int AS total FROM ${table}` });
+  const [{ processed: alreadyProcessed }] = await executeQuery<{ processed: number }>({
+    text: `SELECT COUNT(*)::int AS processed FROM ${table} WHERE id <= $1`,
+    values: [checkpoint.last_id]
+  });
+
+  const progress: ReencryptionProgress = {
+    table,
+    target_key_id: targetKeyId,
+    processed: alreadyProcessed,
+    total,
+    rotated: checkpoint.rotated_count,
+    skipped: checkpoint.skipped_count,
+    completed: checkpoint.completed_at !== null
+  };
+
+  if (progress.completed) {
+    onProgress?.(progress);
+  }
+
+  while (!progress.completed) {
+    const rows = await executeQuery<Record<string, any>>({
+      text: `SELECT id, ${rowId}${previousRowId ? `, ${previousRowId}` : ''}, ${columns.join(', ')} FROM ${table} WHERE id > $1 ORDER BY id LIMIT $2`,
+      values: [checkpoint.last_id, batchSize]
+    });
+
+    for (const row of rows) {
+      const changes: Record<string, string> = {};
+
+      for (const column of columns) {
+        const rotated = await rotateValue(row[column], fieldContext(table, column, row[rowId], previousRowId && row[previousRowId]));
+        if (rotated === 'skip') {
+          progress.skipped++;
+        } else if (rotated !== null) {
+          changes[column] = rotated;
+        }
+      }
+
+      const changedColumns = Object.keys(changes);
+      if (changedColumns.length > 0) {
+        // Only overwrite if the row still holds the values we decrypted; anything
+        // the application rewrote meanwhile is already under the current key
+        const assignments = changedColumns.map((column, i) => `${column} = $${i + 2}`).join(', ');
+        const guards = changedColumns.map((column, i) => `${column} = $${changedColumns.length + i + 2}`).join(' AND ');
+        const updated = await executeQuery<{ id: number }>({
+          text: `UPDATE ${table} SET ${assignments} WHERE id = $1 AND ${guards} RETURNING id`,
+          values: [row.id, ...changedColumns.map(column => changes[column]), ...changedColumns.map(column => row[column])]
+        });
+
+        if (updated.length > 0) progress.rotated += changedColumns.length;
+        else progress.skipped += changedColumns.length;
+      }
+
+      checkpoint.last_id = row.id;
+      progress.processed++;
+    }
+
+    progress.completed = rows.length < batchSize;
+    checkpoint.rotated_count = progress.rotated;
+    checkpoint.skipped_count = progress.skipped;
+    checkpoint.completed_at = progress.completed ? new Date() : null;
+    await saveCheckpoint(targetKeyId, table, checkpoint);
+
+    onProgress?.({ ...progress, processed: Math.min(progress.processed, progress.total) });
+  }
+
+  return progress;
+}
+
+// Re-encrypt every encrypted column as AES-256-GCM under the current
+// ENCRYPTION_KEY_ID. Safe to interrupt and re-run: progress is checkpointed per
+// table after every batch.
+export async function reencryptAll(options: ReencryptionOptions = {}): Promise<ReencryptionProgress[]> {
+  // Checkpoints are per format and row binding as well as per key, so runs that only
+  // moved CBC values to a new key, or predate row-id binding, don't count as done
+  const targetKeyId = `v2-row:${getCurrentEncryptionKeyId()}`;
+  const batchSize = options.batchSize ?? 500;
+  const results: ReencryptionProgress[] = [];
+
+  for (const table of options.tables ?? Object.keys(ENCRYPTED_COLUMNS)) {
+    results.push(await reencryptTable(table, targetKeyId, batchSize, options.onProgress));
+  }
+
+  return results;
+}
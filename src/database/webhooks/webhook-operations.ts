@@ -0,0 +1,145 @@
+import { executeQuery } from '../utils/operations';
+import {
+    type WebhookEndpoint,
+    type WebhookPayload,
+    type WebhookDelivery,
+    type WebhookDeliveryStatus,
+    type DueWebhookDelivery
+} from '../../interfaces/webhook';
+
+export type NewWebhookEndpoint = Pick<WebhookEndpoint, 'uid' | 'url' | 'description' | 'event_types' | 'secret' | 'created_by'>;
+
+export type WebhookEndpointChanges = Partial<Pick<WebhookEndpoint, 'url' | 'description' | 'event_types' | 'is_active'>>;
+
+export async function insertWebhookEndpoint(endpoint: NewWebhookEndpoint): Promise<WebhookEndpoint> {
+    const query = {
+        text: `INSERT INTO webhook_endpoints (uid, url, description, event_types, secret, created_by)
+               VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        values: [endpoint.uid, endpoint.url, endpoint.description, endpoint.event_types, endpoint.secret, endpoint.created_by],
+    };
+    const result = await executeQuery<WebhookEndpoint>(query);
+    return result[0];
+}
+
+export async function readWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    const query = {
+        text: 'SELECT * FROM webhook_endpoints ORDER BY id',
+    };
+    return executeQuery<WebhookEndpoint>(query);
+}
+
+export async function readWebhookEndpoint(uid: string): Promise<WebhookEndpoint | undefined> {
+    const query = {
+        text: 'SELECT * FROM webhook_endpoints WHERE uid = $1',
+        values: [uid],
+    };
+    const result = await executeQuery<WebhookEndpoint>(query);
+    return result[0];
+}
+
+// Column names come from the fixed WebhookEndpointChanges keys, never from input
+export async function updateWebhookEndpoint(uid: string, changes: WebhookEndpointChanges): Promise<WebhookEndpoint | undefined> {
+    const columns = (['url', 'description', 'event_types', 'is_active'] as const).filter(column => changes[column] !== undefined);
+    const values: any[] = [uid, ...columns.map(column => changes[column])];
+    const assignments = columns.map((column, i) => `${column} = $${i + 2}`);
+
+    const query = {
+        text: `UPDATE webhook_endpoints SET ${[...assignments, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+               WHERE uid = $1 RETURNING *`,
+        values,
+    };
+    const result = await executeQuery<WebhookEndpoint>(query);
+    return result[0];
+}
+
+// Deliveries go with it
+export async function deleteWebhookEndpoint(uid: string): Promise<boolean> {
+    const query = {
+        text: 'DELETE FROM webhook_endpoints WHERE uid = $1 RETURNING id',
+        values: [uid],
+    };
+    const result = await executeQuery<{ id: number }>(query);
+    return result.length > 0;
+}
+
+// Queue an event for every active endpoint subscribed to its type. Call inside the
+// transaction that makes the change so the two commit or roll back together.
+export async function enqueueWebhookDeliveries(payload: WebhookPayload): Promise<number> {
+    const query = {
+        text: `INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, payload)
+               SELECT id, $1, $2::text, $3 FROM webhook_endpoints
+               WHERE is_active AND $2::text = ANY(event_types)
+               ON CONFLICT (endpoint_id, event_id) DO NOTHING
+               RETURNING id`,
+        values: [payload.id, payload.type, JSON.stringify(payload)],
+    };
+    const result = await executeQuery<{ id: string }>(query);
+    return result.length;
+}
+
+// Claim due deliveries to active endpoints by counting the attempt and pushing
+// next_attempt_at out by the lease. SKIP LOCKED lets several workers poll at once.
+export async function claimDueWebhookDeliveries(limit: number, lease_seconds: number): Promise<DueWebhookDelivery[]> {
+    const query = {
+        text: `WITH due AS (
+                   SELECT d.id FROM webhook_deliveries d
+                   JOIN webhook_endpoints e ON e.id = d.endpoint_id AND e.is_active
+                   WHERE d.status = 'pending' AND d.next_attempt_at <= CURRENT_TIMESTAMP
+                   ORDER BY d.next_attempt_at
+                   LIMIT $1
+                   FOR UPDATE OF d SKIP LOCKED
+               )
+               UPDATE webhook_deliveries d
+               SET attempts = d.attempts + 1,
+                   last_attempt_at = CURRENT_TIMESTAMP,
+                   next_attempt_at = CURRENT_TIMESTAMP + make_interval(secs => $2)
+               FROM due, webhook_endpoints e
+               WHERE d.id = due.id AND e.id = d.endpoint_id
+               RETURNING d.*, e.uid AS endpoint_uid, e.url, e.secret`,
+        values: [limit, lease_seconds],
+    };
+    return executeQuery<DueWebhookDelivery>(query);
+}
+
+export async function markWebhookDelivered(id: string, status_code: number): Promise<void> {
+    const query = {
+        text: `UPDATE webhook_deliveries
+               SET status = 'delivered', last_status_code = $2, last_error = NULL, delivered_at = CURRENT_TIMESTAMP
+               WHERE id = $1`,
+        values: [id, status_code],
+    };
+    await executeQuery(query);
+}
+
+// Record a failed attempt. Without next_attempt_at the delivery is given up on.
+export async function markWebhookAttemptFailed(
+    id: string,
+    failure: { status_code: number | null; error: string; next_attempt_at: Date | null }
+): Promise<void> {
+    const query = {
+        text: `UPDATE webhook_deliveries
+               SET status = CASE WHEN $4::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+                   last_status_code = $2, last_error = $3,
+                   next_attempt_at = COALESCE($4::timestamptz, next_attempt_at)
+               WHERE id = $1`,
+        values: [id, failure.status_code, failure.error, failure.next_attempt_at],
+    };
+    await executeQuery(query);
+}
+
+// Newest first, keyset paginated on id
+export async function readWebhookDeliveries(
+    endpoint_id: number,
+    filter: { status?: WebhookDeliveryStatus; before_id?: string },
+    limit: number
+): Promise<WebhookDelivery[]> {
+    const query = {
+        text: `SELECT * FROM webhook_deliveries
+               WHERE endpoint_id = $1
+                 AND ($2::text IS NULL OR status = $2)
+                 AND ($3::bigint IS NULL OR id < $3)
+               ORDER BY id DESC LIMIT $4`,
+        values: [endpoint_id, filter.status ?? null, filter.before_id ?? null, limit],
+    };
+    return executeQuery<WebhookDelivery>(query);
+}
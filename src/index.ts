@@ -1,28 +1,58 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
-import rateLimit from '@fastify/rate-limit';
 import jwt from '@fastify/jwt';
 import authRoutes from './routes/auth';
 import jwtRoutes from './routes/jwt';
-import { ENCRYPTION_KEY, JWT_SECRET, DB_HOST, DB_PORT, DB_USERNAME, DB_PASSWORD, DATABASE } from './config/environment';
+import adminRoutes from './routes/admin';
+import wellKnownRoutes from './routes/wellKnown';
+import metricsRoutes from './routes/metrics';
+import healthRoutes from './routes/health';
+import { JWT_SECRET } from './config/environment';
+import { loadEnvironment } from './config/env';
 import registerEnhancedSwagger from './config/swagger-enhanced';
 import cookie from '@fastify/cookie';
 import { initAuth } from './plugins/auth';
+import { registerShutdownHandlers } from './plugins/shutdown';
 import { securityMiddleware } from './middleware/security';
-const fastify = Fastify({ logger: true });
+import { rateLimitMiddleware } from './middleware/rateLimit';
+import { metricsHook } from './middleware/metrics';
+import { tracingHook, endRequestSpan } from './middleware/tracing';
+import { requestContextHook } from './utils/requestContext';
+import { logger, generateRequestId } from './utils/logger';
+import { initTracing } from './utils/tracing';
+
+// Before anything can start a span
+initTracing();
+
+const fastify = Fastify({
+  loggerInstance: logger,
+  // Honour a valid incoming X-Request-Id so ids correlate across services
+  requestIdHeader: false,
+  genReqId: generateRequestId,
+});
+
+// Drain requests and background work on SIGTERM/SIGINT instead of dying mid-request
+registerShutdownHandlers(fastify);
 
 // Load environment variables
-console.log('\x1b[36m%s\x1b[0m', 'Environment loaded..');
-console.log('\x1b[36m%s\x1b[0m', 'Loading plugins..');
+logger.info('Environment loaded..');
+logger.info('Loading plugins..');
 
 (async () => {
+  // Secrets (from Vault or the environment) must be in place before anything reads them
+  try {
+    await loadEnvironment();
+  } catch (err) {
+    logger.fatal({ err }, 'Configuration could not be loaded');
+    process.exit(1);
+  }
   await initAuth();
   startup();
 })();
 
 async function startup() {
-  console.log('\x1b[36m%s\x1b[0m', 'Finalizing startup..');
+  logger.info('Finalizing startup..');
   
   // Register Enhanced Swagger first
   await registerEnhancedSwagger(fastify);
@@ -45,8 +75,8 @@ async function startup() {
       : allowedOrigins, // Use specific origins even in development for security
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-    exposedHeaders: ['X-Total-Count'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Request-Id', 'traceparent', 'tracestate'],
+    exposedHeaders: ['X-Total-Count', 'X-Request-Id', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
     maxAge: 86400 // 24 hours
   });
   
@@ -67,14 +97,18 @@ async function startup() {
     }
   });
   
-  // Enhanced rate limiting
-  fastify.register(rateLimit, { 
-    max: 100, 
-    timeWindow: '1 minute',
-    skipOnError: false,
-    ban: 10, // Ban after 10 violations
-    continueExceeding: false
-  });
+  // A span per request (continuing an incoming traceparent) that everything after runs under
+  fastify.addHook('onRequest', tracingHook);
+  fastify.addHook('onResponse', endRequestSpan);
+  
+  // Make the request id, logger, client IP and user agent available to services
+  fastify.addHook('onRequest', requestContextHook);
+  
+  // Rate limiting (policies in utils/rateLimit/limiter.ts, counters in the shared store)
+  fastify.addHook('onRequest', rateLimitMiddleware);
+  
+  // Request counts and latency per route for /metrics
+  fastify.addHook('onResponse', metricsHook);
   
   // Register JWT plugin
   fastify.register(jwt, {
@@ -86,11 +120,15 @@ async function startup() {
   
   fastify.register(authRoutes, { prefix: '/auth' });
   fastify.register(jwtRoutes, { prefix: '/jwt' });
+  fastify.register(adminRoutes, { prefix: '/admin' });
+  fastify.register(wellKnownRoutes, { prefix: '/.well-known' });
+  fastify.register(metricsRoutes);
+  fastify.register(healthRoutes, { prefix: '/health' });
   fastify.register(cookie);
   
   fastify.listen({ port: 3030 }, (err) => {
     if (err) throw err;
-    console.log('\x1b[35m%s\x1b[0m', 'Private API running on port 3030');
+    logger.info('Private API running on port 3030');
   });
 }
 
@@ -0,0 +1,40 @@
+export type AuditEventType = 'auth' | 'error' | 'security' | 'audit';
+export type AuditSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AuditEventRecord {
+  id: string;                  // BIGSERIAL - pg returns it as a string
+  occurred_at: Date;
+  type: AuditEventType;
+  severity: AuditSeverity;
+  message: string;
+  actor_uid: string | null;    // who performed the action
+  target_uid: string | null;   // whose account it affected, if not the actor's
+  ip_address: string | null;
+  user_agent: string | null;
+  details: Record<string, any> | null; // sanitized before storage
+  prev_hash: string | null;    // hash of the previous event of the same type; null before chaining
+  hash: string | null;
+}
+
+export type NewAuditEvent = Omit<AuditEventRecord, 'id' | 'prev_hash' | 'hash'>;
+
+export type ChainedAuditEvent = NewAuditEvent & { prev_hash: string; hash: string };
+
+// Signed record of a chain's head at some point, one chain (stream) per event type
+export interface AuditCheckpoint {
+  id: number;
+  stream: AuditEventType;
+  event_id: string;
+  hash: string;
+  signature: string;
+  created_at: Date;
+}
+
+export interface AuditEventFilter {
+  user_uid?: string;  // matches actor or target
+  type?: AuditEventType;
+  severity?: AuditSeverity;
+  from?: Date;
+  to?: Date;
+  before_id?: string; // cursor: only events older than this id
+}
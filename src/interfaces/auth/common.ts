@@ -1,3 +1,5 @@
+import { WEBHOOK_EVENT_TYPES } from '../webhook';
+
 // Common schema definitions for Swagger documentation
 export const ErrorSchema = {
   type: 'object',
@@ -32,13 +34,18 @@ export const LoginResponseSchema = {
 export const SessionSchema = {
   type: 'object',
   properties: {
-    id: { type: 'string', format: 'uuid' },
-    user_id: { type: 'string', format: 'uuid' },
-    device_info: { type: 'string' },
-    ip_address: { type: 'string' },
+    id: { type: 'number' },
+    device_info: { type: 'string', description: 'e.g. "Firefox 128 on Windows 10/11"' },
+    browser: { type: 'string', nullable: true },
+    os: { type: 'string', nullable: true },
+    device_type: { type: 'string', nullable: true, description: 'desktop, mobile, tablet, bot or unknown' },
+    ip_address: { type: 'string', nullable: true },
+    location: { type: 'string', nullable: true, description: 'Coarse location from the offline GeoIP database' },
     created_at: { type: 'string', format: 'date-time' },
     last_accessed: { type: 'string', format: 'date-time' },
-    is_active: { type: 'boolean' }
+    session_expires_at: { type: 'string', format: 'date-time' },
+    refresh_expires_at: { type: 'string', format: 'date-time' },
+    is_current: { type: 'boolean' }
   }
 };
 
@@ -59,3 +66,148 @@ export const HealthCheckSchema = {
     timestamp: { type: 'string', format: 'date-time' }
   }
 };
+
+export const LivenessSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['up'] },
+    uptime_seconds: { type: 'integer' },
+    timestamp: { type: 'string', format: 'date-time' }
+  }
+};
+
+export const ReadinessSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'string', enum: ['up', 'degraded', 'down'] },
+    checked_at: { type: 'string', format: 'date-time' },
+    cached: { type: 'boolean', description: 'Served from the last check rather than a fresh one' },
+    shutting_down: { type: 'boolean', description: 'The instance is draining before exit; always reported down' },
+    dependencies: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['up', 'degraded', 'down', 'skipped'] },
+          required: { type: 'boolean' },
+          latency_ms: { type: 'integer' },
+          error: { type: 'string' },
+          details: { type: 'object', additionalProperties: true }
+        }
+      }
+    }
+  }
+};
+
+export const AdminUserSchema = {
+  type: 'object',
+  properties: {
+    uid: { type: 'string' },
+    username: { type: 'string' },
+    email: { type: 'string', format: 'email' },
+    role: { type: 'string' },
+    sub_roles: { type: 'array', items: { type: 'string' } },
+    is_active: { type: 'boolean' },
+    is_banned: { type: 'boolean' },
+    is_shadowbanned: { type: 'boolean' },
+    ban_reason: { type: ['string', 'null'] },
+    email_verified: { type: 'boolean' },
+    mfa_enabled: { type: 'boolean' },
+    login_attempts: { type: 'number' },
+    locked_until: { type: ['string', 'null'], format: 'date-time' },
+    created_at: { type: 'string', format: 'date-time' },
+    updated_at: { type: ['string', 'null'], format: 'date-time' }
+  }
+};
+
+export const AuditEventSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    occurred_at: { type: 'string', format: 'date-time' },
+    type: { type: 'string', enum: ['auth', 'error', 'security', 'audit'] },
+    severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+    message: { type: 'string' },
+    actor_uid: { type: ['string', 'null'] },
+    target_uid: { type: ['string', 'null'] },
+    ip_address: { type: ['string', 'null'] },
+    user_agent: { type: ['string', 'null'] },
+    details: { type: ['object', 'null'], additionalProperties: true },
+    prev_hash: { type: ['string', 'null'] },
+    hash: { type: ['string', 'null'] }
+  }
+};
+
+export const AuditStreamVerificationSchema = {
+  type: 'object',
+  properties: {
+    stream: { type: 'string', enum: ['auth', 'error', 'security', 'audit'] },
+    events: { type: 'number', description: 'Chained events checked' },
+    unchained: { type: 'number', description: 'Events written before hash chaining was enabled' },
+    checkpoints: { type: 'number' },
+    first_break: {
+      type: ['object', 'null'],
+      properties: {
+        event_id: { type: 'string' },
+        reason: { type: 'string' }
+      }
+    }
+  }
+};
+
+export const IpBlockSchema = {
+  type: 'object',
+  properties: {
+    ip: { type: 'string' },
+    policy: { type: 'string', description: 'Rate limit policy the address is over' },
+    attempts: { type: 'number' },
+    limit: { type: 'number' },
+    blocked_until: { type: 'string', format: 'date-time' }
+  }
+};
+
+export const SigningKeySchema = {
+  type: 'object',
+  properties: {
+    kid: { type: 'string' },
+    algorithm: { type: 'string' },
+    status: { type: 'string', enum: ['pending', 'signing', 'verify_only', 'retired'] },
+    activates_at: { type: 'string', format: 'date-time' },
+    retires_at: { type: ['string', 'null'], format: 'date-time' },
+    retired_at: { type: ['string', 'null'], format: 'date-time' },
+    created_by: { type: ['string', 'null'] },
+    created_at: { type: 'string', format: 'date-time' }
+  }
+};
+
+export const WebhookSchema = {
+  type: 'object',
+  properties: {
+    uid: { type: 'string' },
+    url: { type: 'string' },
+    description: { type: ['string', 'null'] },
+    event_types: { type: 'array', items: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES] } },
+    is_active: { type: 'boolean' },
+    created_by: { type: ['string', 'null'] },
+    created_at: { type: 'string', format: 'date-time' },
+    updated_at: { type: ['string', 'null'], format: 'date-time' }
+  }
+};
+
+export const WebhookDeliverySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    event_id: { type: 'string' },
+    event_type: { type: 'string' },
+    payload: { type: 'object', additionalProperties: true },
+    status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+    attempts: { type: 'number' },
+    next_attempt_at: { type: 'string', format: 'date-time' },
+    last_attempt_at: { type: ['string', 'null'], format: 'date-time' },
+    last_status_code: { type: ['number', 'null'] },
+    last_error: { type: ['string', 'null'] },
+    delivered_at: { type: ['string', 'null'], format: 'date-time' },
+    created_at: { type: 'string', format: 'date-time' }
+  }
+};
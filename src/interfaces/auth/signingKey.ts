@@ -0,0 +1,12 @@
+export interface JwtSigningKeyRecord {
+  id: number;
+  kid: string;
+  algorithm: string;
+  key_material: string | null; // encrypted shared secret or PKCS#8 private key, cleared on retirement
+  public_key: string | null;   // SPKI PEM, null for HS256
+  activates_at: Date;
+  retires_at: Date | null;
+  retired_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+}
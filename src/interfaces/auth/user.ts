@@ -35,6 +35,7 @@ export interface User {
   mfa_enabled: boolean;
   mfa_secret: string | null;
   mfa_method_id: number;
+  mfa_last_used_step: number | null;
   email_verified: boolean;
   email_verification_token: string | null;
   email_verification_expires: Date | null;
@@ -55,6 +56,25 @@ export interface UserSession {
   session_expires_at: Date;
   refresh_expires_at: Date;
   created_at: Date;
+  family_id: string;               // shared by every refresh token issued for this session
+  refresh_token_id: string | null; // jti of the current refresh token, null for tokens issued before families
+  session_token_fingerprint: string | null; // keyed hashes for indexed lookup, null until backfilled
+  refresh_token_fingerprint: string | null;
+  ip_address: string | null;  // encrypted
+  user_agent: string | null;
+  browser: string | null;
+  os: string | null;
+  device_type: string | null;
+  location: string | null;
+  last_accessed: Date;
+}
+
+export interface RefreshTokenHistory {
+  token_id: string;  // jti of a refresh token that has been rotated out
+  family_id: string;
+  user_uid: string;
+  rotated_at: Date;
+  expires_at: Date;
 }
 
 export interface UserLoginHistory {
@@ -66,6 +86,30 @@ export interface UserLoginHistory {
   auth_method: string | null;
 }
 
-export interface Cookie {
+export interface MfaRecoveryCode {
+  id: number;
+  user_uid: string;
+  code_hash: string;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export interface AccessTokenClaims {
+  role: string;
+  sub_roles: string[];
+  permissions: string[];
+}
+
+// Verified access token payload, set on the request by validateJWT. Tokens issued before
+// roles were added carry no role claims.
+export interface AccessClaims extends Partial<AccessTokenClaims> {
+  sub: string;
+  type: 'access';
+  iat: number;
+  exp: number;
+  jti?: string;
+}
+
+export interface Cookie extends Partial<AccessTokenClaims> {
   sub: string;
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+// up: working. degraded: working but needs attention (e.g. schema version skew during a
+// deploy). down: not working. skipped: not configured or not checked.
+export type DependencyStatus = 'up' | 'degraded' | 'down' | 'skipped';
+
+export type ReadinessStatus = 'up' | 'degraded' | 'down';
+
+export interface DependencyHealth {
+  status: DependencyStatus;
+  required: boolean;           // when a required dependency is down the instance is not ready
+  latency_ms?: number;
+  error?: string;
+  details?: Record<string, number | string | boolean>;
+}
+
+export interface ReadinessReport {
+  status: ReadinessStatus;
+  checked_at: string;
+  cached: boolean;
+  shutting_down: boolean;      // the process is draining; dependencies aren't checked
+  dependencies: Record<string, DependencyHealth>;
+}
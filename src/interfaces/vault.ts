@@ -5,5 +5,8 @@ export interface Vault {
     username?: string;
     password?: string;
     database?: string;
+    private_key?: string;
+    public_key?: string;
+    kid?: string;
   }
   
\ No newline at end of file
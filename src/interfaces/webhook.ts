@@ -0,0 +1,55 @@
+export const WEBHOOK_EVENT_TYPES = [
+  'user.registered',
+  'user.email_verified',
+  'user.password_changed',
+  'user.banned',
+  'user.deleted'
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookEndpoint {
+  id: number;
+  uid: string;
+  url: string;
+  description: string | null;
+  event_types: WebhookEventType[];
+  secret: string;              // encrypted HMAC signing key
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date | null;
+}
+
+// Body POSTed to endpoints
+export interface WebhookPayload {
+  id: string;                  // event id, the same for every endpoint it goes to
+  type: WebhookEventType;
+  occurred_at: string;
+  data: Record<string, any>;
+}
+
+export interface WebhookDelivery {
+  id: string;                  // BIGSERIAL - pg returns it as a string
+  endpoint_id: number;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: Date;
+  last_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+// A delivery claimed by the worker, joined with the endpoint it goes to
+export interface DueWebhookDelivery extends WebhookDelivery {
+  endpoint_uid: string;
+  url: string;
+  secret: string;
+}
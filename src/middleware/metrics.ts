@@ -0,0 +1,11 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { httpRequestsTotal, httpRequestDuration } from '../utils/metrics/instruments';
+
+// Requests are labelled by route template (/admin/users/:uid), never the raw URL, so ids
+// in paths don't leak and unmatched paths collapse into one series
+export const metricsHook = async (request: FastifyRequest, reply: FastifyReply) => {
+  const route = request.routeOptions.url ?? 'unmatched';
+
+  httpRequestsTotal.inc({ method: request.method, route, status_code: String(reply.statusCode) });
+  httpRequestDuration.observe({ method: request.method, route }, reply.elapsedTime / 1000);
+};
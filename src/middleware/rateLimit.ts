@@ -0,0 +1,48 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { consumeRateLimit, rateLimitHeaders, type RateLimitDecision } from '../utils/rateLimit/limiter';
+import { logSecurityEvent } from '../utils/secureLogger';
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    // Extra policy applied on top of `global`, or false to exempt the route entirely
+    rateLimit?: string | false;
+  }
+}
+
+// Every request counts against the `global` policy and, if its route names one,
+// a route policy. Headers describe whichever policy is closest to its limit.
+export const rateLimitMiddleware = async (request: FastifyRequest, reply: FastifyReply) => {
+  const routePolicy = request.routeOptions.config?.rateLimit;
+  if (routePolicy === false) return;
+
+  const policies = routePolicy ? ['global', routePolicy] : ['global'];
+  const decisions: RateLimitDecision[] = [];
+  for (const policy of policies) {
+    decisions.push(await consumeRateLimit(policy, request.ip));
+  }
+
+  const decision = decisions.find(candidate => candidate.limited)
+    || decisions.reduce((lowest, candidate) => (candidate.remaining < lowest.remaining ? candidate : lowest));
+
+  reply.headers(rateLimitHeaders(decision));
+
+  for (const exceeded of decisions.filter(candidate => candidate.exceeded)) {
+    logSecurityEvent({
+      type: 'security',
+      severity: exceeded.policy === 'global' ? 'medium' : 'high',
+      message: 'Rate limit exceeded',
+      ip: request.ip,
+      userAgent: request.headers['user-agent'],
+      details: { policy: exceeded.policy, limit: exceeded.limit, url: request.url }
+    });
+  }
+
+  if (decision.limited) {
+    return reply.status(429).send({
+      error: 'Too many requests',
+      statusCode: 429,
+      message: 'Rate limit exceeded. Please try again later.',
+      retryAfter: Math.max(Math.ceil((decision.resetAt - Date.now()) / 1000), 0)
+    });
+  }
+};
@@ -1,4 +1,17 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { verifyJWT } from '../utils/jwt';
+import { isAccessTokenRevoked } from '../utils/auth/tokenDenylist';
+import { extractTokenFromRequest } from '../utils/tokenExtractor';
+import { hasPermission } from '../utils/auth/roles';
+import { type AccessClaims } from '../interfaces/auth/user';
+
+// @fastify/jwt owns the declaration of request.user; this is how it takes a type.
+// Set once validateJWT has accepted the request's access token.
+declare module '@fastify/jwt' {
+  interface FastifyJWT {
+    user: AccessClaims | undefined;
+  }
+}
 
 // Security middleware for authentication endpoints
 export const securityMiddleware = async (request: FastifyRequest, reply: FastifyReply) => {
@@ -37,46 +50,14 @@ export const securityMiddleware = async (request: FastifyRequest, reply: Fastify
   // Check for suspicious user agents
   const userAgent = request.headers['user-agent'];
   if (!userAgent || userAgent.length < 10) {
-    console.warn(`Suspicious request from ${request.ip}: Missing or short user agent`);
-  }
-  
-  // Rate limit by IP for authentication endpoints
-  if (request.url.includes('/login') || request.url.includes('/register')) {
-    const ip = request.ip;
-    const now = Date.now();
-    const key = `auth_attempt_${ip}`;
-    
-    // Simple in-memory rate limiting (in production, use Redis or similar)
-    if (!global.authAttempts) {
-      global.authAttempts = new Map();
-    }
-    
-    const attempts = global.authAttempts.get(key) || { count: 0, firstAttempt: now };
-    
-    // Reset counter if more than 15 minutes have passed
-    if (now - attempts.firstAttempt > 15 * 60 * 1000) {
-      attempts.count = 0;
-      attempts.firstAttempt = now;
-    }
-    
-    attempts.count++;
-    global.authAttempts.set(key, attempts);
-    
-    // Block if too many attempts
-    if (attempts.count > 10) {
-      return reply.status(429).send({
-        error: 'Too many authentication attempts from this IP',
-        statusCode: 429,
-        retryAfter: 900 // 15 minutes
-      });
-    }
+    request.log.warn({ ip: request.ip }, 'Suspicious request: missing or short user agent');
   }
 };
 
 // JWT validation middleware
 export const validateJWT = async (request: FastifyRequest, reply: FastifyReply) => {
   try {
-    const token = request.headers.authorization?.replace('Bearer ', '');
+    const token = extractTokenFromRequest(request);
     
     if (!token) {
       return reply.status(401).send({
@@ -85,11 +66,20 @@ export const validateJWT = async (request: FastifyRequest, reply: FastifyReply)
       });
     }
     
-    // Verify token using Fastify's JWT plugin
-    const decoded = request.server.jwt.verify(token);
+    // Verify signature, expiry, issuer and audience (rejects refresh/MFA tokens)
+    const decoded = verifyJWT(token);
+    
+    if (decoded.type !== 'access') {
+      throw new Error('Not an access token');
+    }
+    
+    // Logged-out and revoked sessions stop working before the token expires
+    if (await isAccessTokenRevoked(decoded.jti)) {
+      throw new Error('Token has been revoked');
+    }
     
     // Add user info to request for downstream handlers
-    (request as any).user = decoded;
+    request.user = decoded;
     
   } catch (error) {
     return reply.status(401).send({
@@ -99,7 +89,54 @@ export const validateJWT = async (request: FastifyRequest, reply: FastifyReply)
   }
 };
 
-// Declare global types for TypeScript
-declare global {
-  var authAttempts: Map<string, { count: number; firstAttempt: number }>;
-}
+// uid of the authenticated caller, for handlers behind validateJWT / requireRole
+export const getActorUid = (request: FastifyRequest): string => {
+  if (!request.user) {
+    throw new Error('Request has not been authenticated');
+  }
+  return request.user.sub;
+};
+
+// Claims for the guards below, validating the token first when no earlier preHandler has.
+// null once validateJWT has answered 401.
+const authenticatedClaims = async (request: FastifyRequest, reply: FastifyReply): Promise<AccessClaims | null> => {
+  if (!request.user) {
+    await validateJWT(request, reply);
+  }
+  return reply.sent ? null : request.user ?? null;
+};
+
+// Role guard - e.g. preHandler: [validateJWT, requireRole('admin')]
+// Relies only on the claims in the access token, no database lookup.
+export const requireRole = (...roles: string[]) => {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const claims = await authenticatedClaims(request, reply);
+    if (!claims) return;
+    
+    const subRoles: string[] = Array.isArray(claims.sub_roles) ? claims.sub_roles : [];
+    
+    if (!roles.includes(claims.role ?? '') && !roles.some(role => subRoles.includes(role))) {
+      return reply.status(403).send({
+        error: 'Insufficient role',
+        statusCode: 403
+      });
+    }
+  };
+};
+
+// Permission guard - e.g. preHandler: requirePermission('users:write')
+export const requirePermission = (...permissions: string[]) => {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const claims = await authenticatedClaims(request, reply);
+    if (!claims) return;
+    
+    const granted: string[] = Array.isArray(claims.permissions) ? claims.permissions : [];
+    
+    if (!permissions.every(permission => hasPermission(granted, permission))) {
+      return reply.status(403).send({
+        error: 'Insufficient permissions',
+        statusCode: 403
+      });
+    }
+  };
+};
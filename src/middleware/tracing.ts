@@ -0,0 +1,39 @@
+import { FastifyRequest, FastifyReply, HookHandlerDoneFunction } from 'fastify';
+import { context, propagation, trace, SpanKind, SpanStatusCode, type Span } from '@opentelemetry/api';
+import { ATTR_HTTP_REQUEST_METHOD, ATTR_HTTP_RESPONSE_STATUS_CODE, ATTR_HTTP_ROUTE } from '@opentelemetry/semantic-conventions';
+import { tracer } from '../utils/tracing';
+
+const requestSpans = new WeakMap<FastifyRequest, Span>();
+
+// One server span per request, continuing the caller's trace when it sent a W3C
+// traceparent. Callback-style like requestContextHook, so everything after `done`
+// (other hooks, the handler, services, queries) runs with this span active.
+export function tracingHook(request: FastifyRequest, reply: FastifyReply, done: HookHandlerDoneFunction): void {
+  const parent = propagation.extract(context.active(), request.headers);
+  // The route template, not the URL: paths carry uids and query strings carry tokens
+  const route = request.routeOptions.url;
+
+  const span = tracer.startSpan(route ? `${request.method} ${route}` : request.method, {
+    kind: SpanKind.SERVER,
+    attributes: {
+      [ATTR_HTTP_REQUEST_METHOD]: request.method,
+      ...(route && { [ATTR_HTTP_ROUTE]: route }),
+      'http.request.id': request.id
+    }
+  }, parent);
+
+  requestSpans.set(request, span);
+  context.with(trace.setSpan(parent, span), done);
+}
+
+export const endRequestSpan = async (request: FastifyRequest, reply: FastifyReply) => {
+  const span = requestSpans.get(request);
+  if (!span) return;
+
+  span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, reply.statusCode);
+  if (reply.statusCode >= 500) {
+    span.setStatus({ code: SpanStatusCode.ERROR });
+  }
+  span.end();
+  requestSpans.delete(request);
+};
@@ -1,13 +1,24 @@
 import type { FastifyPluginAsync } from 'fastify';
 import runDbSync from '../database/utils/sync'; 
+import { initSigningKeys } from '../utils/auth/signingKeys';
+import { startKeyRingRefresh } from '../services/auth/signingKeys';
+import { validateEncryptionKeys } from '../utils/crypto';
+import { startAuditCheckpoints } from '../utils/auditChain';
+import { startWebhookDelivery } from '../utils/webhooks/delivery';
+import { logger } from '../utils/logger';
 
 export async function initAuth() {
-  console.log('\x1b[33m%s\x1b[0m', 'Initializing auth service..');
+  logger.info('Initializing auth service..');
   try {
+    validateEncryptionKeys();
     await runDbSync();
-    console.log('\x1b[32m%s\x1b[0m', 'Finished validating authentication database..');
+    await initSigningKeys();
+    await startKeyRingRefresh();
+    startAuditCheckpoints();
+    startWebhookDelivery();
+    logger.info('Finished validating authentication database..');
 } catch (err) {
-    console.error('Authentication database sync failed on server startup:', err);
+    logger.error({ err }, 'Authentication database sync failed on server startup');
     process.exit(1); 
 }
 };
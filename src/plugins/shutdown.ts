@@ -0,0 +1,118 @@
+import type { FastifyInstance } from 'fastify';
+import { closeDbPool } from '../database/utils/connect';
+import { stopSecretRenewal } from '../config/env';
+import { stopKeyRingRefresh } from '../services/auth/signingKeys';
+import { stopAuditCheckpoints } from '../utils/auditChain';
+import { stopWebhookDelivery } from '../utils/webhooks/delivery';
+import { beginShutdown, flushBackgroundTasks, isShuttingDown, pendingBackgroundTasks } from '../utils/lifecycle';
+import { shutdownTracing } from '../utils/tracing';
+import { SHUTDOWN_READINESS_DELAY_SECONDS, SHUTDOWN_TIMEOUT_SECONDS } from '../config/environment';
+import { logger } from '../utils/logger';
+
+// Slack for closing the pool and flushing traces once the drain timeout is used up
+const FORCE_EXIT_GRACE_MS = 5000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Resolves true if the promise settled before the deadline, false if it was still running
+async function beforeDeadline(promise: Promise<unknown>, deadline: number): Promise<boolean> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<false>(resolve => {
+    timer = setTimeout(() => resolve(false), Math.max(deadline - Date.now(), 0));
+  });
+  return Promise.race([promise.then(() => true), timeout]).finally(() => clearTimeout(timer));
+}
+
+// Take the instance out of service without dropping work: fail readiness, stop accepting
+// connections, let in-flight requests and queued background work finish, then release
+// connections. Resolves false if anything had to be cut off.
+export async function shutdown(fastify: FastifyInstance, signal: string): Promise<boolean> {
+  beginShutdown();
+  logger.info({ signal, readinessDelaySeconds: SHUTDOWN_READINESS_DELAY_SECONDS, timeoutSeconds: SHUTDOWN_TIMEOUT_SECONDS }, 'Shutting down');
+  let clean = true;
+
+  // Keep serving while load balancers notice /health/ready failing
+  if (SHUTDOWN_READINESS_DELAY_SECONDS > 0) {
+    await sleep(SHUTDOWN_READINESS_DELAY_SECONDS * 1000);
+  }
+
+  const deadline = Date.now() + SHUTDOWN_TIMEOUT_SECONDS * 1000;
+
+  // No new polls; ones already running are tracked and flushed below
+  stopKeyRingRefresh();
+  stopAuditCheckpoints();
+  stopWebhookDelivery();
+  stopSecretRenewal();
+
+  // Stops the listener, answers requests arriving on kept-alive connections with 503 and
+  // waits for the in-flight ones
+  const closing = fastify.close();
+  if (!(await beforeDeadline(closing, deadline))) {
+    logger.warn('Requests still running at shutdown timeout; closing their connections');
+    fastify.server.closeAllConnections();
+    clean = false;
+    await closing;
+  }
+
+  // Requests queue audit writes and alerts up to their last moment, so flush after draining
+  if (pendingBackgroundTasks() > 0) {
+    logger.info({ pending: pendingBackgroundTasks() }, 'Waiting for background work');
+  }
+  if (!(await flushBackgroundTasks(Math.max(deadline - Date.now(), 0)))) {
+    clean = false;
+  }
+
+  try {
+    await closeDbPool();
+  } catch (err) {
+    logger.error({ err }, 'Failed to close database pool');
+    clean = false;
+  }
+
+  // Last, so spans from everything above are exported
+  try {
+    await shutdownTracing();
+  } catch (err) {
+    logger.error({ err }, 'Failed to flush traces');
+    clean = false;
+  }
+
+  logger.info({ clean }, 'Shutdown complete');
+  return clean;
+}
+
+// SIGTERM is what orchestrators send on deploy; SIGINT is Ctrl-C. A second signal skips the
+// drain, and a stuck step (a pool client never released) can't hold the process past the timeout.
+export function registerShutdownHandlers(fastify: FastifyInstance): void {
+  // The listener only closes once every connection has; without this a kept-alive client whose
+  // request finished mid-drain would hold the close open until the timeout
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    if (isShuttingDown()) {
+      reply.header('Connection', 'close');
+    }
+    return payload;
+  });
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (isShuttingDown()) {
+      logger.warn({ signal }, 'Received second shutdown signal, exiting immediately');
+      process.exit(1);
+    }
+
+    const forceExit = setTimeout(() => {
+      logger.error('Shutdown did not finish in time, exiting');
+      process.exit(1);
+    }, (SHUTDOWN_READINESS_DELAY_SECONDS + SHUTDOWN_TIMEOUT_SECONDS) * 1000 + FORCE_EXIT_GRACE_MS);
+    forceExit.unref();
+
+    shutdown(fastify, signal)
+      .then(clean => process.exit(clean ? 0 : 1))
+      .catch(err => {
+        logger.error({ err }, 'Shutdown failed');
+        process.exit(1);
+      });
+  };
+
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
@@ -0,0 +1,616 @@
+import { FastifyInstance } from 'fastify';
+import {
+  listUsers,
+  searchUsers,
+  getUser,
+  banUser,
+  unbanUser,
+  unlockUser,
+  changeUserRole,
+  deactivateUser,
+  reactivateUser,
+  revokeUserSessions
+} from '../controllers/admin/users';
+import { listSigningKeys, rotateSigningKey } from '../controllers/admin/signingKeys';
+import { listIpBlocks, unblockIp, listAccountLocks } from '../controllers/admin/blocks';
+import { listAuditEvents, verifyAuditLog } from '../controllers/admin/audit';
+import { sendTestAlert } from '../controllers/admin/alerts';
+import { listWebhooks, createWebhook, updateWebhook, deleteWebhook, listWebhookDeliveries } from '../controllers/admin/webhooks';
+import { validateJWT, requireRole } from '../middleware/security';
+import { ErrorSchema, AdminUserSchema, SigningKeySchema, IpBlockSchema, AuditEventSchema, AuditStreamVerificationSchema, WebhookSchema, WebhookDeliverySchema } from '../interfaces/auth/common';
+import { WEBHOOK_EVENT_TYPES } from '../interfaces/webhook';
+
+const UidParams = {
+  type: 'object',
+  properties: {
+    uid: { type: 'string', description: 'User UID' }
+  },
+  required: ['uid']
+};
+
+const WebhookParams = {
+  type: 'object',
+  properties: {
+    uid: { type: 'string', description: 'Webhook UID' }
+  },
+  required: ['uid']
+};
+
+const WebhookEventTypes = {
+  type: 'array',
+  minItems: 1,
+  items: { type: 'string', enum: [...WEBHOOK_EVENT_TYPES] },
+  description: 'Events the endpoint is subscribed to'
+};
+
+const AdminUserResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    user: AdminUserSchema
+  }
+};
+
+export default async function adminRoutes(fastify: FastifyInstance) {
+  // Every route in this plugin requires a valid access token with the admin role
+  fastify.addHook('preHandler', validateJWT);
+  fastify.addHook('preHandler', requireRole('admin'));
+
+  // User management endpoints
+  fastify.get('/users', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'List users',
+      description: 'Paginated list of users, optionally filtered by account status',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          page: { type: 'string', description: 'Page number (default 1)' },
+          limit: { type: 'string', description: 'Page size, 1-100 (default 25)' },
+          status: {
+            type: 'string',
+            enum: ['active', 'inactive', 'banned', 'shadowbanned', 'locked'],
+            description: 'Only return users in this state'
+          }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            users: { type: 'array', items: AdminUserSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                page: { type: 'number' },
+                limit: { type: 'number' },
+                total: { type: 'number' },
+                total_pages: { type: 'number' }
+              }
+            }
+          }
+        },
+        400: ErrorSchema,
+        401: ErrorSchema,
+        403: ErrorSchema
+      }
+    }
+  }, listUsers);
+
+  fastify.get('/users/search', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Find user by username or email',
+      description: 'Exact-match lookup using the username/email hash columns',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          username: { type: 'string', description: 'Exact username' },
+          email: { type: 'string', description: 'Exact email address' }
+        }
+      },
+      response: {
+        200: AdminUserResponse,
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, searchUsers);
+
+  fastify.get('/users/:uid', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Get user',
+      description: 'Retrieve a single user by UID',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: AdminUserResponse,
+        404: ErrorSchema
+      }
+    }
+  }, getUser);
+
+  fastify.post('/users/:uid/ban', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Ban or shadowban user',
+      description: 'A full ban blocks login and revokes all sessions. A shadowban leaves the account usable.',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      body: {
+        type: 'object',
+        required: ['reason'],
+        properties: {
+          reason: { type: 'string', description: 'Reason recorded on the account' },
+          shadow: { type: 'boolean', description: 'Shadowban instead of a full ban', default: false }
+        }
+      },
+      response: {
+        200: AdminUserResponse,
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, banUser);
+
+  fastify.post('/users/:uid/unban', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Unban user',
+      description: 'Clear ban, shadowban and ban reason',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: AdminUserResponse,
+        404: ErrorSchema
+      }
+    }
+  }, unbanUser);
+
+  fastify.post('/users/:uid/unlock', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Unlock user account',
+      description: 'Clear an account lock and reset failed login attempts',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: AdminUserResponse,
+        404: ErrorSchema
+      }
+    }
+  }, unlockUser);
+
+  fastify.patch('/users/:uid/role', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Change user role',
+      description: 'Set the base role and/or sub-roles of a user. Their current access tokens are revoked, so the change applies on their next refresh.',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      body: {
+        type: 'object',
+        properties: {
+          role: { type: 'string', description: 'Role name (admin, member, guest)' },
+          sub_roles: { type: 'array', items: { type: 'string' }, description: 'Sub-role names' }
+        }
+      },
+      response: {
+        200: AdminUserResponse,
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, changeUserRole);
+
+  fastify.post('/users/:uid/deactivate', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Deactivate user',
+      description: 'Mark the account inactive and revoke all sessions',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: AdminUserResponse,
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, deactivateUser);
+
+  fastify.post('/users/:uid/reactivate', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Reactivate user',
+      description: 'Mark a deactivated account active again',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: AdminUserResponse,
+        404: ErrorSchema
+      }
+    }
+  }, reactivateUser);
+
+  fastify.delete('/users/:uid/sessions', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Revoke all user sessions',
+      description: 'Force the user to sign in again everywhere',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            revoked_count: { type: 'number' }
+          }
+        },
+        404: ErrorSchema
+      }
+    }
+  }, revokeUserSessions);
+
+  // IP blocks and account locks
+  fastify.get('/blocks/ips', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'List blocked IP addresses',
+      description: 'Addresses currently over a rate limit, with their attempt counts and when the block ends',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            blocks: { type: 'array', items: IpBlockSchema }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, listIpBlocks);
+
+  fastify.delete('/blocks/ips/:ip', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Unblock IP address',
+      description: 'Lift every rate limit block on an address and reset its counters',
+      security: [{ bearerAuth: [] }],
+      params: {
+        type: 'object',
+        properties: {
+          ip: { type: 'string', description: 'IPv4 or IPv6 address' }
+        },
+        required: ['ip']
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            policies: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, unblockIp);
+
+  fastify.get('/blocks/accounts', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'List locked accounts',
+      description: 'Accounts locked by repeated failed logins, with attempt counts and lock expiry',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            users: { type: 'array', items: AdminUserSchema }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, listAccountLocks);
+
+  fastify.delete('/blocks/accounts/:uid', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Unlock account',
+      description: 'Clear an account lock and reset failed login attempts (same as POST /users/:uid/unlock)',
+      security: [{ bearerAuth: [] }],
+      params: UidParams,
+      response: {
+        200: AdminUserResponse,
+        404: ErrorSchema
+      }
+    }
+  }, unlockUser);
+
+  // Security audit log
+  fastify.get('/audit', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Query the audit log',
+      description: 'Security audit events, newest first. Follow next_cursor for older events.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          user_uid: { type: 'string', description: 'Events where this user was the actor or the target' },
+          type: { type: 'string', enum: ['auth', 'error', 'security', 'audit'] },
+          severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+          from: { type: 'string', format: 'date-time', description: 'Only events at or after this time' },
+          to: { type: 'string', format: 'date-time', description: 'Only events before this time' },
+          cursor: { type: 'string', description: 'next_cursor from the previous page' },
+          limit: { type: 'string', description: 'Page size, 1-200 (default 50)' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            events: { type: 'array', items: AuditEventSchema },
+            next_cursor: { type: ['string', 'null'] }
+          }
+        },
+        400: ErrorSchema,
+        500: ErrorSchema
+      }
+    }
+  }, listAuditEvents);
+
+  fastify.get('/audit/verify', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Verify the audit log',
+      description: 'Walk each audit stream\'s hash chain from the start, checking every link and signed checkpoint, and report the first broken link per stream.',
+      security: [{ bearerAuth: [] }],
+      querystring: {
+        type: 'object',
+        properties: {
+          stream: { type: 'string', enum: ['auth', 'error', 'security', 'audit'], description: 'Only verify this stream' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            valid: { type: 'boolean' },
+            streams: { type: 'array', items: AuditStreamVerificationSchema }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, verifyAuditLog);
+
+  // Security alerting
+  fastify.post('/alerts/test', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Send a test alert',
+      description: 'Fire a synthetic security alert through every configured sink whose threshold it meets, bypassing deduplication, and report which sinks delivered it.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: ['object', 'null'],
+        properties: {
+          severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'], default: 'critical' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            alert_severity: { type: 'string' },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  sink: { type: 'string' },
+                  delivered: { type: 'boolean' },
+                  error: { type: 'string' }
+                }
+              }
+            },
+            skipped: { type: 'array', items: { type: 'string' }, description: 'Sinks whose threshold is above this severity' }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, sendTestAlert);
+
+  // Webhooks
+  fastify.get('/webhooks', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'List webhooks',
+      description: 'Registered webhook endpoints and their subscriptions. Signing secrets are never returned.',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            webhooks: { type: 'array', items: WebhookSchema }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, listWebhooks);
+
+  fastify.post('/webhooks', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Register webhook',
+      description: 'Register an endpoint for the given events. Deliveries are POSTed as JSON and signed with HMAC-SHA256 over `<Webhook-Id>.<Webhook-Timestamp>.<body>` in the Webhook-Signature header. The signing secret is returned once.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['url', 'event_types'],
+        properties: {
+          url: { type: 'string', description: 'HTTPS URL deliveries are POSTed to' },
+          description: { type: 'string' },
+          event_types: WebhookEventTypes
+        }
+      },
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            webhook: WebhookSchema,
+            secret: { type: 'string', description: 'HMAC signing secret' }
+          }
+        },
+        400: ErrorSchema,
+        500: ErrorSchema
+      }
+    }
+  }, createWebhook);
+
+  fastify.patch('/webhooks/:uid', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Update webhook',
+      description: 'Change the URL, description or subscriptions, or pause the endpoint with is_active=false. No events are queued for a paused endpoint; deliveries already queued wait until it is re-enabled.',
+      security: [{ bearerAuth: [] }],
+      params: WebhookParams,
+      body: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          description: { type: 'string' },
+          event_types: WebhookEventTypes,
+          is_active: { type: 'boolean' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            webhook: WebhookSchema
+          }
+        },
+        400: ErrorSchema,
+        404: ErrorSchema,
+        500: ErrorSchema
+      }
+    }
+  }, updateWebhook);
+
+  fastify.delete('/webhooks/:uid', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Delete webhook',
+      description: 'Remove an endpoint along with its pending deliveries and delivery log',
+      security: [{ bearerAuth: [] }],
+      params: WebhookParams,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' }
+          }
+        },
+        404: ErrorSchema,
+        500: ErrorSchema
+      }
+    }
+  }, deleteWebhook);
+
+  fastify.get('/webhooks/:uid/deliveries', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Webhook delivery log',
+      description: 'Deliveries to an endpoint, newest first, with attempt counts and the last response or error. Follow next_cursor for older deliveries.',
+      security: [{ bearerAuth: [] }],
+      params: WebhookParams,
+      querystring: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['pending', 'delivered', 'failed'] },
+          cursor: { type: 'string', description: 'next_cursor from the previous page' },
+          limit: { type: 'string', description: 'Page size, 1-200 (default 50)' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            deliveries: { type: 'array', items: WebhookDeliverySchema },
+            next_cursor: { type: ['string', 'null'] }
+          }
+        },
+        400: ErrorSchema,
+        404: ErrorSchema,
+        500: ErrorSchema
+      }
+    }
+  }, listWebhookDeliveries);
+
+  // JWT signing key management
+  fastify.get('/signing-keys', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'List JWT signing keys',
+      description: 'Every key in the ring with its status. Key material is never returned.',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            keys: { type: 'array', items: SigningKeySchema }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, listSigningKeys);
+
+  fastify.post('/signing-keys/rotate', {
+    schema: {
+      tags: ['Admin'],
+      summary: 'Rotate JWT signing key',
+      description: 'Generate a new signing key. It is published in the JWKS immediately and starts signing after a short propagation delay; superseded keys keep verifying until every token they issued has expired.',
+      security: [{ bearerAuth: [] }],
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            key: SigningKeySchema
+          }
+        },
+        409: ErrorSchema,
+        500: ErrorSchema
+      }
+    }
+  }, rotateSigningKey);
+}
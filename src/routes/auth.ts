@@ -5,11 +5,13 @@ import { getProfile, updateProfile, changePassword, deleteAccount } from '../con
 import { getActiveSessions, revokeSession, revokeAllOtherSessions, getLoginHistory } from '../controllers/auth/sessions';
 import { forgotPassword, validateResetToken, resetPassword } from '../controllers/auth/passwordReset';
 import { sendVerificationEmail, verifyEmail, resendVerificationEmail } from '../controllers/auth/emailVerification';
+import { enrollMfa, confirmMfa, regenerateRecoveryCodes, verifyMfa } from '../controllers/auth/mfa';
 import { ErrorSchema, UserSchema, LoginResponseSchema, SessionSchema, HealthCheckSchema } from '../interfaces/auth/common';
 
 export default async function authRoutes(fastify: FastifyInstance) {
   // Authentication endpoints
   fastify.post('/login', {
+    config: { rateLimit: 'auth' },
     schema: {
       tags: ['Authentication'],
       summary: 'User login',
@@ -38,7 +40,9 @@ export default async function authRoutes(fastify: FastifyInstance) {
             },
             access_token: { type: 'string' },
             refresh_token: { type: 'string' },
-            expires_in: { type: 'number' }
+            expires_in: { type: 'number' },
+            mfa_required: { type: 'boolean', description: 'True when the account requires a second factor' },
+            mfa_token: { type: 'string', description: 'Short-lived challenge token for /auth/mfa/verify' }
           }
         },
         401: {
@@ -66,6 +70,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   }, login);
   
   fastify.post('/register', {
+    config: { rateLimit: 'auth' },
     schema: {
       tags: ['Authentication'],
       summary: 'User registration',
@@ -270,16 +275,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
             success: { type: 'boolean' },
             sessions: {
               type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  id: { type: 'number' },
-                  created_at: { type: 'string', format: 'date-time' },
-                  session_expires_at: { type: 'string', format: 'date-time' },
-                  refresh_expires_at: { type: 'string', format: 'date-time' },
-                  is_current: { type: 'boolean' }
-                }
-              }
+              items: SessionSchema
             },
             total_sessions: { type: 'number' }
           }
@@ -369,6 +365,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   
   // Email verification endpoints
   fastify.post('/send-verification', {
+    config: { rateLimit: 'email' },
     schema: {
       tags: ['Email Verification'],
       summary: 'Send email verification',
@@ -394,6 +391,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   }, sendVerificationEmail);
   
   fastify.get('/verify-email', {
+    config: { rateLimit: 'auth' },
     schema: {
       tags: ['Email Verification'],
       summary: 'Verify email address',
@@ -426,6 +424,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   }, verifyEmail);
   
   fastify.post('/resend-verification', {
+    config: { rateLimit: 'email' },
     schema: {
       tags: ['Email Verification'],
       summary: 'Resend email verification',
@@ -453,6 +452,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   
   // Password reset endpoints
   fastify.post('/forgot-password', {
+    config: { rateLimit: 'email' },
     schema: {
       tags: ['Password Reset'],
       summary: 'Request password reset',
@@ -477,6 +477,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   }, forgotPassword);
   
   fastify.get('/reset/:token', {
+    config: { rateLimit: 'auth' },
     schema: {
       tags: ['Password Reset'],
       summary: 'Validate reset token',
@@ -502,6 +503,7 @@ export default async function authRoutes(fastify: FastifyInstance) {
   }, validateResetToken);
   
   fastify.post('/reset-password', {
+    config: { rateLimit: 'auth' },
     schema: {
       tags: ['Password Reset'],
       summary: 'Reset password',
@@ -526,12 +528,147 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   }, resetPassword);
   
+  // Multi-factor authentication endpoints
+  fastify.post('/mfa/enroll', {
+    schema: {
+      tags: ['MFA'],
+      summary: 'Start TOTP enrollment',
+      description: 'Generate a new TOTP secret and otpauth:// URI. MFA stays disabled until confirmed.',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            secret: { type: 'string', description: 'Base32 TOTP secret for manual entry' },
+            otpauth_uri: { type: 'string', description: 'otpauth:// URI to render as a QR code' }
+          }
+        },
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    }
+  }, enrollMfa);
+  
+  fastify.post('/mfa/confirm', {
+    schema: {
+      tags: ['MFA'],
+      summary: 'Confirm TOTP enrollment',
+      description: 'Enable MFA by proving the authenticator app produces valid codes. Returns single-use recovery codes, shown only once.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['code'],
+        properties: {
+          code: { type: 'string', description: '6-digit code from the authenticator app' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            recovery_codes: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        400: ErrorSchema,
+        401: ErrorSchema,
+        409: ErrorSchema
+      }
+    }
+  }, confirmMfa);
+  
+  fastify.post('/mfa/recovery-codes', {
+    schema: {
+      tags: ['MFA'],
+      summary: 'Regenerate recovery codes',
+      description: 'Replace all MFA recovery codes with a new set. Requires the current password.',
+      security: [{ bearerAuth: [] }],
+      body: {
+        type: 'object',
+        required: ['password'],
+        properties: {
+          password: { type: 'string', description: 'Current password' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            recovery_codes: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        400: ErrorSchema,
+        401: ErrorSchema
+      }
+    }
+  }, regenerateRecoveryCodes);
+  
+  fastify.post('/mfa/verify', {
+    config: { rateLimit: 'auth' },
+    schema: {
+      tags: ['MFA'],
+      summary: 'Complete MFA login',
+      description: 'Exchange the MFA challenge token from /auth/login and a TOTP code (or a recovery code) for session tokens',
+      body: {
+        type: 'object',
+        required: ['mfa_token'],
+        properties: {
+          mfa_token: { type: 'string', description: 'Challenge token returned by /auth/login' },
+          code: { type: 'string', description: '6-digit code from the authenticator app' },
+          recovery_code: { type: 'string', description: 'Single-use recovery code, if the authenticator is unavailable' }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            user: {
+              type: 'object',
+              properties: {
+                uid: { type: 'string' },
+                username: { type: 'string' },
+                email: { type: 'string' },
+                email_verified: { type: 'boolean' },
+                created_at: { type: 'string' }
+              }
+            },
+            expires_in: { type: 'number' }
+          }
+        },
+        401: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            locked: { type: 'boolean' },
+            attempts_remaining: { type: 'number' }
+          }
+        },
+        423: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            locked: { type: 'boolean' },
+            attempts_remaining: { type: 'number' }
+          },
+          description: 'Account is locked due to multiple failed login attempts'
+        }
+      }
+    }
+  }, verifyMfa);
+  
   // Health check
   fastify.get('/health', {
     schema: {
       tags: ['Health'],
       summary: 'Service health check',
-      description: 'Check authentication service health',
+      description: 'Static response confirming the authentication routes are mounted. Use /health/ready for dependency checks.',
       response: {
         200: HealthCheckSchema
       }
@@ -0,0 +1,32 @@
+import { FastifyInstance } from 'fastify';
+import { getLiveness, getReadiness } from '../controllers/health';
+import { LivenessSchema, ReadinessSchema } from '../interfaces/auth/common';
+
+export default async function healthRoutes(fastify: FastifyInstance) {
+  // Probes poll constantly from a handful of IPs, so neither counts against the rate limit
+
+  fastify.get('/live', {
+    config: { rateLimit: false },
+    schema: {
+      tags: ['Health'],
+      summary: 'Liveness probe',
+      description: 'Answers as long as the process can serve requests. Checks no dependencies, so a database outage does not get healthy instances restarted.',
+      response: {
+        200: LivenessSchema
+      }
+    }
+  }, getLiveness);
+
+  fastify.get('/ready', {
+    config: { rateLimit: false },
+    schema: {
+      tags: ['Health'],
+      summary: 'Readiness probe',
+      description: 'Checks the database connection and schema version, plus SMTP (when HEALTH_CHECK_SMTP is set) and Vault (when configured). 503 when a required dependency is down; `degraded` (200) when an optional one is down or the schema version is mid-deploy. Results are cached for a few seconds.',
+      response: {
+        200: ReadinessSchema,
+        503: ReadinessSchema
+      }
+    }
+  }, getReadiness);
+}
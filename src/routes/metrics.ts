@@ -0,0 +1,20 @@
+import { FastifyInstance } from 'fastify';
+import { getMetrics } from '../controllers/metrics';
+import { ErrorSchema } from '../interfaces/auth/common';
+
+export default async function metricsRoutes(fastify: FastifyInstance) {
+  // Scraped every few seconds by Prometheus, so it doesn't count against the global rate limit
+  fastify.get('/metrics', {
+    config: { rateLimit: false },
+    schema: {
+      tags: ['Health'],
+      summary: 'Prometheus metrics',
+      description: 'Request, login, registration, token refresh, email, database and rate limit metrics in the Prometheus text format. Requires `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.',
+      security: [{ bearerAuth: [] }],
+      response: {
+        200: { type: 'string', description: 'Prometheus text exposition format' },
+        401: ErrorSchema
+      }
+    }
+  }, getMetrics);
+}
@@ -0,0 +1,39 @@
+import { FastifyInstance } from 'fastify';
+import { getJwks } from '../controllers/auth/jwt';
+import { ErrorSchema } from '../interfaces/auth/common';
+
+export default async function wellKnownRoutes(fastify: FastifyInstance) {
+  // Public signing keys so other services can verify our tokens without the signing secret
+  fastify.get('/jwks.json', {
+    schema: {
+      tags: ['JWT'],
+      summary: 'JSON Web Key Set',
+      description: 'Public keys used to verify access tokens, matched to tokens by their kid header. Empty when tokens are signed with a shared HS256 secret.',
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            keys: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  kty: { type: 'string' },
+                  kid: { type: 'string' },
+                  alg: { type: 'string' },
+                  use: { type: 'string' },
+                  n: { type: 'string' },
+                  e: { type: 'string' },
+                  crv: { type: 'string' },
+                  x: { type: 'string' },
+                  y: { type: 'string' }
+                }
+              }
+            }
+          }
+        },
+        500: ErrorSchema
+      }
+    }
+  }, getJwks);
+}
@@ -0,0 +1,42 @@
+import { dispatchAlert, getAlertSinks, meetsSeverity, type AlertResult } from '../../utils/alerts/dispatcher';
+import { getRequestContext } from '../../utils/requestContext';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { type AuditSeverity } from '../../interfaces/audit';
+
+export interface TestAlertResult {
+  alert_severity: AuditSeverity;
+  results: AlertResult[];
+  skipped: string[];  // configured sinks whose threshold is above the test severity
+}
+
+// Fire a synthetic alert through the real sinks, bypassing deduplication, so an
+// operator can check each one end to end
+export const sendTestAlertService = async (actorUid: string, severity: AuditSeverity): Promise<TestAlertResult> => {
+  const context = getRequestContext();
+
+  const results = await dispatchAlert({
+    timestamp: new Date().toISOString(),
+    type: 'security',
+    severity,
+    message: 'Test alert',
+    userId: actorUid,
+    ip: context?.ip || '[unknown]',
+    userAgent: context?.userAgent?.substring(0, 100) || '[unknown]',
+    details: { note: 'Synthetic alert fired from the admin API; no action needed' },
+    test: true
+  }, { dedupe: false });
+
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'low',
+    message: 'Test alert sent',
+    userId: actorUid,
+    details: { alert_severity: severity, results }
+  });
+
+  return {
+    alert_severity: severity,
+    results,
+    skipped: getAlertSinks().filter(sink => !meetsSeverity(severity, sink.minSeverity)).map(sink => sink.name)
+  };
+};
@@ -0,0 +1,63 @@
+import { readAuditEvents } from '../../database/audit/audit-operations';
+import { verifyAuditChain, type AuditVerification } from '../../database/utils/auditVerify';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { type AuditEventRecord, type AuditEventFilter, type AuditEventType } from '../../interfaces/audit';
+
+export interface AuditQuery extends Omit<AuditEventFilter, 'before_id'> {
+  cursor?: string;
+  limit: number;
+}
+
+export interface AuditPage {
+  events: AuditEventRecord[];
+  next_cursor: string | null; // pass back as `cursor` for the next (older) page
+}
+
+// Cursors are opaque to clients; inside they're just the last event id seen
+const encodeCursor = (id: string): string => Buffer.from(`audit:${id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): string => {
+  const match = Buffer.from(cursor, 'base64url').toString().match(/^audit:(\d+)$/);
+  if (!match) {
+    throw new Error('Invalid cursor');
+  }
+  return match[1];
+};
+
+// Keyset pagination over id, newest first: stable while new events keep arriving
+export const listAuditEventsService = async (query: AuditQuery): Promise<AuditPage> => {
+  const { cursor, limit, ...filter } = query;
+
+  const rows = await readAuditEvents({
+    ...filter,
+    ...(cursor && { before_id: decodeCursor(cursor) })
+  }, limit + 1);
+
+  const events = rows.slice(0, limit);
+  return {
+    events,
+    next_cursor: rows.length > limit ? encodeCursor(events[events.length - 1].id) : null
+  };
+};
+
+// Walk the hash chains. A break means someone edited or removed audit rows
+// behind the application's back, so it's raised as a critical event.
+export const verifyAuditLogService = async (actorUid: string, stream?: AuditEventType): Promise<AuditVerification> => {
+  const result = await verifyAuditChain({ stream });
+  const broken = result.streams.filter(entry => entry.first_break);
+
+  logSecurityEvent({
+    type: 'audit',
+    severity: result.valid ? 'low' : 'critical',
+    message: result.valid ? 'Audit log verified' : 'Audit log tampering detected',
+    userId: actorUid,
+    details: {
+      streams: result.streams.map(entry => entry.stream),
+      ...(broken.length > 0 && {
+        breaks: broken.map(entry => ({ stream: entry.stream, ...entry.first_break }))
+      })
+    }
+  });
+
+  return result;
+};
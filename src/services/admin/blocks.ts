@@ -0,0 +1,42 @@
+import { listRateLimitedClients, clearRateLimits } from '../../utils/rateLimit/limiter';
+import { logSecurityEvent } from '../../utils/secureLogger';
+
+export interface IpBlockView {
+  ip: string;
+  policy: string;
+  attempts: number;
+  limit: number;
+  blocked_until: Date;
+}
+
+// Addresses currently rejected by a rate limit policy. An address over several
+// policies is listed once per policy.
+export const listIpBlocksService = async (): Promise<IpBlockView[]> => {
+  const clients = await listRateLimitedClients();
+
+  return clients.map(client => ({
+    ip: client.client,
+    policy: client.policy,
+    attempts: client.attempts,
+    limit: client.limit,
+    blocked_until: client.blockedUntil
+  }));
+};
+
+export const unblockIpService = async (actorUid: string, ip: string): Promise<string[]> => {
+  const policies = await clearRateLimits(ip);
+
+  if (policies.length === 0) {
+    throw new Error('IP address is not blocked');
+  }
+
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'medium',
+    message: 'IP address unblocked',
+    userId: actorUid,
+    details: { unblocked_ip: ip, policies }
+  });
+
+  return policies;
+};
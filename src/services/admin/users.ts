@@ -0,0 +1,267 @@
+import { User } from '../../interfaces/auth/user';
+import { readUID, readUser, resetLoginAttempts } from '../../database/auth/auth-operations';
+import { executeQuery, update, withTransaction } from '../../database/utils/operations';
+import { decrypt, hash, fieldContext } from '../../utils/crypto';
+import { getRoleName, getRoleId, SUB_ROLE_PERMISSIONS } from '../../utils/auth/roles';
+import { revokeAllUserSessions, revokeUserAccessTokens } from '../../utils/auth/sessionManagement';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { emitWebhookEvent } from '../../utils/webhooks/events';
+
+export type UserStatusFilter = 'active' | 'inactive' | 'banned' | 'shadowbanned' | 'locked';
+
+export interface ListUsersOptions {
+  page: number;
+  limit: number;
+  status?: UserStatusFilter;
+}
+
+export interface AdminUserView {
+  uid: string;
+  username: string;
+  email: string;
+  role: string;
+  sub_roles: string[];
+  is_active: boolean;
+  is_banned: boolean;
+  is_shadowbanned: boolean;
+  ban_reason: string | null;
+  email_verified: boolean;
+  mfa_enabled: boolean;
+  login_attempts: number;
+  locked_until: Date | null;
+  created_at: Date;
+  updated_at: Date | null;
+}
+
+export interface BanOptions {
+  reason: string;
+  shadow?: boolean;
+}
+
+export interface RoleChange {
+  role?: string;
+  sub_roles?: string[];
+}
+
+// Fixed SQL fragments only - never interpolate request values into these
+const STATUS_FILTERS: Record<UserStatusFilter, string> = {
+  active: 'is_active = TRUE',
+  inactive: 'is_active = FALSE',
+  banned: 'is_banned = TRUE',
+  shadowbanned: 'is_shadowbanned = TRUE',
+  locked: 'locked_until > CURRENT_TIMESTAMP'
+};
+
+const toAdminView = async (user: User): Promise<AdminUserView> => ({
+  uid: user.uid,
+  username: await decrypt(user.username, fieldContext('users', 'username', user.uid)),
+  email: await decrypt(user.email, fieldContext('users', 'email', user.uid)),
+  role: await getRoleName(user.role_id),
+  sub_roles: user.sub_roles,
+  is_active: user.is_active,
+  is_banned: user.is_banned,
+  is_shadowbanned: user.is_shadowbanned,
+  ban_reason: user.ban_reason,
+  email_verified: user.email_verified,
+  mfa_enabled: user.mfa_enabled,
+  login_attempts: user.login_attempts,
+  locked_until: user.locked_until,
+  created_at: user.created_at,
+  updated_at: user.updated_at
+});
+
+const requireUser = async (uid: string): Promise<User> => {
+  const user = await readUID<User>('users', uid);
+  if (!user) {
+    throw new Error('User not found');
+  }
+  return user;
+};
+
+const auditAdminAction = (actorUid: string, message: string, targetUid: string, details?: Record<string, any>) => {
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'medium',
+    message,
+    userId: actorUid,
+    targetUid,
+    details
+  });
+};
+
+export const listUsersService = async (options: ListUsersOptions): Promise<{ users: AdminUserView[]; total: number }> => {
+  const where = options.status ? ` WHERE ${STATUS_FILTERS[options.status]}` : '';
+  const offset = (options.page - 1) * options.limit;
+
+  const [rows, countRows] = await Promise.all([
+    executeQuery<User>({
+      text: `SELECT * FROM users${where} ORDER BY id LIMIT $1 OFFSET $2`,
+      values: [options.limit, offset]
+    }),
+    executeQuery<{ total: number }>({
+      text: `SELECT COUNT(*)::int AS total FROM users${where}`
+    })
+  ]);
+
+  return {
+    users: await Promise.all(rows.map(toAdminView)),
+    total: countRows[0]?.total || 0
+  };
+};
+
+// Accounts locked by failed logins, the soonest to unlock last
+export const listLockedAccountsService = async (): Promise<AdminUserView[]> => {
+  const rows = await executeQuery<User>({
+    text: `SELECT * FROM users WHERE ${STATUS_FILTERS.locked} ORDER BY locked_until DESC`
+  });
+  return Promise.all(rows.map(toAdminView));
+};
+
+// Exact-match lookup through the username/email hash columns (the plain values are encrypted)
+export const findUserService = async (username?: string, email?: string): Promise<AdminUserView | null> => {
+  const user = await readUser<User>(
+    username ? hash(username) : undefined,
+    email ? hash(email) : undefined
+  );
+  return user ? toAdminView(user) : null;
+};
+
+export const getUserService = async (uid: string): Promise<AdminUserView> => {
+  return toAdminView(await requireUser(uid));
+};
+
+export const banUserService = async (actorUid: string, uid: string, options: BanOptions): Promise<AdminUserView> => {
+  const user = await requireUser(uid);
+
+  if (uid === actorUid) {
+    throw new Error('Administrators cannot ban themselves');
+  }
+
+  // A shadowbanned user keeps logging in normally; a full ban blocks login and ends sessions
+  const updated = await withTransaction(async () => {
+    const banned = await update<User>('users', user.id, {
+      ...(options.shadow ? { is_shadowbanned: true } : { is_banned: true }),
+      ban_reason: options.reason,
+      updated_at: new Date()
+    });
+    await emitWebhookEvent('user.banned', { user_uid: uid, shadow: !!options.shadow });
+    return banned;
+  });
+
+  let revokedSessions = 0;
+  if (!options.shadow) {
+    revokedSessions = await revokeAllUserSessions(uid);
+  }
+
+  auditAdminAction(actorUid, options.shadow ? 'User shadowbanned' : 'User banned', uid, {
+    reason: options.reason,
+    revoked_sessions: revokedSessions
+  });
+
+  return toAdminView(updated);
+};
+
+export const unbanUserService = async (actorUid: string, uid: string): Promise<AdminUserView> => {
+  const user = await requireUser(uid);
+
+  const updated = await update<User>('users', user.id, {
+    is_banned: false,
+    is_shadowbanned: false,
+    ban_reason: null,
+    updated_at: new Date()
+  });
+
+  auditAdminAction(actorUid, 'User unbanned', uid);
+
+  return toAdminView(updated);
+};
+
+export const unlockUserService = async (actorUid: string, uid: string): Promise<AdminUserView> => {
+  const user = await requireUser(uid);
+
+  await resetLoginAttempts(user.username_hash);
+
+  auditAdminAction(actorUid, 'User account unlocked', uid, {
+    previous_attempts: user.login_attempts,
+    previous_locked_until: user.locked_until
+  });
+
+  return getUserService(uid);
+};
+
+export const changeUserRoleService = async (actorUid: string, uid: string, change: RoleChange): Promise<AdminUserView> => {
+  const user = await requireUser(uid);
+  const updateData: Record<string, any> = { updated_at: new Date() };
+
+  if (change.role !== undefined) {
+    const roleId = await getRoleId(change.role);
+    if (!roleId) {
+      throw new Error(`Unknown role: ${change.role}`);
+    }
+    if (uid === actorUid && change.role !== 'admin') {
+      throw new Error('Administrators cannot remove their own admin role');
+    }
+    updateData.role_id = roleId;
+  }
+
+  if (change.sub_roles !== undefined) {
+    const unknown = change.sub_roles.filter(subRole => !SUB_ROLE_PERMISSIONS[subRole]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown sub-role(s): ${unknown.join(', ')}`);
+    }
+    // JSONB column - pg would otherwise serialize the array as a Postgres array literal
+    updateData.sub_roles = JSON.stringify(Array.from(new Set(change.sub_roles)));
+  }
+
+  const updated = await update<User>('users', user.id, updateData);
+
+  // Access tokens carry the role claims, so a demoted user must not keep using them.
+  // Sessions survive; the next refresh issues tokens with the new claims.
+  const revokedTokens = await revokeUserAccessTokens(uid);
+
+  auditAdminAction(actorUid, 'User role changed', uid, {
+    previous_role: await getRoleName(user.role_id),
+    previous_sub_roles: user.sub_roles,
+    role: change.role,
+    sub_roles: change.sub_roles,
+    revoked_access_tokens: revokedTokens
+  });
+
+  return toAdminView(updated);
+};
+
+export const setUserActiveService = async (actorUid: string, uid: string, active: boolean): Promise<AdminUserView> => {
+  const user = await requireUser(uid);
+
+  if (uid === actorUid && !active) {
+    throw new Error('Administrators cannot deactivate themselves');
+  }
+
+  const updated = await update<User>('users', user.id, {
+    is_active: active,
+    updated_at: new Date()
+  });
+
+  let revokedSessions = 0;
+  if (!active) {
+    revokedSessions = await revokeAllUserSessions(uid);
+  }
+
+  auditAdminAction(actorUid, active ? 'User reactivated' : 'User deactivated', uid, {
+    revoked_sessions: revokedSessions
+  });
+
+  return toAdminView(updated);
+};
+
+export const revokeUserSessionsService = async (actorUid: string, uid: string): Promise<number> => {
+  await requireUser(uid);
+
+  const revokedCount = await revokeAllUserSessions(uid);
+
+  auditAdminAction(actorUid, 'User sessions revoked by administrator', uid, {
+    revoked_sessions: revokedCount
+  });
+
+  return revokedCount;
+};
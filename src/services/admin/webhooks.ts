@@ -0,0 +1,184 @@
+import { randomBytes, randomUUID } from 'crypto';
+import {
+  insertWebhookEndpoint,
+  readWebhookEndpoints,
+  readWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  readWebhookDeliveries,
+  type WebhookEndpointChanges
+} from '../../database/webhooks/webhook-operations';
+import { encrypt, fieldContext } from '../../utils/crypto';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { NODE_ENV } from '../../config/environment';
+import {
+  WEBHOOK_EVENT_TYPES,
+  type WebhookEndpoint,
+  type WebhookEventType,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus
+} from '../../interfaces/webhook';
+
+export interface WebhookEndpointView {
+  uid: string;
+  url: string;
+  description: string | null;
+  event_types: WebhookEventType[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date | null;
+}
+
+export interface WebhookInput {
+  url: string;
+  description?: string;
+  event_types: string[];
+}
+
+export interface WebhookDeliveryQuery {
+  status?: WebhookDeliveryStatus;
+  cursor?: string;
+  limit: number;
+}
+
+export interface WebhookDeliveryPage {
+  deliveries: WebhookDelivery[];
+  next_cursor: string | null;
+}
+
+// The signing secret never leaves the service after creation
+const toView = (endpoint: WebhookEndpoint): WebhookEndpointView => ({
+  uid: endpoint.uid,
+  url: endpoint.url,
+  description: endpoint.description,
+  event_types: endpoint.event_types,
+  is_active: endpoint.is_active,
+  created_by: endpoint.created_by,
+  created_at: endpoint.created_at,
+  updated_at: endpoint.updated_at
+});
+
+const auditWebhookAction = (actorUid: string, message: string, details: Record<string, any>) => {
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'medium',
+    message,
+    userId: actorUid,
+    details
+  });
+};
+
+// Plain http is only allowed outside production, for local receivers
+const validateUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error('Invalid webhook URL');
+  }
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && NODE_ENV !== 'production')) {
+    throw new Error('Invalid webhook URL');
+  }
+  return parsed.toString();
+};
+
+const validateEventTypes = (types: string[]): WebhookEventType[] => {
+  const unknown = types.filter(type => !WEBHOOK_EVENT_TYPES.includes(type as WebhookEventType));
+  if (types.length === 0 || unknown.length > 0) {
+    throw new Error('Unknown webhook event type');
+  }
+  return Array.from(new Set(types)) as WebhookEventType[];
+};
+
+const requireEndpoint = async (uid: string): Promise<WebhookEndpoint> => {
+  const endpoint = await readWebhookEndpoint(uid);
+  if (!endpoint) {
+    throw new Error('Webhook not found');
+  }
+  return endpoint;
+};
+
+const encodeCursor = (id: string): string => Buffer.from(`delivery:${id}`).toString('base64url');
+
+const decodeCursor = (cursor: string): string => {
+  const match = Buffer.from(cursor, 'base64url').toString().match(/^delivery:(\d+)$/);
+  if (!match) {
+    throw new Error('Invalid cursor');
+  }
+  return match[1];
+};
+
+export const listWebhooksService = async (): Promise<WebhookEndpointView[]> => {
+  return (await readWebhookEndpoints()).map(toView);
+};
+
+// Returns the signing secret; this is the only time it is shown
+export const createWebhookService = async (
+  actorUid: string,
+  input: WebhookInput
+): Promise<{ webhook: WebhookEndpointView; secret: string }> => {
+  const url = validateUrl(input.url);
+  const eventTypes = validateEventTypes(input.event_types);
+  const uid = randomUUID();
+  const secret = `whsec_${randomBytes(32).toString('base64url')}`;
+
+  const endpoint = await insertWebhookEndpoint({
+    uid,
+    url,
+    description: input.description || null,
+    event_types: eventTypes,
+    secret: await encrypt(secret, fieldContext('webhook_endpoints', 'secret', uid)),
+    created_by: actorUid
+  });
+
+  auditWebhookAction(actorUid, 'Webhook created', { webhook_uid: uid, url, event_types: eventTypes });
+
+  return { webhook: toView(endpoint), secret };
+};
+
+export const updateWebhookService = async (
+  actorUid: string,
+  uid: string,
+  input: Partial<WebhookInput> & { is_active?: boolean }
+): Promise<WebhookEndpointView> => {
+  const changes: WebhookEndpointChanges = {
+    ...(input.url !== undefined && { url: validateUrl(input.url) }),
+    ...(input.description !== undefined && { description: input.description || null }),
+    ...(input.event_types !== undefined && { event_types: validateEventTypes(input.event_types) }),
+    ...(input.is_active !== undefined && { is_active: input.is_active })
+  };
+
+  const updated = await updateWebhookEndpoint(uid, changes);
+  if (!updated) {
+    throw new Error('Webhook not found');
+  }
+
+  auditWebhookAction(actorUid, 'Webhook updated', { webhook_uid: uid, changes });
+
+  return toView(updated);
+};
+
+export const deleteWebhookService = async (actorUid: string, uid: string): Promise<void> => {
+  if (!(await deleteWebhookEndpoint(uid))) {
+    throw new Error('Webhook not found');
+  }
+
+  auditWebhookAction(actorUid, 'Webhook deleted', { webhook_uid: uid });
+};
+
+// Delivery log for one endpoint, newest first
+export const listWebhookDeliveriesService = async (uid: string, query: WebhookDeliveryQuery): Promise<WebhookDeliveryPage> => {
+  const endpoint = await requireEndpoint(uid);
+
+  const rows = await readWebhookDeliveries(endpoint.id, {
+    status: query.status,
+    ...(query.cursor && { before_id: decodeCursor(query.cursor) })
+  }, query.limit + 1);
+
+  const deliveries = rows.slice(0, query.limit);
+  return {
+    deliveries,
+    next_cursor: rows.length > query.limit ? encodeCursor(deliveries[deliveries.length - 1].id) : null
+  };
+};
@@ -4,57 +4,15 @@ import { hash } from '../../utils/crypto';
 import { verifyPassword } from '../../utils/auth/authEncryption';
 import { createUser, updateUserLoginHistory } from '../../utils/auth/userManagement';
 import { createUserSession } from '../../utils/auth/sessionManagement';
-import { createJWT, generateRefreshToken } from '../../utils/auth/authEncryption';
+import { createJWT, generateRefreshToken, createMfaChallengeToken, MFA_CHALLENGE_TTL_SECONDS } from '../../utils/auth/authEncryption';
 import { sendEmailVerificationEmail } from './email';
 import { generateVerificationToken } from './emailVerification';
-import { logError, logSecurityEvent, logAuthEvent } from '../../utils/secureLogger';
-
-// IP-based rate limiting
-const ipAttempts = new Map<string, { attempts: number; lastAttempt: number; blocked: boolean }>();
-const IP_BLOCK_DURATION = 15 * 60 * 1000; // 15 minutes
-const MAX_IP_ATTEMPTS = 20;
-
-function checkIPRateLimit(ip?: string): boolean {
-  if (!ip) return true; // Allow if no IP provided
-  
-  const now = Date.now();
-  const ipData = ipAttempts.get(ip);
-  
-  if (!ipData) {
-    ipAttempts.set(ip, { attempts: 1, lastAttempt: now, blocked: false });
-    return true;
-  }
-  
-  // Reset if enough time has passed
-  if (now - ipData.lastAttempt > IP_BLOCK_DURATION) {
-    ipAttempts.set(ip, { attempts: 1, lastAttempt: now, blocked: false });
-    return true;
-  }
-  
-  // Check if blocked
-  if (ipData.blocked) {
-    return false;
-  }
-  
-  // Increment attempts
-  ipData.attempts++;
-  ipData.lastAttempt = now;
-  
-    // Block if too many attempts
-    if (ipData.attempts > MAX_IP_ATTEMPTS) {
-      ipData.blocked = true;
-      logSecurityEvent({
-        type: 'security',
-        severity: 'high',
-        message: 'IP blocked due to excessive login attempts',
-        ip,
-        details: { attempts: ipData.attempts, duration: IP_BLOCK_DURATION }
-      });
-      return false;
-    }
-  
-  return true;
-}
+import { buildAccessClaims } from '../../utils/auth/roles';
+import { logError, logSecurityEvent } from '../../utils/secureLogger';
+import { withTransaction } from '../../database/utils/operations';
+import { emitWebhookEvent } from '../../utils/webhooks/events';
+import { withSpan, traced } from '../../utils/tracing';
+import { loginAttemptsTotal, accountLockoutsTotal, registrationsTotal, type LoginOutcome, type RegistrationOutcome } from '../../utils/metrics/instruments';
 
 // Helper function to enforce minimum response time
 async function enforceMinimumResponseTime(startTime: number, minTime: number): Promise<void> {
@@ -62,11 +20,75 @@ async function enforceMinimumResponseTime(startTime: number, minTime: number): P
   const remaining = minTime - elapsed;
   
   if (remaining > 0) {
-    await new Promise(resolve => setTimeout(resolve, remaining));
+    await withSpan('auth.minimum_response_time', () => new Promise(resolve => setTimeout(resolve, remaining)));
   }
 }
 
-export const loginService = async (username: string, password: string, login_ip?: string, user_agent?: string) => {
+export interface LoginSession {
+  success: true;
+  user_uid: string;
+  user: {
+    uid: string;
+    username: string;
+    email: string;
+    email_verified: boolean;
+    created_at: Date;
+    first_name?: string | null;
+    last_name?: string | null;
+  };
+  access_token: string;
+  refresh_token: string;
+  expires_in: number;
+}
+
+export interface LoginFailure {
+  error: string;
+  locked: boolean;
+  locked_until?: Date | null;
+  attempts_remaining?: number;
+  warning?: string;
+  ban_reason?: string;
+}
+
+export interface MfaChallenge {
+  success: true;
+  mfa_required: true;
+  user_uid: string;
+  mfa_token: string;
+  expires_in: number;
+}
+
+// Flattened view of every login outcome, which is how the controller consumes it
+export type LoginResult = Partial<LoginSession> & Partial<LoginFailure> & Partial<MfaChallenge>;
+
+// Create a session for a fully authenticated user and build the login response
+export const issueLoginSession = traced('issueLoginSession', async (user: User, login_ip?: string, user_agent?: string): Promise<LoginSession> => {
+  const rt = generateRefreshToken(user.uid);
+  const jwt = createJWT(user.uid, await buildAccessClaims(user));
+  const session = await createUserSession(user.uid, rt, jwt, login_ip, user_agent) as UserSession;
+
+  // Decrypt user data for response
+  const { decrypt, fieldContext } = await import('../../utils/crypto');
+  const decryptedUsername = await decrypt(user.username, fieldContext('users', 'username', user.uid));
+  const decryptedEmail = await decrypt(user.email, fieldContext('users', 'email', user.uid));
+
+  return {
+    success: true,
+    user_uid: user.uid,
+    user: {
+      uid: user.uid,
+      username: decryptedUsername,
+      email: decryptedEmail,
+      email_verified: user.email_verified,
+      created_at: user.created_at
+    },
+    access_token: jwt,
+    refresh_token: rt,
+    expires_in: Math.floor((session.session_expires_at.getTime() - Date.now()) / 1000)
+  };
+});
+
+export const loginService = traced('loginService', async (username: string, password: string, login_ip?: string, user_agent?: string): Promise<LoginResult> => {
   const MAX_LOGIN_ATTEMPTS = 5;
   const LOCK_DURATION_MINUTES = 30;
   
@@ -75,15 +97,6 @@ export const loginService = async (username: string, password: string, login_ip?
   const MIN_RESPONSE_TIME = 200; // Minimum 200ms response time
   
   try {
-    // Check IP rate limiting first
-    if (!checkIPRateLimit(login_ip)) {
-      await enforceMinimumResponseTime(startTime, MIN_RESPONSE_TIME);
-      return { 
-        error: 'Too many login attempts from this IP address. Please try again later.',
-        locked: true 
-      };
-    }
-    
     const usernameHash = hash(username);
     
     // Always perform user lookup AND password verification to prevent timing attacks
@@ -93,25 +106,25 @@ export const loginService = async (username: string, password: string, login_ip?
     
     // Always do these operations regardless of user existence
     const [userCheckResult, dummyPasswordCheck] = await Promise.all([
-      (async () => {
+      withSpan('auth.lookup_user', async () => {
         const exists = await userExists(usernameHash);
         if (exists) {
           user = await readUser(usernameHash) as User;
           return true;
         }
         return false;
-      })(),
+      }),
       // Always perform password verification against dummy hash to prevent timing attacks
-      import('bcryptjs').then(bcrypt => 
+      withSpan('bcrypt.compare (dummy)', () => import('bcryptjs').then(bcrypt => 
         bcrypt.compare(password, '$2b$14$dummy.hash.to.prevent.timing.attacks.abcdefghijklmnopqrstuvwxyz')
-      )
+      ))
     ]);
     
     userExistsResult = userCheckResult;
     
     // If user exists, verify password
     if (user && user.password_hash) {
-      passwordValid = await verifyPassword(password, user.password_hash);
+      passwordValid = await verifyPassword(password, user.password_hash, user.uid);
     }
     
     // Process all security checks before returning
@@ -157,6 +170,16 @@ export const loginService = async (username: string, password: string, login_ip?
         // Lock account if max attempts reached
         if (currentAttempts >= MAX_LOGIN_ATTEMPTS) {
           await lockUserAccount(usernameHash, LOCK_DURATION_MINUTES);
+          accountLockoutsTotal.inc();
+          logSecurityEvent({
+            type: 'security',
+            severity: 'high',
+            message: 'Account locked after repeated failed logins',
+            userId: (user as User).uid,
+            ip: login_ip,
+            userAgent: user_agent,
+            details: { attempts: currentAttempts, lock_minutes: LOCK_DURATION_MINUTES }
+          });
           isLocked = true;
           lockInfo = {
             attempts_remaining: 0
@@ -172,10 +195,28 @@ export const loginService = async (username: string, password: string, login_ip?
       }
     }
     
+    if (!shouldProceed) {
+      // Unknown usernames are recorded without the name itself
+      logSecurityEvent({
+        type: 'auth',
+        severity: 'medium',
+        message: 'Login failed',
+        userId: (user as User | null)?.uid,
+        ip: login_ip,
+        userAgent: user_agent,
+        details: { reason: user ? errorMessage : 'Unknown user' }
+      });
+    }
+    
     // Enforce minimum response time before returning
     await enforceMinimumResponseTime(startTime, MIN_RESPONSE_TIME);
     
     if (!shouldProceed) {
+      const outcome: LoginOutcome = isLocked ? 'locked'
+        : errorMessage === 'Account is deactivated' ? 'deactivated'
+        : errorMessage === 'Account is banned' ? 'banned'
+        : 'invalid_credentials';
+      loginAttemptsTotal.inc({ outcome });
       return {
         error: errorMessage,
         locked: isLocked,
@@ -183,42 +224,53 @@ export const loginService = async (username: string, password: string, login_ip?
       };
     }
     
+    // Password is correct but a second factor is required - don't issue tokens yet.
+    // Login attempts are only reset once the second factor succeeds, otherwise the
+    // password step could be used to reset the counter between code guesses.
+    if (user!.mfa_enabled) {
+      loginAttemptsTotal.inc({ outcome: 'mfa_required' });
+      return {
+        success: true,
+        mfa_required: true,
+        user_uid: user!.uid,
+        mfa_token: createMfaChallengeToken(user!.uid),
+        expires_in: MFA_CHALLENGE_TTL_SECONDS
+      };
+    }
+    
     // Successful login - reset login attempts
     await resetLoginAttempts(usernameHash);
     
-    // Create session and tokens
-    const rt = generateRefreshToken(user!.uid);
-    const jwt = createJWT(user!.uid);
-    const session = await createUserSession(user!.uid, rt, jwt) as UserSession;
-
-    // Decrypt user data for response
-    const { decrypt } = await import('../../utils/crypto');
-    const decryptedUsername = await decrypt(user!.username);
-    const decryptedEmail = await decrypt(user!.email);
-
-    return {
-      success: true,
-      user_uid: user!.uid,
-      user: {
-        uid: user!.uid,
-        username: decryptedUsername,
-        email: decryptedEmail,
-        email_verified: user!.email_verified,
-        created_at: user!.created_at
-      },
-      access_token: jwt,
-      refresh_token: rt,
-      expires_in: Math.floor((session.session_expires_at.getTime() - Date.now()) / 1000)
-    };
+    logSecurityEvent({
+      type: 'auth',
+      severity: 'low',
+      message: 'Login succeeded',
+      userId: user!.uid,
+      ip: login_ip,
+      userAgent: user_agent,
+      details: { method: 'password' }
+    });
+    
+    const session = await issueLoginSession(user!, login_ip, user_agent);
+    loginAttemptsTotal.inc({ outcome: 'success' });
+    return session;
 
   } catch (err) {
     logError('Login service error', err);
+    loginAttemptsTotal.inc({ outcome: 'error' });
     await enforceMinimumResponseTime(startTime, MIN_RESPONSE_TIME);
     return { error: 'Login failed due to server error', locked: false };
   }
-};
+});
 
-export const registerService = async (user: Partial<User>, request: Partial<UserLoginHistory>) => {
+function registrationOutcome(err: unknown): RegistrationOutcome {
+  const message = err instanceof Error ? err.message : '';
+  if (message === 'Email or username already exists') return 'conflict';
+  if (message === 'Missing fields' || message.endsWith('is greater than 32') || message.endsWith('is greater than 64')) return 'invalid';
+  return 'error';
+}
+
+export const registerService = traced('registerService', async (user: Partial<User>, request: Partial<UserLoginHistory>) => {
   try {
     if (!user.username || !user.email || !user.password_hash) {
       throw new Error('Missing fields');
@@ -229,16 +281,30 @@ export const registerService = async (user: Partial<User>, request: Partial<User
     if (user.email.length > 64) {
       throw new Error('Email length is greater than 64');
     }
-    // Note: password_hash is encrypted, so length validation is not applicable
+    // Note: password_hash is a bcrypt hash, so length validation is not applicable
     // Password length validation should be done on the plain text password in the controller
     if (await userExists(hash(user.username), hash(user.email))) {
       throw new Error('Email or username already exists');
     }
     
-    const uid = (await createUser(user) as Partial<User>).uid;
+    const createdUser = await withTransaction(async () => {
+      const created = await createUser(user);
+      await emitWebhookEvent('user.registered', { user_uid: created.uid });
+      return created;
+    });
+    const uid = createdUser.uid;
     if (uid) {
       updateUserLoginHistory(uid, request);
       
+      logSecurityEvent({
+        type: 'audit',
+        severity: 'low',
+        message: 'User registered',
+        userId: uid,
+        ip: request.login_ip ?? undefined,
+        userAgent: request.user_agent ?? undefined
+      });
+      
       // Generate email verification token
       const verificationToken = generateVerificationToken();
       const verificationExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
@@ -270,9 +336,10 @@ export const registerService = async (user: Partial<User>, request: Partial<User
       }
       
       const rt = generateRefreshToken(uid);
-      const jwt = createJWT(uid);
-      const session = await createUserSession(uid, rt, jwt) as UserSession;
+      const jwt = createJWT(uid, await buildAccessClaims(createdUser));
+      const session = await createUserSession(uid, rt, jwt, request.login_ip ?? undefined, request.user_agent ?? undefined) as UserSession;
 
+      registrationsTotal.inc({ outcome: 'success' });
       return {
         user_uid: session.user_uid, 
         access_token: jwt,
@@ -286,9 +353,10 @@ export const registerService = async (user: Partial<User>, request: Partial<User
 
   } catch (err) {
     logError('Registration error', err);
+    registrationsTotal.inc({ outcome: registrationOutcome(err) });
     if (err instanceof Error) {
       throw err;
     }
     throw new Error('Registration failed');
   }
-};
\ No newline at end of file
+});
\ No newline at end of file
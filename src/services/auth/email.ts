@@ -1,5 +1,11 @@
 import nodemailer from 'nodemailer';
+import { SpanKind } from '@opentelemetry/api';
+import { ATTR_SERVER_ADDRESS, ATTR_SERVER_PORT } from '@opentelemetry/semantic-conventions';
 import { SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, BACKEND_API_URL, TEST_EMAIL_RECIPIENT } from '../../config/environment';
+import type { SecurityAlert } from '../../utils/alerts/sinks';
+import { getLogger } from '../../utils/logger';
+import { emailsTotal, emailSendDuration } from '../../utils/metrics/instruments';
+import { withSpan } from '../../utils/tracing';
 
 export interface EmailOptions {
   to: string;
@@ -20,6 +26,14 @@ export interface EmailVerificationData {
   username: string;
 }
 
+export interface SessionRevokedEmailData {
+  email: string;
+  username: string;
+  detectedAt: Date;
+  ip?: string;
+  userAgent?: string;
+}
+
 // Create transporter
 const createTransporter = () => {
   if (!SMTP_HOST || !SMTP_USER || !SMTP_PASS) {
@@ -48,7 +62,7 @@ export const testEmailConnection = async (): Promise<{ success: boolean; error?:
     await transporter.verify();
     return { success: true };
   } catch (error) {
-    console.error('Email configuration test failed:', error);
+    getLogger().error({ err: error }, 'Email configuration test failed');
     return { 
       success: false, 
       error: error instanceof Error ? error.message : 'Unknown error' 
@@ -62,7 +76,8 @@ export const sendEmail = async (options: EmailOptions): Promise<{ success: boole
     // In test mode, mock email sending to avoid SMTP delays/timeouts
     if (process.env.NODE_ENV === 'test' || process.env.TEST_MODE === 'true') {
       // Mock email sending in test mode
-      console.log('Mock email sent in test mode to:', options.to);
+      getLogger().info({ to: options.to }, 'Mock email sent in test mode');
+      emailsTotal.inc({ outcome: 'mocked' });
       return { success: true };
     }
     
@@ -77,12 +92,22 @@ export const sendEmail = async (options: EmailOptions): Promise<{ success: boole
         text: options.text || options.html.replace(/<[^>]*>/g, ''),
       };
 
-      const info = await transporter.sendMail(mailOptions);
-      console.log('Email sent successfully:', info.messageId);
+      const endTimer = emailSendDuration.startTimer();
+      const info = await withSpan('smtp send', () => transporter.sendMail(mailOptions), {
+        kind: SpanKind.CLIENT,
+        attributes: { [ATTR_SERVER_ADDRESS]: SMTP_HOST, [ATTR_SERVER_PORT]: SMTP_PORT }
+      }).catch(error => {
+        endTimer({ outcome: 'failed' });
+        throw error;
+      });
+      endTimer({ outcome: 'sent' });
+      emailsTotal.inc({ outcome: 'sent' });
+      getLogger().info({ messageId: info.messageId }, 'Email sent successfully');
       return { success: true };
     }
   } catch (error) {
-    console.error('Failed to send email:', error);
+    getLogger().error({ err: error }, 'Failed to send email');
+    emailsTotal.inc({ outcome: 'failed' });
     return { 
       success: false, 
       error: error instanceof Error ? error.message : 'Unknown error' 
@@ -256,6 +281,150 @@ export const generateEmailVerificationEmail = (data: EmailVerificationData): Ema
   };
 };
 
+// Alert sent when a refresh token is replayed and its session has been signed out
+export const generateSessionRevokedEmail = (data: SessionRevokedEmailData): EmailOptions => {
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Suspicious Sign-In Activity</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background-color: #ffffff; padding: 30px; border: 1px solid #dee2e6; }
+            .footer { background-color: #f8f9fa; padding: 20px; text-align: center; font-size: 12px; color: #6c757d; border-radius: 0 0 8px 8px; }
+            .warning { background-color: #fff3cd; border: 1px solid #ffeeba; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        </style>
+    </head>
+    <body>
+        <div class="header">
+            <h1>Hofflabs API</h1>
+            <h2>Suspicious Sign-In Activity</h2>
+        </div>
+        <div class="content">
+            <p>Hello ${data.username},</p>
+            <p>On ${data.detectedAt.toUTCString()} an old sign-in token for your Hofflabs API account was used again after it had already been replaced. This can mean the token was copied from one of your devices.</p>
+            <p>To protect your account we signed that session out. You will need to sign in again on the affected device.</p>
+            
+            <div class="warning">
+                <strong>Details:</strong>
+                <ul>
+                    <li>IP address: ${data.ip || 'unknown'}</li>
+                    <li>Device: ${data.userAgent || 'unknown'}</li>
+                </ul>
+            </div>
+            
+            <p>If you don't recognise this activity, change your password and review your active sessions.</p>
+        </div>
+        <div class="footer">
+            <p>This email was sent from Hofflabs API. If you have questions, please contact our support team.</p>
+            <p>&copy; ${new Date().getFullYear()} Hofflabs. All rights reserved.</p>
+        </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+    Hofflabs API - Suspicious Sign-In Activity
+    
+    Hello ${data.username},
+    
+    On ${data.detectedAt.toUTCString()} an old sign-in token for your Hofflabs API account was used again after it had already been replaced. This can mean the token was copied from one of your devices.
+    
+    To protect your account we signed that session out. You will need to sign in again on the affected device.
+    
+    Details:
+    - IP address: ${data.ip || 'unknown'}
+    - Device: ${data.userAgent || 'unknown'}
+    
+    If you don't recognise this activity, change your password and review your active sessions.
+    
+    © ${new Date().getFullYear()} Hofflabs. All rights reserved.
+  `;
+
+  return {
+    to: data.email,
+    subject: 'Suspicious Sign-In Activity - Hofflabs API',
+    html,
+    text
+  };
+};
+
+// Alert values can come from requests (user agents, URLs), so escape them
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// Security alert email for operators; recipients are set by the alert sink
+export const generateSecurityAlertEmail = (alert: SecurityAlert, summary: string): EmailOptions => {
+  const details = alert.details ? JSON.stringify(alert.details, null, 2) : 'none';
+  const rows: Array<[string, string]> = [
+    ['Time', alert.timestamp],
+    ['Type', alert.type],
+    ['Severity', alert.severity],
+    ['User', alert.userId],
+    ...(alert.targetUid ? [['Target user', alert.targetUid] as [string, string]] : []),
+    ['IP address', alert.ip],
+    ['User agent', alert.userAgent],
+    ['Alert id', alert.id]
+  ];
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Security Alert</title>
+        <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background-color: #f8d7da; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background-color: #ffffff; padding: 30px; border: 1px solid #dee2e6; }
+            .footer { background-color: #f8f9fa; padding: 20px; text-align: center; font-size: 12px; color: #6c757d; border-radius: 0 0 8px 8px; }
+            .details { background-color: #f8f9fa; padding: 10px; border-radius: 5px; font-family: monospace; white-space: pre-wrap; word-break: break-all; }
+            td { padding: 4px 12px 4px 0; vertical-align: top; }
+        </style>
+    </head>
+    <body>
+        <div class="header">
+            <h1>Hofflabs API</h1>
+            <h2>Security Alert</h2>
+        </div>
+        <div class="content">
+            <p><strong>${escapeHtml(summary)}</strong></p>
+            <table>
+                ${rows.map(([label, value]) => `<tr><td>${label}</td><td>${escapeHtml(value)}</td></tr>`).join('\n                ')}
+            </table>
+            <p>Details:</p>
+            <div class="details">${escapeHtml(details)}</div>
+        </div>
+        <div class="footer">
+            <p>This alert was sent by the Hofflabs API security logger.</p>
+        </div>
+    </body>
+    </html>
+  `;
+
+  const text = `
+    Hofflabs API - Security Alert
+
+    ${summary}
+
+    ${rows.map(([label, value]) => `${label}: ${value}`).join('\n    ')}
+
+    Details:
+    ${details}
+  `;
+
+  return {
+    to: '',
+    subject: `Security Alert: ${summary}`,
+    html,
+    text
+  };
+};
+
 // Send password reset email
 export const sendPasswordResetEmail = async (data: PasswordResetEmailData): Promise<{ success: boolean; error?: string }> => {
   const emailOptions = generatePasswordResetEmail(data);
@@ -279,3 +448,15 @@ export const sendEmailVerificationEmail = async (data: EmailVerificationData): P
   
   return await sendEmail(emailOptions);
 };
+
+// Send session revoked alert email
+export const sendSessionRevokedEmail = async (data: SessionRevokedEmailData): Promise<{ success: boolean; error?: string }> => {
+  const emailOptions = generateSessionRevokedEmail(data);
+  
+  // In test mode, redirect emails to configured test recipient
+  if (process.env.NODE_ENV === 'test' || process.env.TEST_MODE === 'true') {
+    emailOptions.to = TEST_EMAIL_RECIPIENT;
+  }
+  
+  return await sendEmail(emailOptions);
+};
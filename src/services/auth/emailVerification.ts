@@ -1,8 +1,11 @@
 import { User } from '../../interfaces/auth/user';
-import { readSelect, update } from '../../database/utils/operations';
+import { readSelect, update, withTransaction } from '../../database/utils/operations';
 import { hash } from '../../utils/crypto';
 import { randomBytes } from 'crypto';
 import { sendEmailVerificationEmail } from './email';
+import { emitWebhookEvent } from '../../utils/webhooks/events';
+import { getLogger } from '../../utils/logger';
+import { traced } from '../../utils/tracing';
 
 export interface EmailVerificationRequest {
   email: string;
@@ -18,7 +21,7 @@ export const generateVerificationToken = (): string => {
   return randomBytes(32).toString('hex');
 };
 
-export const sendVerificationEmailService = async (email: string): Promise<{ success: boolean; message: string }> => {
+export const sendVerificationEmailService = traced('sendVerificationEmailService', async (email: string): Promise<{ success: boolean; message: string }> => {
   try {
     // Find user by email hash
     const emailHash = hash(email);
@@ -69,7 +72,7 @@ export const sendVerificationEmailService = async (email: string): Promise<{ suc
     });
 
     if (!emailResult.success) {
-      console.error('Failed to send verification email:', emailResult.error);
+      getLogger().error({ error: emailResult.error }, 'Failed to send verification email');
       return {
         success: false,
         message: 'Failed to send verification email. Please try again later.'
@@ -81,13 +84,13 @@ export const sendVerificationEmailService = async (email: string): Promise<{ suc
       message: 'Verification email sent successfully.'
     };
   } catch (error) {
-    console.error('Send verification email service error:', error);
+    getLogger().error({ err: error }, 'Send verification email service error');
     return { 
       success: false,
       message: 'Failed to send verification email. Please try again later.' 
     };
   }
-};
+});
 
 export const validateVerificationTokenService = async (token: string): Promise<{ valid: boolean; message: string; user?: User }> => {
   try {
@@ -127,12 +130,12 @@ export const validateVerificationTokenService = async (token: string): Promise<{
 
     return { valid: true, message: 'Verification token is valid', user };
   } catch (error) {
-    console.error('Validate verification token service error:', error);
+    getLogger().error({ err: error }, 'Validate verification token service error');
     return { valid: false, message: 'Invalid or expired verification token' };
   }
 };
 
-export const verifyEmailService = async (token: string): Promise<{ success: boolean; message: string }> => {
+export const verifyEmailService = traced('verifyEmailService', async (token: string): Promise<{ success: boolean; message: string }> => {
   try {
     // Validate token first
     const tokenValidation = await validateVerificationTokenService(token);
@@ -143,19 +146,22 @@ export const verifyEmailService = async (token: string): Promise<{ success: bool
     const user = tokenValidation.user;
 
     // Update user to mark email as verified and clear verification token
-    await update<User>('users', user.id, {
-      email_verified: true,
-      email_verification_token: null,
-      email_verification_expires: null,
-      updated_at: new Date()
+    await withTransaction(async () => {
+      await update<User>('users', user.id, {
+        email_verified: true,
+        email_verification_token: null,
+        email_verification_expires: null,
+        updated_at: new Date()
+      });
+      await emitWebhookEvent('user.email_verified', { user_uid: user.uid });
     });
 
     return { success: true, message: 'Email verified successfully! You can now access all features.' };
   } catch (error) {
-    console.error('Verify email service error:', error);
+    getLogger().error({ err: error }, 'Verify email service error');
     return { success: false, message: 'Failed to verify email. Please try again.' };
   }
-};
+});
 
 export const clearExpiredVerificationTokensService = async (): Promise<number> => {
   try {
@@ -182,12 +188,12 @@ export const clearExpiredVerificationTokensService = async (): Promise<number> =
 
     return clearedCount;
   } catch (error) {
-    console.error('Clear expired verification tokens service error:', error);
+    getLogger().error({ err: error }, 'Clear expired verification tokens service error');
     return 0;
   }
 };
 
-export const resendVerificationEmailService = async (userUid: string): Promise<{ success: boolean; message: string }> => {
+export const resendVerificationEmailService = traced('resendVerificationEmailService', async (userUid: string): Promise<{ success: boolean; message: string }> => {
   try {
     // Find user by UID
     const users = await readSelect<User>('users', ['*'], { uid: userUid });
@@ -230,7 +236,7 @@ export const resendVerificationEmailService = async (userUid: string): Promise<{
     });
 
     if (!emailResult.success) {
-      console.error('Failed to resend verification email:', emailResult.error);
+      getLogger().error({ error: emailResult.error }, 'Failed to resend verification email');
       return {
         success: false,
         message: 'Failed to send verification email. Please try again later.'
@@ -242,10 +248,10 @@ export const resendVerificationEmailService = async (userUid: string): Promise<{
       message: 'Verification email sent successfully.'
     };
   } catch (error) {
-    console.error('Resend verification email service error:', error);
+    getLogger().error({ err: error }, 'Resend verification email service error');
     return { 
       success: false,
       message: 'Failed to send verification email. Please try again later.' 
     };
   }
-};
+});
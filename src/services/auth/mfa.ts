@@ -0,0 +1,273 @@
+import { User } from '../../interfaces/auth/user';
+import {
+  readUID,
+  getMfaMethodId,
+  isAccountLocked,
+  incrementLoginAttempts,
+  lockUserAccount,
+  resetLoginAttempts,
+  recordLoginAttempt,
+  replaceRecoveryCodes,
+  consumeRecoveryCode,
+  claimTotpStep,
+  countUnusedRecoveryCodes
+} from '../../database/auth/auth-operations';
+import { update } from '../../database/utils/operations';
+import { encrypt, decrypt, fieldContext, recoveryCodeDigest } from '../../utils/crypto';
+import { generateTotpSecret, buildOtpAuthUri, matchTotpStep } from '../../utils/auth/totp';
+import { validateMfaChallengeToken, verifyPassword } from '../../utils/auth/authEncryption';
+import { isAccessTokenRevoked, revokeAccessToken } from '../../utils/auth/tokenDenylist';
+import { randomBytes } from 'crypto';
+import { issueLoginSession, type LoginSession, type LoginFailure } from './auth';
+import { logError, logSecurityEvent } from '../../utils/secureLogger';
+import { traced } from '../../utils/tracing';
+
+const MAX_MFA_ATTEMPTS = 5;
+const MFA_LOCK_DURATION_MINUTES = 30;
+const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauth_uri: string;
+}
+
+// Second factor supplied to the verify step - either an authenticator code or a recovery code
+export interface MfaFactor {
+  code?: string;
+  recovery_code?: string;
+}
+
+// Recovery codes are 10 random hex characters shown as xxxxx-xxxxx
+function generateRecoveryCode(): string {
+  const raw = randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+// An HMAC under a server secret rather than bcrypt, so a code can be looked up directly
+// instead of compared against every stored hash. The uid keeps equal codes of different
+// users from sharing a digest.
+function hashRecoveryCode(uid: string, code: string): string {
+  return recoveryCodeDigest(`${uid}:${code.trim().toLowerCase().replace(/[\s-]/g, '')}`);
+}
+
+// Generate a fresh set of recovery codes, replacing any existing ones. The plain codes
+// are only ever returned here - we store hashes.
+const issueRecoveryCodes = async (uid: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await replaceRecoveryCodes(uid, codes.map(code => hashRecoveryCode(uid, code)));
+  return codes;
+};
+
+export const startMfaEnrollmentService = async (uid: string): Promise<MfaEnrollment> => {
+  const user = await readUID<User>('users', uid);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.mfa_enabled) {
+    throw new Error('MFA is already enabled for this account');
+  }
+
+  // The secret is stored straight away but MFA stays disabled until the user proves
+  // their authenticator works via the confirm step. Restarting enrollment overwrites it.
+  const secret = generateTotpSecret();
+  await update<User>('users', user.id, {
+    mfa_secret: await encrypt(secret, fieldContext('users', 'mfa_secret', user.uid)),
+    updated_at: new Date()
+  });
+
+  const accountName = await decrypt(user.email, fieldContext('users', 'email', user.uid));
+
+  return {
+    secret,
+    otpauth_uri: buildOtpAuthUri(secret, accountName)
+  };
+};
+
+export const confirmMfaEnrollmentService = async (uid: string, code: string): Promise<string[]> => {
+  const user = await readUID<User>('users', uid);
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  if (user.mfa_enabled) {
+    throw new Error('MFA is already enabled for this account');
+  }
+
+  if (!user.mfa_secret) {
+    throw new Error('MFA enrollment has not been started');
+  }
+
+  // Claiming the step keeps the confirmation code from also being used to log in
+  const secret = await decrypt(user.mfa_secret, fieldContext('users', 'mfa_secret', user.uid));
+  const step = matchTotpStep(secret, code);
+  if (step === null || !(await claimTotpStep(user.uid, step))) {
+    throw new Error('Invalid verification code');
+  }
+
+  const totpMethodId = await getMfaMethodId('totp');
+  if (!totpMethodId) {
+    throw new Error('TOTP MFA method is not configured');
+  }
+
+  await update<User>('users', user.id, {
+    mfa_enabled: true,
+    mfa_method_id: totpMethodId,
+    updated_at: new Date()
+  });
+
+  const recoveryCodes = await issueRecoveryCodes(uid);
+
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'medium',
+    message: 'MFA enabled',
+    userId: uid,
+    details: { method: 'totp' }
+  });
+
+  return recoveryCodes;
+};
+
+export const regenerateRecoveryCodesService = async (uid: string, password: string): Promise<string[]> => {
+  const user = await readUID<User>('users', uid);
+  if (!user || !user.password_hash) {
+    throw new Error('User not found or invalid');
+  }
+
+  if (!user.mfa_enabled) {
+    throw new Error('MFA is not enabled for this account');
+  }
+
+  const isValidPassword = await verifyPassword(password, user.password_hash, user.uid);
+  if (!isValidPassword) {
+    throw new Error('Current password is incorrect');
+  }
+
+  const recoveryCodes = await issueRecoveryCodes(uid);
+
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'medium',
+    message: 'MFA recovery codes regenerated',
+    userId: uid
+  });
+
+  return recoveryCodes;
+};
+
+// Second login step: exchange a valid MFA challenge token plus a TOTP or recovery code for a session
+export const verifyMfaLoginService = traced('verifyMfaLoginService', async (mfaToken: string, factor: MfaFactor, login_ip?: string, user_agent?: string): Promise<LoginSession | LoginFailure> => {
+  try {
+    const challenge = validateMfaChallengeToken(mfaToken);
+    if (!challenge.valid || await isAccessTokenRevoked(challenge.tokenId)) {
+      return { error: 'Invalid or expired MFA challenge', locked: false };
+    }
+
+    const user = await readUID<User>('users', challenge.uid);
+    if (!user || !user.mfa_enabled || !user.mfa_secret) {
+      return { error: 'Invalid or expired MFA challenge', locked: false };
+    }
+
+    if (await isAccountLocked(user.username_hash)) {
+      return {
+        error: 'Account is temporarily locked due to multiple failed login attempts',
+        locked: true,
+        attempts_remaining: 0
+      };
+    }
+
+    // Account state may have changed since the password step
+    if (!user.is_active) {
+      return { error: 'Account is deactivated', locked: false };
+    }
+    if (user.is_banned) {
+      return { error: 'Account is banned', locked: false };
+    }
+
+    let codeValid = false;
+    let authMethod = 'mfa_totp';
+
+    if (factor.recovery_code) {
+      authMethod = 'mfa_recovery_code';
+      codeValid = await consumeRecoveryCode(user.uid, hashRecoveryCode(user.uid, factor.recovery_code));
+    } else if (factor.code) {
+      const secret = await decrypt(user.mfa_secret, fieldContext('users', 'mfa_secret', user.uid));
+      const step = matchTotpStep(secret, factor.code);
+      codeValid = step !== null && await claimTotpStep(user.uid, step);
+    }
+
+    await recordLoginAttempt(user.uid, login_ip || null, user_agent || null, codeValid, authMethod);
+
+    if (!codeValid) {
+      const currentAttempts = await incrementLoginAttempts(user.username_hash);
+
+      if (currentAttempts >= MAX_MFA_ATTEMPTS) {
+        await lockUserAccount(user.username_hash, MFA_LOCK_DURATION_MINUTES);
+        logSecurityEvent({
+          type: 'security',
+          severity: 'high',
+          message: 'Account locked after repeated invalid MFA codes',
+          userId: user.uid,
+          ip: login_ip,
+          userAgent: user_agent
+        });
+        return {
+          error: `Account locked for ${MFA_LOCK_DURATION_MINUTES} minutes due to ${MAX_MFA_ATTEMPTS} failed login attempts`,
+          locked: true,
+          attempts_remaining: 0
+        };
+      }
+
+      logSecurityEvent({
+        type: 'auth',
+        severity: 'medium',
+        message: 'Login failed',
+        userId: user.uid,
+        ip: login_ip,
+        userAgent: user_agent,
+        details: { reason: 'Invalid verification code', method: authMethod, attempts: currentAttempts }
+      });
+
+      return {
+        error: 'Invalid verification code',
+        locked: false,
+        attempts_remaining: MAX_MFA_ATTEMPTS - currentAttempts
+      };
+    }
+
+    if (authMethod === 'mfa_recovery_code') {
+      logSecurityEvent({
+        type: 'security',
+        severity: 'medium',
+        message: 'MFA recovery code used to log in',
+        userId: user.uid,
+        ip: login_ip,
+        userAgent: user_agent,
+        details: { remaining_codes: await countUnusedRecoveryCodes(user.uid) }
+      });
+    }
+
+    // The challenge has done its job; it can't be exchanged for a second session
+    if (challenge.tokenId && challenge.expiresAt) {
+      await revokeAccessToken(challenge.tokenId, challenge.expiresAt);
+    }
+
+    await resetLoginAttempts(user.username_hash);
+
+    logSecurityEvent({
+      type: 'auth',
+      severity: 'low',
+      message: 'Login succeeded',
+      userId: user.uid,
+      ip: login_ip,
+      userAgent: user_agent,
+      details: { method: authMethod }
+    });
+
+    return await issueLoginSession(user, login_ip, user_agent);
+  } catch (err) {
+    logError('MFA verification service error', err);
+    return { error: 'MFA verification failed due to server error', locked: false };
+  }
+});
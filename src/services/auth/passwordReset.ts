@@ -1,9 +1,13 @@
 import { User } from '../../interfaces/auth/user';
-import { readSelect, update } from '../../database/utils/operations';
+import { readSelect, update, withTransaction } from '../../database/utils/operations';
 import { hash, encrypt } from '../../utils/crypto';
 import { encryptPassword } from '../../utils/auth/authEncryption';
 import { randomBytes } from 'crypto';
 import { sendPasswordResetEmail } from './email';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { emitWebhookEvent } from '../../utils/webhooks/events';
+import { getLogger } from '../../utils/logger';
+import { traced } from '../../utils/tracing';
 
 export interface PasswordResetRequest {
   email: string;
@@ -20,7 +24,7 @@ export const generateResetToken = (): string => {
   return randomBytes(32).toString('hex');
 };
 
-export const requestPasswordResetService = async (email: string): Promise<{ token?: string; message: string }> => {
+export const requestPasswordResetService = traced('requestPasswordResetService', async (email: string): Promise<{ token?: string; message: string }> => {
   try {
     // Find user by email hash
     const emailHash = hash(email);
@@ -61,7 +65,7 @@ export const requestPasswordResetService = async (email: string): Promise<{ toke
     });
 
     if (!emailResult.success) {
-      console.error('Failed to send password reset email:', emailResult.error);
+      getLogger().error({ error: emailResult.error }, 'Failed to send password reset email');
       // Still return success for security - don't reveal if email sending failed
     }
 
@@ -69,12 +73,12 @@ export const requestPasswordResetService = async (email: string): Promise<{ toke
       message: 'If the email exists in our system, a password reset link has been sent.'
     };
   } catch (error) {
-    console.error('Request password reset service error:', error);
+    getLogger().error({ err: error }, 'Request password reset service error');
     return { 
       message: 'If the email exists in our system, a password reset link has been sent.' 
     };
   }
-};
+});
 
 export const validateResetTokenService = async (token: string): Promise<{ valid: boolean; message: string }> => {
   try {
@@ -109,12 +113,12 @@ export const validateResetTokenService = async (token: string): Promise<{ valid:
 
     return { valid: true, message: 'Reset token is valid' };
   } catch (error) {
-    console.error('Validate reset token service error:', error);
+    getLogger().error({ err: error }, 'Validate reset token service error');
     return { valid: false, message: 'Invalid or expired reset token' };
   }
 };
 
-export const resetPasswordService = async (token: string, newPassword: string): Promise<{ success: boolean; message: string }> => {
+export const resetPasswordService = traced('resetPasswordService', async (token: string, newPassword: string): Promise<{ success: boolean; message: string }> => {
   try {
     // Validate token first
     const tokenValidation = await validateResetTokenService(token);
@@ -132,23 +136,34 @@ export const resetPasswordService = async (token: string, newPassword: string):
     const user = users[0];
 
     // Hash and encrypt new password
-    const newPasswordHash = await encryptPassword(newPassword);
+    const newPasswordHash = await encryptPassword(newPassword, user.uid);
 
     // Update user with new password and clear reset token
-    await update<User>('users', user.id, {
-      password_hash: newPasswordHash,
-      password_reset_token: null,
-      password_reset_expires: null,
-      last_password_change: new Date(),
-      updated_at: new Date()
+    await withTransaction(async () => {
+      await update<User>('users', user.id, {
+        password_hash: newPasswordHash,
+        password_reset_token: null,
+        password_reset_expires: null,
+        last_password_change: new Date(),
+        updated_at: new Date()
+      });
+      await emitWebhookEvent('user.password_changed', { user_uid: user.uid, method: 'email_token' });
+    });
+
+    logSecurityEvent({
+      type: 'audit',
+      severity: 'medium',
+      message: 'Password reset',
+      userId: user.uid,
+      details: { method: 'email_token' }
     });
 
     return { success: true, message: 'Password has been reset successfully' };
   } catch (error) {
-    console.error('Reset password service error:', error);
+    getLogger().error({ err: error }, 'Reset password service error');
     return { success: false, message: 'Failed to reset password. Please try again.' };
   }
-};
+});
 
 export const clearExpiredResetTokensService = async (): Promise<number> => {
   try {
@@ -175,7 +190,7 @@ export const clearExpiredResetTokensService = async (): Promise<number> => {
 
     return clearedCount;
   } catch (error) {
-    console.error('Clear expired reset tokens service error:', error);
+    getLogger().error({ err: error }, 'Clear expired reset tokens service error');
     return 0;
   }
 };
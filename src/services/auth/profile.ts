@@ -1,8 +1,12 @@
 import { User } from '../../interfaces/auth/user';
 import { readUID } from '../../database/auth/auth-operations';
-import { update, readSelect } from '../../database/utils/operations';
-import { encrypt, decrypt, hash } from '../../utils/crypto';
+import { update, readSelect, withTransaction } from '../../database/utils/operations';
+import { encrypt, decrypt, hash, fieldContext } from '../../utils/crypto';
 import { verifyPassword, encryptPassword } from '../../utils/auth/authEncryption';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { emitWebhookEvent } from '../../utils/webhooks/events';
+import { getLogger } from '../../utils/logger';
+import { traced } from '../../utils/tracing';
 
 export interface ProfileUpdateData {
   first_name?: string;
@@ -17,7 +21,7 @@ export interface PasswordChangeData {
   new_password: string;
 }
 
-export const getProfileService = async (uid: string): Promise<Partial<User> | null> => {
+export const getProfileService = traced('getProfileService', async (uid: string): Promise<Partial<User> | null> => {
   try {
     const user = await readUID<User>('users', uid);
     if (!user) {
@@ -25,8 +29,8 @@ export const getProfileService = async (uid: string): Promise<Partial<User> | nu
     }
 
     // Decrypt sensitive fields for profile display
-    const decryptedUsername = await decrypt(user.username);
-    const decryptedEmail = await decrypt(user.email);
+    const decryptedUsername = await decrypt(user.username, fieldContext('users', 'username', user.uid));
+    const decryptedEmail = await decrypt(user.email, fieldContext('users', 'email', user.uid));
 
     // Return safe profile data (no password hash, tokens, etc.)
     return {
@@ -46,12 +50,12 @@ export const getProfileService = async (uid: string): Promise<Partial<User> | nu
       last_password_change: user.last_password_change
     };
   } catch (error) {
-    console.error('Get profile service error:', error);
+    getLogger().error({ err: error }, 'Get profile service error');
     return null;
   }
-};
+});
 
-export const updateProfileService = async (uid: string, profileData: ProfileUpdateData): Promise<Partial<User> | null> => {
+export const updateProfileService = traced('updateProfileService', async (uid: string, profileData: ProfileUpdateData): Promise<Partial<User> | null> => {
   try {
     const user = await readUID<User>('users', uid);
     if (!user) {
@@ -81,7 +85,7 @@ export const updateProfileService = async (uid: string, profileData: ProfileUpda
       if (existingUsers.length > 0 && existingUsers[0].id !== user.id) {
         throw new Error('Username already exists');
       }
-      updateData.username = await encrypt(profileData.username);
+      updateData.username = await encrypt(profileData.username, fieldContext('users', 'username', user.uid));
       updateData.username_hash = usernameHash;
     }
 
@@ -92,22 +96,35 @@ export const updateProfileService = async (uid: string, profileData: ProfileUpda
       if (existingUsers.length > 0 && existingUsers[0].id !== user.id) {
         throw new Error('Email already exists');
       }
-      updateData.email = await encrypt(profileData.email);
+      updateData.email = await encrypt(profileData.email, fieldContext('users', 'email', user.uid));
       updateData.email_hash = emailHash;
       updateData.email_verified = false; // Reset verification when email changes
     }
 
     const updatedUser = await update<User>('users', user.id, updateData);
     
+    if (profileData.username !== undefined || profileData.email !== undefined) {
+      logSecurityEvent({
+        type: 'audit',
+        severity: 'medium',
+        message: profileData.email !== undefined ? 'Email address changed' : 'Username changed',
+        userId: uid,
+        details: {
+          username_changed: profileData.username !== undefined,
+          email_changed: profileData.email !== undefined
+        }
+      });
+    }
+    
     // Return safe profile data
     return await getProfileService(uid);
   } catch (error) {
-    console.error('Update profile service error:', error);
+    getLogger().error({ err: error }, 'Update profile service error');
     throw error;
   }
-};
+});
 
-export const changePasswordService = async (uid: string, passwordData: PasswordChangeData): Promise<boolean> => {
+export const changePasswordService = traced('changePasswordService', async (uid: string, passwordData: PasswordChangeData): Promise<boolean> => {
   try {
     const user = await readUID<User>('users', uid);
     if (!user || !user.password_hash) {
@@ -115,7 +132,7 @@ export const changePasswordService = async (uid: string, passwordData: PasswordC
     }
 
     // Verify current password
-    const isValidPassword = await verifyPassword(passwordData.current_password, user.password_hash);
+    const isValidPassword = await verifyPassword(passwordData.current_password, user.password_hash, user.uid);
     if (!isValidPassword) {
       throw new Error('Current password is incorrect');
     }
@@ -126,22 +143,32 @@ export const changePasswordService = async (uid: string, passwordData: PasswordC
     }
 
     // Hash and encrypt new password
-    const newPasswordHash = await encryptPassword(passwordData.new_password);
+    const newPasswordHash = await encryptPassword(passwordData.new_password, user.uid);
     
-    await update<User>('users', user.id, {
-      password_hash: newPasswordHash,
-      last_password_change: new Date(),
-      updated_at: new Date()
+    await withTransaction(async () => {
+      await update<User>('users', user.id, {
+        password_hash: newPasswordHash,
+        last_password_change: new Date(),
+        updated_at: new Date()
+      });
+      await emitWebhookEvent('user.password_changed', { user_uid: uid, method: 'password_change' });
+    });
+
+    logSecurityEvent({
+      type: 'audit',
+      severity: 'medium',
+      message: 'Password changed',
+      userId: uid
     });
 
     return true;
   } catch (error) {
-    console.error('Change password service error:', error);
+    getLogger().error({ err: error }, 'Change password service error');
     throw error;
   }
-};
+});
 
-export const deleteAccountService = async (uid: string): Promise<boolean> => {
+export const deleteAccountService = traced('deleteAccountService', async (uid: string): Promise<boolean> => {
   try {
     const user = await readUID<User>('users', uid);
     if (!user) {
@@ -149,9 +176,19 @@ export const deleteAccountService = async (uid: string): Promise<boolean> => {
     }
 
     // Soft delete - mark as inactive instead of hard delete
-    await update<User>('users', user.id, {
-      is_active: false,
-      updated_at: new Date()
+    await withTransaction(async () => {
+      await update<User>('users', user.id, {
+        is_active: false,
+        updated_at: new Date()
+      });
+      await emitWebhookEvent('user.deleted', { user_uid: uid });
+    });
+
+    logSecurityEvent({
+      type: 'audit',
+      severity: 'medium',
+      message: 'Account deleted',
+      userId: uid
     });
 
     // Note: user_sessions will be cleaned up by foreign key CASCADE
@@ -159,7 +196,7 @@ export const deleteAccountService = async (uid: string): Promise<boolean> => {
     
     return true;
   } catch (error) {
-    console.error('Delete account service error:', error);
+    getLogger().error({ err: error }, 'Delete account service error');
     throw error;
   }
-};
+});
@@ -1,12 +1,20 @@
 import { UserSession, User } from '../../interfaces/auth/user';
-import { findSessionByRawRefreshToken, updateUserSession } from '../../utils/auth/sessionManagement';
-import { createJWT, generateRefreshToken, splitRefreshToken } from '../../utils/auth/authEncryption';
+import { findSessionByRawRefreshToken, rotateUserSession, revokeSessionAccessTokens } from '../../utils/auth/sessionManagement';
+import { createJWT, generateRefreshToken, splitRefreshToken, validateRefreshToken } from '../../utils/auth/authEncryption';
 import { verifyRefreshTokenFormat } from '../../utils/jwt';
-import { getProfileByUid } from './profile';
+import { getProfileService } from './profile';
+import { sendSessionRevokedEmail } from './email';
+import { buildAccessClaims } from '../../utils/auth/roles';
+import { readRotatedRefreshToken, revokeTokenFamily, pruneRefreshTokenHistory } from '../../database/auth/refresh-token-operations';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { REFRESH_REUSE_EMAIL_ALERTS, REFRESH_REUSE_GRACE_SECONDS } from '../../config/environment';
+import { getLogger } from '../../utils/logger';
+import { tokenRefreshesTotal, type RefreshOutcome } from '../../utils/metrics/instruments';
+import { traced } from '../../utils/tracing';
 
 export interface RefreshTokenResponse {
   user_uid: string;
-  user: User; // Add full user object
+  user: Partial<User>; // Safe profile fields only
   jwt: string;
   refresh_token: string;
   jwt_expiry: Date;
@@ -14,7 +22,72 @@ export interface RefreshTokenResponse {
   session_id: number;
 }
 
-export const refreshTokenService = async (refreshToken: string): Promise<RefreshTokenResponse | null> => {
+// A validly signed refresh token that no session holds any more, but that was
+// rotated out of a family, has been replayed - most likely copied by someone else.
+// Revoke the family so neither the thief nor the legitimate client keeps access.
+// Within REFRESH_REUSE_GRACE_SECONDS of the rotation it's taken as the client retrying.
+const detectRefreshTokenReuse = async (refreshToken: string, ip?: string, userAgent?: string): Promise<'reuse' | 'retry' | null> => {
+  const { valid, uid, tokenId } = validateRefreshToken(refreshToken);
+  if (!valid || !tokenId) {
+    return null;
+  }
+
+  const rotated = await readRotatedRefreshToken(tokenId);
+  if (!rotated || rotated.user_uid !== uid) {
+    return null;
+  }
+
+  if (Date.now() - new Date(rotated.rotated_at).getTime() < REFRESH_REUSE_GRACE_SECONDS * 1000) {
+    return 'retry';
+  }
+
+  const revokedSessions = await revokeTokenFamily(rotated.family_id);
+  await revokeSessionAccessTokens(revokedSessions);
+
+  logSecurityEvent({
+    type: 'security',
+    severity: 'critical',
+    message: 'Refresh token reuse detected - token family revoked',
+    userId: uid,
+    ip,
+    userAgent,
+    details: {
+      family_id: rotated.family_id,
+      token_id: tokenId,
+      rotated_at: rotated.rotated_at,
+      revoked_sessions: revokedSessions.map(session => session.id)
+    }
+  });
+
+  // Only alert once per family - later replays find nothing left to revoke
+  if (REFRESH_REUSE_EMAIL_ALERTS && revokedSessions.length > 0) {
+    const user = await getProfileService(uid);
+    if (user?.email) {
+      const result = await sendSessionRevokedEmail({
+        email: user.email,
+        username: user.username || '',
+        detectedAt: new Date(),
+        ip,
+        userAgent
+      });
+      if (!result.success) {
+        getLogger().error({ error: result.error }, 'Failed to send session revoked email');
+      }
+    }
+  }
+
+  return 'reuse';
+};
+
+const REFRESH_FAILURE_OUTCOMES: Record<string, RefreshOutcome> = {
+  'Invalid refresh token format': 'invalid',
+  'Invalid or expired refresh token': 'invalid',
+  'User not found': 'invalid',
+  'Refresh token reuse detected': 'reuse_detected',
+  'Refresh token was already used': 'concurrent_rotation'
+};
+
+export const refreshTokenService = traced('refreshTokenService', async (refreshToken: string, ip?: string, userAgent?: string): Promise<RefreshTokenResponse | null> => {
   try {
     // Validate refresh token format
     if (!verifyRefreshTokenFormat(refreshToken)) {
@@ -25,22 +98,36 @@ export const refreshTokenService = async (refreshToken: string): Promise<Refresh
     const session = await findSessionByRawRefreshToken(refreshToken);
     
     if (!session) {
+      const reuse = await detectRefreshTokenReuse(refreshToken, ip, userAgent);
+      if (reuse === 'retry') {
+        throw new Error('Refresh token was already used');
+      }
+      if (reuse === 'reuse') {
+        throw new Error('Refresh token reuse detected');
+      }
       throw new Error('Invalid or expired refresh token');
     }
 
     // Get full user data for the response
-    const user = await getProfileByUid(session.user_uid);
+    const user = await getProfileService(session.user_uid);
     if (!user) {
       throw new Error('User not found');
     }
 
-    // Generate new tokens using session's user_uid
-    const newJwt = createJWT(session.user_uid);
+    // Generate new tokens using session's user_uid. Role claims are re-read so
+    // role changes take effect on the next refresh.
+    const newJwt = createJWT(session.user_uid, await buildAccessClaims(user as User));
     const newRefreshToken = generateRefreshToken(session.user_uid);
     
-    // Update session using your session management utility
-    const updatedSession = await updateUserSession(session.id, newRefreshToken, newJwt);
+    // Rotate the session, recording the replaced token in its family history
+    const updatedSession = await rotateUserSession(session, newRefreshToken, newJwt);
+    if (!updatedSession) {
+      throw new Error('Refresh token was already used');
+    }
 
+    await pruneRefreshTokenHistory();
+
+    tokenRefreshesTotal.inc({ outcome: 'success' });
     return {
       user_uid: session.user_uid,
       user: user, // Include full user object
@@ -52,10 +139,12 @@ export const refreshTokenService = async (refreshToken: string): Promise<Refresh
     };
 
   } catch (error) {
-    console.error('Refresh token service error:', error);
+    getLogger().error({ err: error }, 'Refresh token service error');
+    const outcome = error instanceof Error ? REFRESH_FAILURE_OUTCOMES[error.message] : undefined;
+    tokenRefreshesTotal.inc({ outcome: outcome ?? 'error' });
     return null;
   }
-};
+});
 
 export const validateRefreshTokenService = async (refreshToken: string): Promise<boolean> => {
   try {
@@ -70,7 +159,7 @@ export const validateRefreshTokenService = async (refreshToken: string): Promise
     return session !== null;
 
   } catch (error) {
-    console.error('Validate refresh token service error:', error);
+    getLogger().error({ err: error }, 'Validate refresh token service error');
     return false;
   }
 };
@@ -1,12 +1,55 @@
 import { UserSession, UserLoginHistory } from '../../interfaces/auth/user';
 import { readSelect, remove } from '../../database/utils/operations';
-import { decrypt } from '../../utils/crypto';
+import { findSessionByToken, revokeSessionAccessTokens } from '../../utils/auth/sessionManagement';
+import { decodeJWT } from '../../utils/jwt';
+import { decrypt, fieldContext } from '../../utils/crypto';
+import { describeDevice, type DeviceType } from '../../utils/userAgent';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { getLogger } from '../../utils/logger';
+import { traced } from '../../utils/tracing';
+
+const toSessionInfo = async (session: UserSession, currentSessionId?: number): Promise<SessionInfo> => {
+  let ipAddress: string | null = null;
+  if (session.ip_address) {
+    try {
+      ipAddress = await decrypt(session.ip_address, fieldContext('user_sessions', 'ip_address', session.id, session.user_uid));
+    } catch (decryptError) {
+      // Show the session without its IP rather than hiding it
+    }
+  }
+
+  return {
+    id: session.id,
+    created_at: session.created_at,
+    session_expires_at: session.session_expires_at,
+    refresh_expires_at: session.refresh_expires_at,
+    last_accessed: session.last_accessed,
+    device_info: describeDevice({
+      browser: session.browser,
+      os: session.os,
+      device_type: (session.device_type || 'unknown') as DeviceType
+    }),
+    browser: session.browser,
+    os: session.os,
+    device_type: session.device_type,
+    ip_address: ipAddress,
+    location: session.location,
+    is_current: session.id === currentSessionId
+  };
+};
 
 export interface SessionInfo {
   id: number;
   created_at: Date;
   session_expires_at: Date;
   refresh_expires_at: Date;
+  last_accessed: Date;
+  device_info: string;
+  browser: string | null;
+  os: string | null;
+  device_type: string | null;
+  ip_address: string | null;
+  location: string | null;
   is_current?: boolean;
 }
 
@@ -25,27 +68,20 @@ export const getActiveSessionsService = async (uid: string, currentSessionId?: n
     
     // Filter out expired sessions and format response
     const now = new Date();
-    const activeSessions = sessions
+    const activeSessions = await Promise.all(sessions
       .filter(session => {
         const expires = new Date(session.refresh_expires_at);
         return expires > now;
       })
-      .map(session => ({
-        id: session.id,
-        created_at: session.created_at,
-        session_expires_at: session.session_expires_at,
-        refresh_expires_at: session.refresh_expires_at,
-        is_current: session.id === currentSessionId
-      }))
-      .sort((a, b) => b.created_at.getTime() - a.created_at.getTime()); // Most recent first
-
-    return activeSessions;
+      .map(session => toSessionInfo(session, currentSessionId)));
+
+    return activeSessions.sort((a, b) => b.last_accessed.getTime() - a.last_accessed.getTime()); // Most recently used first
   } catch (error) {
     return [];
   }
 };
 
-export const revokeSessionService = async (uid: string, sessionId: number, currentSessionId?: number): Promise<boolean> => {
+export const revokeSessionService = traced('revokeSessionService', async (uid: string, sessionId: number, currentSessionId?: number): Promise<boolean> => {
   try {
     // Prevent users from revoking their current session (use logout instead)
     if (sessionId === currentSessionId) {
@@ -53,7 +89,7 @@ export const revokeSessionService = async (uid: string, sessionId: number, curre
     }
 
     // Verify the session belongs to the user
-    const sessions = await readSelect<UserSession>('user_sessions', ['id', 'user_uid'], { 
+    const sessions = await readSelect<UserSession>('user_sessions', ['*'], { 
       id: sessionId, 
       user_uid: uid 
     });
@@ -62,20 +98,29 @@ export const revokeSessionService = async (uid: string, sessionId: number, curre
       throw new Error('Session not found or does not belong to user');
     }
 
-    // Remove the session
+    // Remove the session and stop its access token working straight away
     await remove('user_sessions', sessionId);
+    await revokeSessionAccessTokens(sessions);
+    
+    logSecurityEvent({
+      type: 'audit',
+      severity: 'low',
+      message: 'Session revoked',
+      userId: uid,
+      details: { session_id: sessionId }
+    });
     
     return true;
   } catch (error) {
-    console.error('Revoke session service error:', error);
+    getLogger().error({ err: error }, 'Revoke session service error');
     throw error;
   }
-};
+});
 
-export const revokeAllOtherSessionsService = async (uid: string, currentSessionId: number): Promise<number> => {
+export const revokeAllOtherSessionsService = traced('revokeAllOtherSessionsService', async (uid: string, currentSessionId: number): Promise<number> => {
   try {
     // Get all sessions for the user except the current one
-    const sessions = await readSelect<UserSession>('user_sessions', ['id'], { user_uid: uid });
+    const sessions = await readSelect<UserSession>('user_sessions', ['*'], { user_uid: uid });
     
     const otherSessions = sessions.filter(session => session.id !== currentSessionId);
     let revokedCount = 0;
@@ -84,18 +129,27 @@ export const revokeAllOtherSessionsService = async (uid: string, currentSessionI
     for (const session of otherSessions) {
       try {
         await remove('user_sessions', session.id);
+        await revokeSessionAccessTokens([session]);
         revokedCount++;
       } catch (error) {
-        console.error(`Failed to revoke session ${session.id}:`, error);
+        getLogger().error({ err: error, sessionId: session.id }, 'Failed to revoke session');
       }
     }
 
+    logSecurityEvent({
+      type: 'audit',
+      severity: 'medium',
+      message: 'All other sessions revoked',
+      userId: uid,
+      details: { revoked_sessions: revokedCount, kept_session_id: currentSessionId }
+    });
+
     return revokedCount;
   } catch (error) {
-    console.error('Revoke all other sessions service error:', error);
+    getLogger().error({ err: error }, 'Revoke all other sessions service error');
     throw error;
   }
-};
+});
 
 export const getLoginHistoryService = async (uid: string, limit: number = 50): Promise<LoginHistoryInfo[]> => {
   try {
@@ -105,7 +159,7 @@ export const getLoginHistoryService = async (uid: string, limit: number = 50): P
     try {
       history = await readSelect<UserLoginHistory>('user_login_history', ['*'], { user_uid: uid });
     } catch (uidError) {
-      console.warn('Failed to query with user_uid, trying user_id:', uidError);
+      getLogger().warn({ err: uidError }, 'Failed to query with user_uid, trying user_id');
       // If user_uid fails, try with user_id field (alternate schema)
       // First get the user's numeric ID from the uid
       const users = await readSelect<any>('users', ['id'], { uid: uid });
@@ -128,37 +182,26 @@ export const getLoginHistoryService = async (uid: string, limit: number = 50): P
 
     return sortedHistory;
   } catch (error) {
-    console.error('Get login history service error:', error);
+    getLogger().error({ err: error }, 'Get login history service error');
     return [];
   }
 };
 
 export const getCurrentSessionInfo = async (sessionToken: string): Promise<SessionInfo | null> => {
   try {
-    // Get all sessions and find the one matching the token
-    const sessions = await readSelect<UserSession>('user_sessions', ['*']);
-    
-    for (const session of sessions) {
-      try {
-        const decryptedToken = await decrypt(session.session_token);
-        if (decryptedToken === sessionToken) {
-          return {
-            id: session.id,
-            created_at: session.created_at,
-            session_expires_at: session.session_expires_at,
-            refresh_expires_at: session.refresh_expires_at,
-            is_current: true
-          };
-        }
-      } catch (decryptError) {
-        // Skip this session if decryption fails
-        continue;
-      }
+    const uid = decodeJWT(sessionToken)?.sub;
+    if (!uid) {
+      return null;
     }
 
-    return null;
+    const session = await findSessionByToken('session_token', sessionToken, uid);
+    if (!session) {
+      return null;
+    }
+
+    return toSessionInfo(session, session.id);
   } catch (error) {
-    console.error('Get current session info error:', error);
+    getLogger().error({ err: error }, 'Get current session info error');
     return null;
   }
 };
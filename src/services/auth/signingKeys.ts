@@ -0,0 +1,197 @@
+import {
+  readUnretiredSigningKeys,
+  readAllSigningKeys,
+  insertSigningKey,
+  scheduleSigningKeyRetirement,
+  retireExpiredSigningKeys,
+  lockSigningKeyRotation
+} from '../../database/auth/signing-key-operations';
+import { withTransaction } from '../../database/utils/operations';
+import { type JwtSigningKeyRecord } from '../../interfaces/auth/signingKey';
+import {
+  getConfiguredSigningKey,
+  generateSigningKey,
+  exportKeyMaterial,
+  importKeyMaterial,
+  replaceKeyRing,
+  getActiveSigningKey,
+  parseAlgorithm,
+  type JwtAlgorithm,
+  type SigningKey
+} from '../../utils/auth/signingKeys';
+import { REFRESH_TOKEN_TTL_SECONDS } from '../../utils/auth/authEncryption';
+import { encrypt, decrypt, fieldContext } from '../../utils/crypto';
+import { logSecurityEvent } from '../../utils/secureLogger';
+import { JWT_ALGORITHM } from '../../config/environment';
+import { logger } from '../../utils/logger';
+
+// How often each instance reloads the key ring from the database
+export const KEY_RING_REFRESH_SECONDS = 60;
+// A rotated key is published for two refresh cycles before anyone signs with it,
+// so every instance can already verify its tokens by the time it is used
+export const KEY_ACTIVATION_DELAY_SECONDS = 2 * KEY_RING_REFRESH_SECONDS;
+// Superseded keys keep verifying until every token they could have signed has expired
+export const KEY_RETIREMENT_GRACE_SECONDS = REFRESH_TOKEN_TTL_SECONDS;
+
+export interface SigningKeyView {
+  kid: string;
+  algorithm: string;
+  status: 'pending' | 'signing' | 'verify_only' | 'retired';
+  activates_at: Date;
+  retires_at: Date | null;
+  retired_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+let refreshTimer: NodeJS.Timeout | null = null;
+// Signing kid last warned about, so the warning is logged once per rotation rather than every refresh
+let warnedSigningKid: string | null = null;
+
+const toSigningKey = async (record: JwtSigningKeyRecord): Promise<SigningKey> => ({
+  ...importKeyMaterial(
+    parseAlgorithm(record.algorithm),
+    record.kid,
+    await decrypt(record.key_material!, fieldContext('jwt_signing_keys', 'key_material', record.kid)),
+    record.public_key
+  ),
+  activatesAt: new Date(record.activates_at),
+  retiresAt: record.retires_at ? new Date(record.retires_at) : null
+});
+
+const storeSigningKey = async (key: SigningKey, activatesAt: Date, createdBy: string | null): Promise<JwtSigningKeyRecord | undefined> => {
+  const material = exportKeyMaterial(key);
+  return insertSigningKey({
+    kid: key.kid,
+    algorithm: key.algorithm,
+    key_material: await encrypt(material.privateKey, fieldContext('jwt_signing_keys', 'key_material', key.kid)),
+    public_key: material.publicKey,
+    activates_at: activatesAt,
+    created_by: createdBy
+  });
+};
+
+// Reload the key ring from the database, retiring expired keys on the way. The
+// configured key is added in memory by replaceKeyRing, never written to the table.
+export const syncKeyRingService = async (): Promise<void> => {
+  const retired = await retireExpiredSigningKeys();
+  for (const kid of retired) {
+    logSecurityEvent({
+      type: 'security',
+      severity: 'low',
+      message: 'JWT signing key retired',
+      details: { kid }
+    });
+  }
+
+  const records = await readUnretiredSigningKeys();
+  replaceKeyRing(await Promise.all(records.map(toSigningKey)));
+
+  // Once a rotated key signs, changing JWT_SECRET or the configured key files only changes
+  // which extra key verifies; say so rather than let the change look like it took effect
+  const configured = getConfiguredSigningKey();
+  const signing = getActiveSigningKey();
+  if (signing.kid !== configured.kid && signing.kid !== warnedSigningKid) {
+    warnedSigningKid = signing.kid;
+    logger.warn(
+      { configuredKid: configured.kid, signingKid: signing.kid },
+      'Configured JWT key is not signing: a rotated key from the database takes precedence. The configured key still verifies tokens until it is removed from configuration'
+    );
+  }
+};
+
+export const startKeyRingRefresh = async (): Promise<void> => {
+  await syncKeyRingService();
+
+  if (refreshTimer) return;
+  refreshTimer = setInterval(() => {
+    syncKeyRingService().catch(err => {
+      logger.error({ err }, 'JWT key ring refresh failed');
+    });
+  }, KEY_RING_REFRESH_SECONDS * 1000);
+  // Never keep the process alive just for key refreshes
+  refreshTimer.unref();
+};
+
+export const stopKeyRingRefresh = (): void => {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+};
+
+const toSigningKeyView = (record: JwtSigningKeyRecord, signingKid: string | undefined): SigningKeyView => {
+  let status: SigningKeyView['status'] = 'verify_only';
+  if (record.retired_at) status = 'retired';
+  else if (new Date(record.activates_at).getTime() > Date.now()) status = 'pending';
+  else if (record.kid === signingKid) status = 'signing';
+
+  return {
+    kid: record.kid,
+    algorithm: record.algorithm,
+    status,
+    activates_at: record.activates_at,
+    retires_at: record.retires_at,
+    retired_at: record.retired_at,
+    created_by: record.created_by,
+    created_at: record.created_at
+  };
+};
+
+export const listSigningKeysService = async (): Promise<SigningKeyView[]> => {
+  const records = await readAllSigningKeys();
+
+  // The signing key is the newest unretired key that has already activated
+  const signingKid = records.find(record =>
+    !record.retired_at && new Date(record.activates_at).getTime() <= Date.now()
+  )?.kid;
+
+  return records.map(record => toSigningKeyView(record, signingKid));
+};
+
+export const rotateSigningKeyService = async (actorUid: string): Promise<SigningKeyView> => {
+  // New keys use the currently configured algorithm, so changing JWT_ALGORITHM and
+  // rotating moves to a different algorithm without invalidating existing tokens.
+  // Generated up front so the lock below isn't held while an RSA key is made.
+  const algorithm: JwtAlgorithm = parseAlgorithm(JWT_ALGORITHM);
+  const key = await generateSigningKey(algorithm);
+
+  // The lock makes the in-progress check and the insert one step, so concurrent
+  // rotations (two admins, or two instances) can't both go ahead
+  const { record, activatesAt, retiresAt, superseded } = await withTransaction(async () => {
+    await lockSigningKeyRotation();
+
+    const existing = await readUnretiredSigningKeys();
+    if (existing.some(record => new Date(record.activates_at).getTime() > Date.now())) {
+      throw new Error('A key rotation is already in progress');
+    }
+
+    const activatesAt = new Date(Date.now() + KEY_ACTIVATION_DELAY_SECONDS * 1000);
+    const record = await storeSigningKey(key, activatesAt, actorUid);
+    if (!record) {
+      throw new Error('Failed to store the new signing key');
+    }
+
+    const retiresAt = new Date(activatesAt.getTime() + KEY_RETIREMENT_GRACE_SECONDS * 1000);
+    const superseded = await scheduleSigningKeyRetirement(key.kid, retiresAt);
+    return { record, activatesAt, retiresAt, superseded };
+  });
+
+  await syncKeyRingService();
+
+  logSecurityEvent({
+    type: 'audit',
+    severity: 'high',
+    message: 'JWT signing key rotated',
+    userId: actorUid,
+    details: {
+      kid: key.kid,
+      algorithm,
+      activates_at: activatesAt.toISOString(),
+      superseded_kids: superseded,
+      superseded_retire_at: retiresAt.toISOString()
+    }
+  });
+
+  return toSigningKeyView(record, undefined);
+};
@@ -0,0 +1,166 @@
+import { getDbPool } from '../database/utils/connect';
+import { loadMigrations, readSchemaStatus, type Migration } from '../database/utils/migrate';
+import { testEmailConnection } from './auth/email';
+import { checkVaultHealth } from '../config/vault';
+import { HEALTH_CACHE_SECONDS, HEALTH_CHECK_TIMEOUT_MS, HEALTH_CHECK_SMTP, VAULT_ADDR } from '../config/environment';
+import { logger } from '../utils/logger';
+import { isShuttingDown } from '../utils/lifecycle';
+import { type DependencyHealth, type ReadinessReport, type ReadinessStatus } from '../interfaces/health';
+
+interface DependencyCheck {
+  name: string;
+  required: boolean;
+  enabled: () => boolean;
+  // Resolves when the dependency is usable, optionally reporting it degraded; throws when it isn't.
+  // Thrown messages are shown to anyone who can reach /health/ready, so driver errors (which
+  // name hosts and users) are wrapped and only logged.
+  run: () => Promise<Pick<DependencyHealth, 'status' | 'details'> | void>;
+}
+
+// Replace a driver error with a generic one; the original stays on `cause` for the logs
+const hideError = (message: string) => (cause: unknown): never => {
+  throw Object.assign(new Error(message), { cause });
+};
+
+// Migration files don't change while the process runs
+let migrations: Migration[] | null = null;
+
+const DEPENDENCY_CHECKS: DependencyCheck[] = [
+  {
+    name: 'database',
+    required: true,
+    enabled: () => true,
+    run: async () => {
+      const pool = await getDbPool();
+      await pool.query('SELECT 1').catch(hideError('Database query failed'));
+      return {
+        status: 'up',
+        details: { connections: pool.totalCount, idle: pool.idleCount, waiting: pool.waitingCount }
+      };
+    }
+  },
+  {
+    name: 'schema',
+    required: true,
+    enabled: () => true,
+    run: async () => {
+      migrations ??= loadMigrations();
+      const statuses = await readSchemaStatus(migrations).catch(hideError('Schema version query failed'));
+      const count = (state: string) => statuses.filter(status => status.state === state).length;
+      const applied = statuses.filter(status => status.state === 'applied');
+
+      const details = {
+        version: applied.length > 0 ? applied[applied.length - 1].version : 0,
+        expected: migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+        pending: count('pending'),
+        missing: count('missing')
+      };
+
+      // A half-applied or edited migration means the schema can't be trusted
+      if (count('dirty') > 0 || count('drifted') > 0) {
+        throw new Error(`${count('dirty')} dirty and ${count('drifted')} drifted migration(s)`);
+      }
+      // Pending or unknown migrations are expected mid-deploy, while old and new builds overlap
+      return { status: details.pending > 0 || details.missing > 0 ? 'degraded' : 'up', details };
+    }
+  },
+  {
+    name: 'smtp',
+    required: false,
+    enabled: () => HEALTH_CHECK_SMTP,
+    run: async () => {
+      // testEmailConnection logs the underlying error itself
+      const result = await testEmailConnection();
+      if (!result.success) {
+        throw new Error('SMTP connection failed');
+      }
+    }
+  },
+  {
+    name: 'vault',
+    required: false,
+    enabled: () => Boolean(VAULT_ADDR),
+    run: () => checkVaultHealth(HEALTH_CHECK_TIMEOUT_MS)
+  }
+];
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runCheck(check: DependencyCheck): Promise<DependencyHealth> {
+  if (!check.enabled()) {
+    return { status: 'skipped', required: check.required };
+  }
+
+  const startTime = Date.now();
+  try {
+    const result = await withTimeout(check.run(), HEALTH_CHECK_TIMEOUT_MS);
+    return {
+      status: result?.status ?? 'up',
+      required: check.required,
+      latency_ms: Date.now() - startTime,
+      ...(result?.details && { details: result.details })
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn({ err: error, dependency: check.name }, 'Readiness check failed');
+    return { status: 'down', required: check.required, latency_ms: Date.now() - startTime, error: message };
+  }
+}
+
+// Down if anything required is down; degraded if anything else isn't fully up
+function overallStatus(dependencies: DependencyHealth[]): ReadinessStatus {
+  if (dependencies.some(dependency => dependency.required && dependency.status === 'down')) return 'down';
+  if (dependencies.some(dependency => dependency.status === 'down' || dependency.status === 'degraded')) return 'degraded';
+  return 'up';
+}
+
+async function checkReadiness(): Promise<ReadinessReport> {
+  const results = await Promise.all(DEPENDENCY_CHECKS.map(runCheck));
+
+  return {
+    status: overallStatus(results),
+    checked_at: new Date().toISOString(),
+    cached: false,
+    shutting_down: false,
+    dependencies: Object.fromEntries(DEPENDENCY_CHECKS.map((check, i) => [check.name, results[i]]))
+  };
+}
+
+let cachedReport: { report: ReadinessReport; expiresAt: number } | null = null;
+let inFlight: Promise<ReadinessReport> | null = null;
+
+// Results are reused for HEALTH_CACHE_SECONDS and concurrent callers share one run,
+// so however many load balancers poll, dependencies see at most one check per window
+export const getReadinessService = async (): Promise<ReadinessReport> => {
+  // Draining: fail straight away so load balancers stop sending traffic before the listener closes
+  if (isShuttingDown()) {
+    return { status: 'down', checked_at: new Date().toISOString(), cached: false, shutting_down: true, dependencies: {} };
+  }
+
+  if (cachedReport && cachedReport.expiresAt > Date.now()) {
+    return { ...cachedReport.report, cached: true };
+  }
+
+  inFlight ??= checkReadiness()
+    .then(report => {
+      cachedReport = { report, expiresAt: Date.now() + HEALTH_CACHE_SECONDS * 1000 };
+      return report;
+    })
+    .finally(() => {
+      inFlight = null;
+    });
+
+  return inFlight;
+};
+
+export const getLivenessService = (): { status: 'up'; uptime_seconds: number; timestamp: string } => ({
+  status: 'up',
+  uptime_seconds: Math.floor(process.uptime()),
+  timestamp: new Date().toISOString()
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { randomBytes } from 'crypto';
+import runDbSync from '../database/utils/sync';
+import { executeQuery } from '../database/utils/operations';
+import { lockUserAccount } from '../database/auth/auth-operations';
+import { createUser } from '../utils/auth/userManagement';
+import { createUserSession } from '../utils/auth/sessionManagement';
+import { createJWT, generateRefreshToken } from '../utils/auth/authEncryption';
+import { decodeJWT } from '../utils/jwt';
+import { isAccessTokenRevoked } from '../utils/auth/tokenDenylist';
+import {
+  listUsersService,
+  listLockedAccountsService,
+  findUserService,
+  getUserService,
+  banUserService,
+  unbanUserService,
+  unlockUserService,
+  changeUserRoleService,
+  revokeUserSessionsService
+} from '../services/admin/users';
+import { type User } from '../interfaces/auth/user';
+
+const countSessions = async (uid: string): Promise<number> => {
+  const rows = await executeQuery<{ count: number }>({
+    text: 'SELECT COUNT(*)::int AS count FROM user_sessions WHERE user_uid = $1',
+    values: [uid]
+  });
+  return rows[0].count;
+};
+
+// A logged-in session for the user; returns the jti of its access token
+const startSession = async (uid: string): Promise<string> => {
+  const jwt = createJWT(uid, { role: 'admin', sub_roles: [], permissions: [] });
+  await createUserSession(uid, generateRefreshToken(uid), jwt, '198.51.100.7', 'admin-users-test');
+  return decodeJWT(jwt).jti;
+};
+
+describe('Admin User Management Tests', () => {
+  const actorUid = `admin-actor-${randomBytes(8).toString('hex')}`;
+  const suffix = randomBytes(6).toString('hex');
+  let target: User;
+  let other: User;
+
+  beforeAll(async () => {
+    await runDbSync();
+    target = await createUser({ username: `target_${suffix}`, email: `target_${suffix}@example.com`, password_hash: 'unused' });
+    other = await createUser({ username: `other_${suffix}`, email: `other_${suffix}@example.com`, password_hash: 'unused' });
+  });
+
+  it('should find users by exact username or email', async () => {
+    const byUsername = await findUserService(`target_${suffix}`);
+    expect(byUsername?.uid).toBe(target.uid);
+    expect(byUsername?.email).toBe(`target_${suffix}@example.com`);
+
+    expect((await findUserService(undefined, `other_${suffix}@example.com`))?.uid).toBe(other.uid);
+    expect(await findUserService(`target_${suffix}_missing`)).toBeNull();
+  });
+
+  it('should list and page users by status', async () => {
+    const { users, total } = await listUsersService({ page: 1, limit: 1, status: 'active' });
+    expect(users).toHaveLength(1);
+    expect(total).toBeGreaterThanOrEqual(2);
+
+    const inactive = await listUsersService({ page: 1, limit: 100, status: 'inactive' });
+    expect(inactive.users.map(user => user.uid)).not.toContain(target.uid);
+  });
+
+  it('should ban a user and end their sessions', async () => {
+    const jti = await startSession(target.uid);
+
+    const banned = await banUserService(actorUid, target.uid, { reason: 'spam' });
+    expect(banned.is_banned).toBe(true);
+    expect(banned.ban_reason).toBe('spam');
+    expect(await countSessions(target.uid)).toBe(0);
+    expect(await isAccessTokenRevoked(jti)).toBe(true);
+
+    const { users } = await listUsersService({ page: 1, limit: 100, status: 'banned' });
+    expect(users.map(user => user.uid)).toContain(target.uid);
+
+    const unbanned = await unbanUserService(actorUid, target.uid);
+    expect(unbanned.is_banned).toBe(false);
+    expect(unbanned.ban_reason).toBeNull();
+  });
+
+  it('should shadowban a user without ending their sessions', async () => {
+    await startSession(other.uid);
+
+    const shadowbanned = await banUserService(actorUid, other.uid, { reason: 'abuse', shadow: true });
+    expect(shadowbanned.is_shadowbanned).toBe(true);
+    expect(shadowbanned.is_banned).toBe(false);
+    expect(await countSessions(other.uid)).toBe(1);
+
+    expect((await unbanUserService(actorUid, other.uid)).is_shadowbanned).toBe(false);
+  });
+
+  it('should refuse to let administrators ban themselves', async () => {
+    await expect(banUserService(target.uid, target.uid, { reason: 'oops' })).rejects.toThrow('cannot ban themselves');
+    await expect(banUserService(actorUid, 'no-such-user', { reason: 'spam' })).rejects.toThrow('User not found');
+  });
+
+  it('should unlock an account locked by failed logins', async () => {
+    await lockUserAccount(target.username_hash, 30);
+    expect((await listLockedAccountsService()).map(user => user.uid)).toContain(target.uid);
+
+    const unlocked = await unlockUserService(actorUid, target.uid);
+    expect(unlocked.locked_until).toBeNull();
+    expect(unlocked.login_attempts).toBe(0);
+    expect((await listLockedAccountsService()).map(user => user.uid)).not.toContain(target.uid);
+  });
+
+  it('should revoke access tokens but keep sessions when the role changes', async () => {
+    const jti = await startSession(target.uid);
+
+    const changed = await changeUserRoleService(actorUid, target.uid, { role: 'member', sub_roles: ['moderator'] });
+    expect(changed.role).toBe('member');
+    expect(changed.sub_roles).toEqual(['moderator']);
+    expect(await isAccessTokenRevoked(jti)).toBe(true);
+    expect(await countSessions(target.uid)).toBe(1);
+  });
+
+  it('should reject unknown roles and self-demotion', async () => {
+    await expect(changeUserRoleService(actorUid, target.uid, { role: 'superuser' })).rejects.toThrow('Unknown role');
+    await expect(changeUserRoleService(actorUid, target.uid, { sub_roles: ['wizard'] })).rejects.toThrow('Unknown sub-role');
+    await expect(changeUserRoleService(target.uid, target.uid, { role: 'guest' })).rejects.toThrow('cannot remove their own admin role');
+    expect((await getUserService(target.uid)).role).toBe('member');
+  });
+
+  it('should revoke every session of a user', async () => {
+    await startSession(other.uid);
+
+    expect(await revokeUserSessionsService(actorUid, other.uid)).toBe(2);
+    expect(await countSessions(other.uid)).toBe(0);
+  });
+});
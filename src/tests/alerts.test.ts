@@ -0,0 +1,92 @@
+import { describe, it, expect, afterAll } from 'bun:test';
+import { readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { dispatchAlert, setAlertSinks, parseSeverity, type AlertInput } from '../utils/alerts/dispatcher';
+import { FileAlertSink, alertSummary, type AlertSink, type SecurityAlert } from '../utils/alerts/sinks';
+import { type AuditSeverity } from '../interfaces/audit';
+
+const recordingSink = (minSeverity: AuditSeverity): AlertSink & { sent: SecurityAlert[] } => {
+  const sent: SecurityAlert[] = [];
+  return { name: 'recording', minSeverity, sent, send: async alert => { sent.push(alert); } };
+};
+
+const alertInput = (severity: AuditSeverity, message: string): AlertInput => ({
+  timestamp: new Date().toISOString(),
+  type: 'security',
+  severity,
+  message,
+  userId: 'alert-test-user',
+  ip: '198.51.100.7',
+  userAgent: 'alert-test'
+});
+
+describe('Security Alert Tests', () => {
+  afterAll(() => {
+    setAlertSinks([]);
+  });
+
+  it('should parse severities', () => {
+    expect(parseSeverity('High')).toBe('high');
+    expect(() => parseSeverity('urgent')).toThrow('Invalid alert severity');
+  });
+
+  it('should only send alerts that meet a sink threshold', async () => {
+    const high = recordingSink('high');
+    const critical = recordingSink('critical');
+    setAlertSinks([high, critical]);
+
+    await dispatchAlert(alertInput('medium', 'Threshold test medium'));
+    await dispatchAlert(alertInput('high', 'Threshold test high'));
+
+    expect(high.sent.map(alert => alert.message)).toEqual(['Threshold test high']);
+    expect(critical.sent).toHaveLength(0);
+  });
+
+  it('should suppress repeats within the dedup window', async () => {
+    const sink = recordingSink('low');
+    setAlertSinks([sink]);
+
+    const first = await dispatchAlert(alertInput('critical', 'Dedup test'));
+    const repeat = await dispatchAlert(alertInput('critical', 'Dedup test'));
+    await dispatchAlert(alertInput('critical', 'Dedup test'), { dedupe: false });
+
+    expect(first).toEqual([{ sink: 'recording', delivered: true }]);
+    expect(repeat).toEqual([]);
+    expect(sink.sent).toHaveLength(2);
+  });
+
+  it('should report sinks that fail without affecting the others', async () => {
+    const working = recordingSink('low');
+    const broken: AlertSink = { name: 'broken', minSeverity: 'low', send: async () => { throw new Error('Sink offline'); } };
+    setAlertSinks([broken, working]);
+
+    const results = await dispatchAlert(alertInput('high', 'Failure test'), { dedupe: false });
+
+    expect(results).toEqual([
+      { sink: 'broken', delivered: false, error: 'Sink offline' },
+      { sink: 'recording', delivered: true }
+    ]);
+    expect(working.sent).toHaveLength(1);
+  });
+
+  it('should append alerts to a file as JSON lines', async () => {
+    const path = join(tmpdir(), `alerts-${Date.now()}.jsonl`);
+    setAlertSinks([new FileAlertSink(path, 'low')]);
+
+    try {
+      await dispatchAlert(alertInput('high', 'File test one'), { dedupe: false });
+      await dispatchAlert(alertInput('high', 'File test two'), { dedupe: false });
+
+      const lines = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(alert => alert.message)).toEqual(['File test one', 'File test two']);
+    } finally {
+      rmSync(path, { force: true });
+    }
+  });
+
+  it('should summarise alerts in one line', () => {
+    const summary = alertSummary({ ...alertInput('critical', 'Summary test'), id: 'id', suppressed: 3, test: true });
+    expect(summary).toBe('[CRITICAL] [TEST] Summary test (+3 repeats suppressed)');
+  });
+});
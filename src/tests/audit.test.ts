@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { randomBytes } from 'crypto';
+import runDbSync from '../database/utils/sync';
+import { executeQuery } from '../database/utils/operations';
+import { logSecurityEvent } from '../utils/secureLogger';
+import { listAuditEventsService } from '../services/admin/audit';
+import { AUDIT_GENESIS_HASH, hashAuditEvent, checkpointPayload, writeAuditCheckpoints } from '../utils/auditChain';
+import { AuditChainVerifier, verifyAuditChain } from '../database/utils/auditVerify';
+import { checkpointSignature } from '../utils/crypto';
+import { type AuditEventRecord, type AuditCheckpoint } from '../interfaces/audit';
+
+// Events are written in the background; give the inserts a moment to land
+const settle = () => new Promise(resolve => setTimeout(resolve, 200));
+
+describe('Audit Log Tests', () => {
+  const actorUid = `audit-actor-${randomBytes(8).toString('hex')}`;
+  const targetUid = `audit-target-${randomBytes(8).toString('hex')}`;
+
+  beforeAll(async () => {
+    await runDbSync();
+
+    logSecurityEvent({ type: 'auth', severity: 'low', message: 'Login succeeded', userId: targetUid, ip: '198.51.100.4' });
+    logSecurityEvent({ type: 'audit', severity: 'medium', message: 'User banned', userId: actorUid, targetUid, details: { reason: 'spam' } });
+    logSecurityEvent({ type: 'audit', severity: 'medium', message: 'Password changed', userId: targetUid, details: { password: 'hunter22' } });
+    await settle();
+  });
+
+  it('should record events with actor, target and request details', async () => {
+    const { events } = await listAuditEventsService({ user_uid: actorUid, limit: 10 });
+
+    expect(events).toHaveLength(1);
+    expect(events[0].message).toBe('User banned');
+    expect(events[0].actor_uid).toBe(actorUid);
+    expect(events[0].target_uid).toBe(targetUid);
+    expect(events[0].details).toEqual({ reason: 'spam' });
+  });
+
+  it('should match a user as either actor or target', async () => {
+    const { events } = await listAuditEventsService({ user_uid: targetUid, limit: 10 });
+
+    // Newest first
+    expect(events.map(event => event.message)).toEqual(['Password changed', 'User banned', 'Login succeeded']);
+    expect(events[2].ip_address).toBe('198.51.100.4');
+  });
+
+  it('should store sanitized details', async () => {
+    const { events } = await listAuditEventsService({ user_uid: targetUid, limit: 1 });
+    expect(events[0].details).toEqual({ password: '[REDACTED]' });
+  });
+
+  it('should filter by type and severity', async () => {
+    const auth = await listAuditEventsService({ user_uid: targetUid, type: 'auth', limit: 10 });
+    expect(auth.events.map(event => event.message)).toEqual(['Login succeeded']);
+
+    const high = await listAuditEventsService({ user_uid: targetUid, severity: 'high', limit: 10 });
+    expect(high.events).toHaveLength(0);
+  });
+
+  it('should page through events with a cursor', async () => {
+    const first = await listAuditEventsService({ user_uid: targetUid, limit: 2 });
+    expect(first.events).toHaveLength(2);
+    expect(first.next_cursor).not.toBeNull();
+
+    const second = await listAuditEventsService({ user_uid: targetUid, limit: 2, cursor: first.next_cursor! });
+    expect(second.events.map(event => event.message)).toEqual(['Login succeeded']);
+    expect(second.next_cursor).toBeNull();
+
+    await expect(listAuditEventsService({ limit: 2, cursor: 'not-a-cursor' })).rejects.toThrow('Invalid cursor');
+  });
+
+  it('should refuse to modify recorded events', async () => {
+    await expect(executeQuery({
+      text: 'DELETE FROM audit_events WHERE actor_uid = $1',
+      values: [actorUid]
+    })).rejects.toThrow('append-only');
+  });
+});
+
+describe('Audit Chain Tests', () => {
+  // Builds a valid in-memory chain to tamper with
+  const buildChain = (length: number): AuditEventRecord[] => {
+    const events: AuditEventRecord[] = [];
+    let prevHash = AUDIT_GENESIS_HASH;
+    for (let i = 1; i <= length; i++) {
+      const event = {
+        id: String(i),
+        occurred_at: new Date(Date.UTC(2026, 0, 1, 0, i)),
+        type: 'audit' as const,
+        severity: 'medium' as const,
+        message: `Event ${i}`,
+        actor_uid: 'actor',
+        target_uid: null,
+        ip_address: '198.51.100.4',
+        user_agent: null,
+        details: { b: i, a: [1, 2] },
+        prev_hash: prevHash,
+        hash: ''
+      };
+      event.hash = hashAuditEvent(prevHash, event);
+      prevHash = event.hash;
+      events.push(event);
+    }
+    return events;
+  };
+
+  const checkpointFor = (event: AuditEventRecord): AuditCheckpoint => ({
+    id: 1,
+    stream: 'audit',
+    event_id: event.id,
+    hash: event.hash!,
+    signature: checkpointSignature(checkpointPayload('audit', event.id, event.hash!)),
+    created_at: new Date()
+  });
+
+  const verify = (events: AuditEventRecord[], checkpoints: AuditCheckpoint[] = []) => {
+    const verifier = new AuditChainVerifier('audit', checkpoints);
+    events.forEach(event => verifier.check(event));
+    return verifier.finish();
+  };
+
+  it('should hash independently of details key order', () => {
+    const [event] = buildChain(1);
+    const reordered = { ...event, details: { a: [1, 2], b: 1 } };
+    expect(hashAuditEvent(AUDIT_GENESIS_HASH, reordered)).toBe(event.hash!);
+  });
+
+  it('should accept an intact chain and its checkpoints', () => {
+    const events = buildChain(5);
+    const result = verify(events, [checkpointFor(events[2]), checkpointFor(events[4])]);
+
+    expect(result.first_break).toBeNull();
+    expect(result.events).toBe(5);
+  });
+
+  it('should report a modified event', () => {
+    const events = buildChain(5);
+    events[2] = { ...events[2], message: 'Nothing to see here' };
+
+    expect(verify(events).first_break).toEqual({ event_id: '3', reason: expect.stringContaining('modified') });
+  });
+
+  it('should report a removed event at the next link', () => {
+    const events = buildChain(5);
+    events.splice(1, 1);
+
+    expect(verify(events).first_break?.event_id).toBe('3');
+  });
+
+  it('should report truncation past a checkpoint', () => {
+    const events = buildChain(5);
+    const result = verify(events.slice(0, 3), [checkpointFor(events[4])]);
+
+    expect(result.first_break).toEqual({ event_id: '5', reason: expect.stringContaining('truncated') });
+  });
+
+  it('should reject a forged checkpoint', () => {
+    const events = buildChain(3);
+    const forged = { ...checkpointFor(events[1]), signature: 'f'.repeat(64) };
+
+    expect(verify(events, [forged]).first_break?.reason).toContain('signature');
+  });
+
+  it('should chain stored events and verify them end to end', async () => {
+    logSecurityEvent({ type: 'security', severity: 'low', message: 'Chain test one' });
+    logSecurityEvent({ type: 'security', severity: 'low', message: 'Chain test two' });
+    await settle();
+    await writeAuditCheckpoints();
+
+    const { events } = await listAuditEventsService({ type: 'security', limit: 2 });
+    expect(events[0].prev_hash).toBe(events[1].hash);
+
+    const result = await verifyAuditChain({ stream: 'security' });
+    expect(result.valid).toBe(true);
+    expect(result.streams[0].checkpoints).toBeGreaterThan(0);
+  });
+});
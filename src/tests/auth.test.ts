@@ -126,8 +126,8 @@ beforeAll(async () => {
       // Get the username from the test user
       const users = await readSelect<User>('users', ['*'], { uid: testUserUid });
       const user = users[0];
-      const { decrypt } = await import('../utils/crypto');
-      const username = await decrypt(user.username);
+      const { decrypt, fieldContext } = await import('../utils/crypto');
+      const username = await decrypt(user.username, fieldContext('users', 'username', user.uid));
 
       const result = await loginService(username, 'testpassword123', '127.0.0.1', 'Test Runner');
 
@@ -274,8 +274,8 @@ beforeAll(async () => {
       // Create another session first
       const users = await readSelect<User>('users', ['*'], { uid: testUserUid });
       const user = users[0];
-      const { decrypt } = await import('../utils/crypto');
-      const username = await decrypt(user.username);
+      const { decrypt, fieldContext } = await import('../utils/crypto');
+      const username = await decrypt(user.username, fieldContext('users', 'username', user.uid));
       
       await loginService(username, 'testpassword123', '127.0.0.1', 'Test Runner'); // Creates new session
 
@@ -417,8 +417,8 @@ beforeAll(async () => {
       
       // Get the other user's username
       const otherUsers = await readSelect<User>('users', ['*'], { uid: otherUserData.user_uid });
-      const { decrypt } = await import('../utils/crypto');
-      const otherUsername = await decrypt(otherUsers[0].username);
+      const { decrypt, fieldContext } = await import('../utils/crypto');
+      const otherUsername = await decrypt(otherUsers[0].username, fieldContext('users', 'username', otherUsers[0].uid));
 
       try {
         await updateProfileService(testUserUid, { username: otherUsername });
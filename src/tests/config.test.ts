@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createServer, type Server, type IncomingHttpHeaders } from 'http';
+import { type AddressInfo } from 'net';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { resolve } from 'path';
+import { randomBytes } from 'crypto';
+import runDbSync from '../database/utils/sync';
+import { executeQuery } from '../database/utils/operations';
+import { validateConfig } from '../config/env';
+import {
+  ENCRYPTION_KEY,
+  DB_HOST,
+  DB_PORT,
+  DB_USERNAME,
+  DB_PASSWORD,
+  DATABASE,
+  applyVaultSettings
+} from '../config/environment';
+
+interface VaultRequest {
+  method: string;
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+interface VaultResponse {
+  status: number;
+  body?: object;
+}
+
+interface BootResult {
+  sources?: Record<string, string>;
+  error?: string;
+  currentUser?: string;
+  settings: Record<string, string>;
+}
+
+const run = promisify(execFile);
+
+// The Vault settings and NODE_ENV are read once, at import, so each scenario boots the
+// configuration in a process of its own. The result is printed on a line of its own among the logs.
+const BOOT_SCRIPT = `
+  const settings = await import(${JSON.stringify(resolve(__dirname, '../config/environment'))});
+  const { loadEnvironment } = await import(${JSON.stringify(resolve(__dirname, '../config/env'))});
+  const { initDbConnection, getDbPool } = await import(${JSON.stringify(resolve(__dirname, '../database/utils/connect'))});
+
+  let result = {};
+  try {
+    result.sources = await loadEnvironment({ renew: Boolean(process.env.BOOT_WAIT_MS) });
+    if (process.env.BOOT_DATABASE) await initDbConnection();
+    await new Promise(done => setTimeout(done, Number(process.env.BOOT_WAIT_MS || 0)));
+    if (process.env.BOOT_DATABASE) {
+      result.currentUser = (await (await getDbPool()).query('SELECT current_user')).rows[0].current_user;
+    }
+  } catch (error) {
+    result.error = error.message;
+  }
+
+  const { ENCRYPTION_KEY, JWT_SECRET, DB_HOST, DB_PORT, DB_USERNAME, DB_PASSWORD, DATABASE } = settings;
+  result.settings = { ENCRYPTION_KEY, JWT_SECRET, DB_HOST, DB_PORT, DB_USERNAME, DB_PASSWORD, DATABASE };
+  console.log('BOOT_RESULT ' + JSON.stringify(result));
+  process.exit(0);
+`;
+
+const INHERITED_SETTINGS = /^(VAULT_|NODE_ENV$|ENCRYPTION_KEY$|JWT_SECRET$|JWT_ALGORITHM$|DB_|DATABASE$)/;
+
+async function boot(env: Record<string, string>): Promise<BootResult> {
+  const inherited = Object.fromEntries(Object.entries(process.env).filter(([name]) => !INHERITED_SETTINGS.test(name)));
+  const { stdout } = await run(process.execPath, ['-e', BOOT_SCRIPT], {
+    env: { ...inherited, ...env },
+    timeout: 30_000
+  });
+
+  const line = stdout.split('\n').find(output => output.startsWith('BOOT_RESULT '));
+  if (!line) {
+    throw new Error(`Boot printed no result:\n${stdout}`);
+  }
+  return JSON.parse(line.slice('BOOT_RESULT '.length));
+}
+
+describe('Configuration Tests', () => {
+  it('should accept the development configuration', () => {
+    expect(validateConfig({ ENCRYPTION_KEY: 'default', JWT_SECRET: 'default', DB_PASSWORD: 'default' })).toEqual([]);
+  });
+
+  it('should reject settings that are not in the expected format', () => {
+    const original = DB_PORT;
+    applyVaultSettings({ DB_PORT: 'postgres' });
+    try {
+      expect(validateConfig()).toEqual(['DB_PORT is not in the expected format']);
+    } finally {
+      applyVaultSettings({ DB_PORT: original });
+    }
+  });
+
+  it('should update settings in place when Vault supplies them', () => {
+    const original = ENCRYPTION_KEY;
+    applyVaultSettings({ ENCRYPTION_KEY: 'from-vault' });
+    expect(ENCRYPTION_KEY).toBe('from-vault');
+
+    applyVaultSettings({ ENCRYPTION_KEY: original });
+    expect(ENCRYPTION_KEY).toBe(original);
+  });
+
+  it('should refuse development secrets and bad settings in production', async () => {
+    const result = await boot({ NODE_ENV: 'production', SMTP_PORT: '70000' });
+
+    expect(result.error).toContain('Invalid configuration');
+    expect(result.error).toContain('SMTP_PORT must be at most 65535');
+    expect(result.error).toContain('ENCRYPTION_KEY must be set in Vault or the environment in production');
+    expect(result.error).toContain('JWT_SECRET must be set in Vault or the environment in production');
+    expect(result.error).toContain('DB_PASSWORD must be set in Vault or the environment in production');
+  });
+
+  it('should require credentials when VAULT_ADDR is set', async () => {
+    const result = await boot({ VAULT_ADDR: 'http://127.0.0.1:1', VAULT_DB_CREDS_PATH: 'database/creds/api' });
+    expect(result.error).toContain('VAULT_ADDR is set but neither VAULT_TOKEN nor VAULT_ROLE_ID and VAULT_SECRET_ID are');
+
+    expect((await boot({ VAULT_DB_CREDS_PATH: 'database/creds/api' })).error).toContain('VAULT_DB_CREDS_PATH needs VAULT_ADDR');
+  });
+
+  describe('Vault', () => {
+    const requests: VaultRequest[] = [];
+    const rotatedRole = `vault_rotated_${randomBytes(4).toString('hex')}`;
+    let respond: (request: VaultRequest) => VaultResponse;
+    let server: Server;
+    let vaultAddr: string;
+
+    // A database the child process can reach, with the credentials Vault hands out
+    const databaseEnv = () => ({ DB_HOST: DB_HOST, DB_PORT: DB_PORT, DATABASE: DATABASE, VAULT_DB_CREDS_PATH: 'database/creds/api' });
+    const credentials = (username: string, renewable: boolean) => ({
+      status: 200,
+      body: {
+        lease_id: `database/creds/api/${username}`,
+        lease_duration: 3,
+        renewable,
+        data: { username, password: DB_PASSWORD }
+      }
+    });
+    const requestsTo = (path: string) => requests.filter(request => request.path === path);
+
+    beforeAll(async () => {
+      await runDbSync();
+      await executeQuery({ text: `CREATE ROLE ${rotatedRole} LOGIN PASSWORD '${DB_PASSWORD}'` });
+
+      server = createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          const request = { method: req.method!, path: req.url!, headers: req.headers, body };
+          requests.push(request);
+
+          const response = respond(request);
+          res.statusCode = response.status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(response.body ?? {}));
+        });
+      });
+      await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+      vaultAddr = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await executeQuery({ text: `DROP ROLE IF EXISTS ${rotatedRole}` });
+      await new Promise(done => server.close(done));
+    });
+
+    it('should log in with AppRole and map KV fields to settings', async () => {
+      requests.length = 0;
+      respond = ({ path }) => {
+        switch (path) {
+          case '/v1/auth/approle/login':
+            return { status: 200, body: { auth: { client_token: 'approle-token', lease_duration: 0, renewable: false } } };
+          case '/v1/secrets/data/api/database/aes_key':
+            return { status: 200, body: { data: { data: { key: 'vault_encryption_key_32_chars_xx' } } } };
+          case '/v1/secrets/data/api/database/connection':
+            return { status: 200, body: { data: { data: { host: 'db.internal', port: 6432, username: 'api', password: 'vault-password' } } } };
+          default:
+            return { status: 404 };
+        }
+      };
+
+      const result = await boot({
+        VAULT_ADDR: vaultAddr,
+        VAULT_ROLE_ID: 'role',
+        VAULT_SECRET_ID: 'secret',
+        JWT_SECRET: 'environment_jwt_secret_of_32_chars'
+      });
+
+      expect(result.error).toBeUndefined();
+      expect(JSON.parse(requestsTo('/v1/auth/approle/login')[0].body)).toEqual({ role_id: 'role', secret_id: 'secret' });
+      for (const request of requests.slice(1)) {
+        expect(request.headers['x-vault-token']).toBe('approle-token');
+      }
+
+      expect(result.settings).toMatchObject({
+        ENCRYPTION_KEY: 'vault_encryption_key_32_chars_xx',
+        JWT_SECRET: 'environment_jwt_secret_of_32_chars',
+        DB_HOST: 'db.internal',
+        DB_PORT: '6432',
+        DB_USERNAME: 'api',
+        DB_PASSWORD: 'vault-password',
+        DATABASE: 'Hofflabs'
+      });
+      // Settings Vault doesn't have fall back one by one
+      expect(result.sources).toEqual({
+        ENCRYPTION_KEY: 'vault',
+        JWT_SECRET: 'environment',
+        DB_HOST: 'vault',
+        DB_PORT: 'vault',
+        DB_USERNAME: 'vault',
+        DB_PASSWORD: 'vault',
+        DATABASE: 'default'
+      });
+    });
+
+    it('should fall back to the environment outside production when Vault fails', async () => {
+      respond = () => ({ status: 503 });
+
+      const result = await boot({ VAULT_ADDR: vaultAddr, VAULT_TOKEN: 'token', ENCRYPTION_KEY: 'environment_encryption_key_32_ch' });
+
+      expect(result.error).toBeUndefined();
+      expect(result.settings.ENCRYPTION_KEY).toBe('environment_encryption_key_32_ch');
+      expect(result.sources).toMatchObject({ ENCRYPTION_KEY: 'environment', JWT_SECRET: 'default' });
+    });
+
+    it('should refuse to start in production when Vault fails', async () => {
+      respond = () => ({ status: 503 });
+
+      const result = await boot({
+        NODE_ENV: 'production',
+        VAULT_ADDR: vaultAddr,
+        VAULT_TOKEN: 'token',
+        ENCRYPTION_KEY: 'environment_encryption_key_32_ch',
+        JWT_SECRET: 'environment_jwt_secret_of_32_chars',
+        DB_PASSWORD: 'environment-password'
+      });
+
+      expect(result.error).toBe('Could not load secrets from Vault');
+    });
+
+    it('should renew the token and the database lease before they run out', async () => {
+      requests.length = 0;
+      respond = ({ path }) => {
+        switch (path) {
+          case '/v1/auth/token/lookup-self':
+            return { status: 200, body: { data: { ttl: 3, renewable: true } } };
+          case '/v1/auth/token/renew-self':
+            return { status: 200, body: { auth: { client_token: 'token', lease_duration: 3, renewable: true } } };
+          case '/v1/database/creds/api':
+            return credentials(DB_USERNAME, true);
+          case '/v1/sys/leases/renew':
+            return { status: 200, body: { lease_id: `database/creds/api/${DB_USERNAME}`, lease_duration: 3, renewable: true } };
+          default:
+            return { status: 404 };
+        }
+      };
+
+      const result = await boot({ VAULT_ADDR: vaultAddr, VAULT_TOKEN: 'token', BOOT_DATABASE: 'true', BOOT_WAIT_MS: '2500', ...databaseEnv() });
+
+      expect(result.error).toBeUndefined();
+      expect(requestsTo('/v1/auth/token/renew-self')).toHaveLength(1);
+      expect(requestsTo('/v1/auth/token/renew-self')[0].headers['x-vault-token']).toBe('token');
+      expect(requestsTo('/v1/sys/leases/renew').map(request => JSON.parse(request.body)))
+        .toEqual([{ lease_id: `database/creds/api/${DB_USERNAME}`, increment: 3 }]);
+      // Renewed, not replaced
+      expect(requestsTo('/v1/database/creds/api')).toHaveLength(1);
+      expect(result.currentUser).toBe(DB_USERNAME);
+    }, 30_000);
+
+    it('should switch to new database credentials once the lease cannot be renewed', async () => {
+      let issued = 0;
+      respond = ({ path }) => {
+        switch (path) {
+          case '/v1/auth/token/lookup-self':
+            return { status: 200, body: { data: { ttl: 0, renewable: false } } };
+          case '/v1/database/creds/api':
+            return credentials(issued++ === 0 ? DB_USERNAME : rotatedRole, false);
+          default:
+            return { status: 404 };
+        }
+      };
+
+      const result = await boot({ VAULT_ADDR: vaultAddr, VAULT_TOKEN: 'token', BOOT_DATABASE: 'true', BOOT_WAIT_MS: '2500', ...databaseEnv() });
+
+      expect(result.error).toBeUndefined();
+      expect(issued).toBe(2);
+      expect(result.settings.DB_USERNAME).toBe(rotatedRole);
+      expect(result.currentUser).toBe(rotatedRole);
+    }, 30_000);
+
+    it('should keep the current credentials when new ones do not work', async () => {
+      let issued = 0;
+      respond = ({ path }) => {
+        switch (path) {
+          case '/v1/auth/token/lookup-self':
+            return { status: 200, body: { data: { ttl: 0, renewable: false } } };
+          case '/v1/database/creds/api':
+            return credentials(issued++ === 0 ? DB_USERNAME : `${rotatedRole}_missing`, false);
+          default:
+            return { status: 404 };
+        }
+      };
+
+      const result = await boot({ VAULT_ADDR: vaultAddr, VAULT_TOKEN: 'token', BOOT_DATABASE: 'true', BOOT_WAIT_MS: '2500', ...databaseEnv() });
+
+      expect(result.error).toBeUndefined();
+      expect(issued).toBe(2);
+      expect(result.settings.DB_USERNAME).toBe(DB_USERNAME);
+      expect(result.currentUser).toBe(DB_USERNAME);
+    }, 30_000);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll } from 'bun:test';
-import { hash, encrypt, decrypt } from '../utils/crypto';
+import { hash, fingerprint, encrypt, decrypt, fieldContext, needsReencryption, getCiphertextKeyId, getCurrentEncryptionKeyId } from '../utils/crypto';
+import { ENCRYPTION_KEY } from '../config/environment';
 import { 
   hashPassword, 
   encryptPassword, 
@@ -7,7 +8,7 @@ import {
   generateUID 
 } from '../utils/auth/authEncryption';
 import runDbSync from '../database/utils/sync';
-import { randomBytes } from 'crypto';
+import { randomBytes, createCipheriv, pbkdf2Sync } from 'crypto';
 
 describe('Cryptographic Utilities Tests', () => {
   beforeAll(async () => {
@@ -50,6 +51,15 @@ describe('Cryptographic Utilities Tests', () => {
       expect(unicodeHash.length).toBe(64);
     });
 
+    it('should fingerprint tokens with a keyed hash', () => {
+      const token = 'header.payload.signature';
+
+      expect(fingerprint(token)).toBe(fingerprint(token));
+      expect(fingerprint(token)).not.toBe(hash(token)); // Not recomputable without the key
+      expect(fingerprint(token)).not.toBe(fingerprint(token + 'x'));
+      expect(fingerprint(token).length).toBe(64);
+    });
+
     it('should hash with salt', () => {
       const input = 'test';
       const salt = 'salt';
@@ -129,7 +139,90 @@ describe('Cryptographic Utilities Tests', () => {
     });
   });
 
+  describe('Key Versioning', () => {
+    it('should tag ciphertext with the current key id', async () => {
+      const encrypted = await encrypt('versioned');
+
+      expect(encrypted.startsWith(`v2:${getCurrentEncryptionKeyId()}:`)).toBe(true);
+      expect(getCiphertextKeyId(encrypted)).toBe(getCurrentEncryptionKeyId());
+    });
+
+    it('should decrypt legacy values written without a key id', async () => {
+      // Format used before envelopes: base64(iv + AES-256-CBC data) under the default key
+      const key = ENCRYPTION_KEY.length >= 44 && Buffer.from(ENCRYPTION_KEY, 'base64').length >= 32
+        ? Buffer.from(ENCRYPTION_KEY, 'base64').subarray(0, 32)
+        : pbkdf2Sync(ENCRYPTION_KEY, 'hofflabs-salt', 10000, 32, 'sha256');
+      const iv = randomBytes(16);
+      const cipher = createCipheriv('aes-256-cbc', key, iv);
+      const legacy = Buffer.concat([iv, cipher.update('legacy value', 'utf8'), cipher.final()]).toString('base64');
+
+      expect(getCiphertextKeyId(legacy)).toBe('default');
+      expect(await decrypt(legacy)).toBe('legacy value');
+      expect(needsReencryption(legacy)).toBe(true);
+    });
+
+    it('should reject values encrypted under an unknown key id', async () => {
+      const encrypted = await encrypt('orphaned');
+      const payload = encrypted.split(':')[2];
+
+      await expect(decrypt(`v2:retired-key:${payload}`)).rejects.toThrow('Decryption failed');
+    });
+  });
+
+  describe('Authenticated Encryption', () => {
+    const context = fieldContext('users', 'email', 'user-a');
+
+    it('should round-trip values bound to a context', async () => {
+      const encrypted = await encrypt('bound@example.com', context);
+
+      expect(await decrypt(encrypted, context)).toBe('bound@example.com');
+      expect(needsReencryption(encrypted)).toBe(false);
+    });
+
+    it('should reject values moved to another row or column', async () => {
+      const encrypted = await encrypt('bound@example.com', context);
+
+      await expect(decrypt(encrypted, fieldContext('users', 'email', 'user-b'))).rejects.toThrow('Decryption failed');
+      await expect(decrypt(encrypted, fieldContext('users', 'username', 'user-a'))).rejects.toThrow('Decryption failed');
+      await expect(decrypt(encrypted)).rejects.toThrow('Decryption failed');
+    });
+
+    it('should reject tampered ciphertext', async () => {
+      const encrypted = await encrypt('tamper me', context);
+      const [version, keyId, payload] = encrypted.split(':');
+      const bytes = Buffer.from(payload, 'base64');
+      bytes[bytes.length - 20] ^= 0x01;
+
+      await expect(decrypt(`${version}:${keyId}:${bytes.toString('base64')}`, context)).rejects.toThrow('Decryption failed');
+    });
+
+    it('should still read v1 CBC values regardless of context', async () => {
+      const key = ENCRYPTION_KEY.length >= 44 && Buffer.from(ENCRYPTION_KEY, 'base64').length >= 32
+        ? Buffer.from(ENCRYPTION_KEY, 'base64').subarray(0, 32)
+        : pbkdf2Sync(ENCRYPTION_KEY, 'hofflabs-salt', 10000, 32, 'sha256');
+      const iv = randomBytes(16);
+      const cipher = createCipheriv('aes-256-cbc', key, iv);
+      const payload = Buffer.concat([iv, cipher.update('cbc value', 'utf8'), cipher.final()]).toString('base64');
+
+      expect(await decrypt(`v1:default:${payload}`, context)).toBe('cbc value');
+      expect(needsReencryption(`v1:default:${payload}`)).toBe(true);
+      await expect(decrypt(`v1:default:${payload}`, context, { allowLegacy: false })).rejects.toThrow('Decryption failed');
+      await expect(decrypt(payload, context, { allowLegacy: false })).rejects.toThrow('Decryption failed');
+    });
+
+    it('should read values bound to the previous row id only while legacy reads are allowed', async () => {
+      const encrypted = await encrypt('session value', fieldContext('user_sessions', 'session_token', 'user-a'));
+      const rowContext = fieldContext('user_sessions', 'session_token', 42, 'user-a');
+
+      expect(await decrypt(encrypted, rowContext, { allowLegacy: true })).toBe('session value');
+      await expect(decrypt(encrypted, rowContext, { allowLegacy: false })).rejects.toThrow('Decryption failed');
+      await expect(decrypt(encrypted, fieldContext('user_sessions', 'session_token', 43, 'user-b'), { allowLegacy: true })).rejects.toThrow('Decryption failed');
+    });
+  });
+
   describe('Password Hashing and Verification', () => {
+    const uid = 'test-user-uid';
+
     it('should hash passwords with salt', async () => {
       const password = 'test_password';
       const hashed = await hashPassword(password);
@@ -154,51 +247,51 @@ describe('Cryptographic Utilities Tests', () => {
 
     it('should encrypt password hashes', async () => {
       const password = 'test_password';
-      const encrypted = await encryptPassword(password);
+      const encrypted = await encryptPassword(password, uid);
       
       expect(encrypted).toBeDefined();
       expect(encrypted).not.toBe(password);
-      expect(encrypted.includes(':')).toBe(false); // Should be encrypted, not plain salt:hash
+      expect(encrypted.startsWith('v2:')).toBe(true); // Should be an encrypted envelope, not plain salt:hash
     });
 
     it('should verify passwords correctly', async () => {
       const password = 'test_password';
-      const encrypted = await encryptPassword(password);
+      const encrypted = await encryptPassword(password, uid);
       
-      const isValid = await verifyPassword(password, encrypted);
+      const isValid = await verifyPassword(password, encrypted, uid);
       expect(isValid).toBe(true);
       
-      const isInvalid = await verifyPassword('wrong_password', encrypted);
+      const isInvalid = await verifyPassword('wrong_password', encrypted, uid);
       expect(isInvalid).toBe(false);
     });
 
     it('should handle empty passwords', async () => {
-      const encrypted = await encryptPassword('');
-      const isValid = await verifyPassword('', encrypted);
+      const encrypted = await encryptPassword('', uid);
+      const isValid = await verifyPassword('', encrypted, uid);
       expect(isValid).toBe(true);
     });
 
     it('should handle special characters in passwords', async () => {
       const password = '!@#$%^&*()_+{}[]|\\:";\'<>?,./测试🚀';
-      const encrypted = await encryptPassword(password);
-      const isValid = await verifyPassword(password, encrypted);
+      const encrypted = await encryptPassword(password, uid);
+      const isValid = await verifyPassword(password, encrypted, uid);
       expect(isValid).toBe(true);
     });
 
     it('should handle long passwords', async () => {
       const password = 'a'.repeat(1000);
-      const encrypted = await encryptPassword(password);
-      const isValid = await verifyPassword(password, encrypted);
+      const encrypted = await encryptPassword(password, uid);
+      const isValid = await verifyPassword(password, encrypted, uid);
       expect(isValid).toBe(true);
     });
 
     it('should fail verification with corrupted hash', async () => {
       const password = 'test_password';
-      const encrypted = await encryptPassword(password);
+      const encrypted = await encryptPassword(password, uid);
       const corrupted = encrypted.slice(0, -5) + 'xxxxx';
       
       try {
-        const isValid = await verifyPassword(password, corrupted);
+        const isValid = await verifyPassword(password, corrupted, uid);
         expect(isValid).toBe(false);
       } catch (error) {
         // May throw error due to decryption failure
@@ -0,0 +1,73 @@
+import { describe, it, expect, afterAll } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseUserAgent, describeDevice } from '../utils/userAgent';
+import { CsvGeoIpProvider, ipToBigInt, lookupLocation, setGeoIpProvider } from '../utils/geoip';
+
+describe('Session Device Tests', () => {
+  describe('User Agent Parsing', () => {
+    it('should recognise desktop browsers', () => {
+      const chrome = parseUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36');
+      expect(chrome).toEqual({ browser: 'Chrome 126', os: 'Windows 10/11', device_type: 'desktop' });
+
+      const edge = parseUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36 Edg/126.0.2592.87');
+      expect(edge.browser).toBe('Edge 126');
+
+      const firefox = parseUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:128.0) Gecko/20100101 Firefox/128.0');
+      expect(describeDevice(firefox)).toBe('Firefox 128 on Linux');
+    });
+
+    it('should recognise mobile and tablet devices', () => {
+      const iphone = parseUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1');
+      expect(iphone).toEqual({ browser: 'Safari 17', os: 'iOS 17', device_type: 'mobile' });
+
+      const tablet = parseUserAgent('Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36');
+      expect(tablet.os).toBe('Android 14');
+      expect(tablet.device_type).toBe('tablet');
+    });
+
+    it('should handle missing and unknown user agents', () => {
+      expect(parseUserAgent(undefined)).toEqual({ browser: null, os: null, device_type: 'unknown' });
+      expect(describeDevice(parseUserAgent('something-custom/1.0'))).toBe('Unknown device');
+      expect(parseUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)').device_type).toBe('bot');
+    });
+  });
+
+  describe('GeoIP Lookup', () => {
+    const csvPath = path.join(os.tmpdir(), `geoip-test-${Date.now()}.csv`);
+    fs.writeFileSync(csvPath, [
+      'start_ip,end_ip,country,region,city',
+      '81.0.0.0,81.255.255.255,DE,Berlin,Berlin',
+      '1.0.0.0,1.0.0.255,AU',
+      '2001:db8::,2001:db8::ffff,NL,North Holland,Amsterdam'
+    ].join('\n'));
+
+    afterAll(() => {
+      setGeoIpProvider(null);
+      fs.unlinkSync(csvPath);
+    });
+
+    it('should convert IPv4 and IPv6 addresses to comparable numbers', () => {
+      expect(ipToBigInt('0.0.1.1')).toEqual({ family: 4, value: 257n });
+      expect(ipToBigInt('::ffff:0.0.1.1')).toEqual({ family: 4, value: 257n });
+      expect(ipToBigInt('::1')).toEqual({ family: 6, value: 1n });
+      expect(ipToBigInt('not an ip')).toBeNull();
+    });
+
+    it('should label addresses from an offline CSV database', () => {
+      const provider = new CsvGeoIpProvider(csvPath);
+      expect(provider.size).toBe(3);
+      expect(provider.lookup('81.10.20.30')).toBe('Berlin, DE');
+      expect(provider.lookup('1.0.0.7')).toBe('AU');
+      expect(provider.lookup('2001:db8::42')).toBe('Amsterdam, NL');
+      expect(provider.lookup('127.0.0.1')).toBeNull();
+    });
+
+    it('should use a pluggable provider', () => {
+      setGeoIpProvider({ lookup: ip => (ip === '10.1.2.3' ? 'Office' : null) });
+      expect(lookupLocation('10.1.2.3')).toBe('Office');
+      expect(lookupLocation(undefined)).toBeNull();
+    });
+  });
+});
@@ -100,10 +100,11 @@ describe('Email Functionality Tests', () => {
       // Create test user
       const testUsername = `test_verification_${Date.now()}`;
       const testEmail = `test_verification_${Date.now()}@example.com`;
-      const passwordHash = await encryptPassword('TestPassword123!');
+      const uid = randomBytes(16).toString('hex');
+      const passwordHash = await encryptPassword('TestPassword123!', uid);
 
       const userData = {
-        uid: randomBytes(16).toString('hex'),
+        uid,
         username: testUsername,
         username_hash: hash(testUsername),
         email: testEmail,
@@ -210,10 +211,11 @@ describe('Email Functionality Tests', () => {
       // Create another test user for resend test
       const testUsername = `test_resend_${Date.now()}`;
       const testEmail = `test_resend_${Date.now()}@example.com`;
-      const passwordHash = await encryptPassword('TestPassword123!');
+      const uid = randomBytes(16).toString('hex');
+      const passwordHash = await encryptPassword('TestPassword123!', uid);
 
       const userData = {
-        uid: randomBytes(16).toString('hex'),
+        uid,
         username: testUsername,
         username_hash: hash(testUsername),
         email: testEmail,
@@ -253,10 +255,11 @@ describe('Email Functionality Tests', () => {
       // Create test user for password reset
       const testUsername = `test_reset_${Date.now()}`;
       const testEmail = `test_reset_${Date.now()}@example.com`;
-      const passwordHash = await encryptPassword('OriginalPassword123!');
+      const uid = randomBytes(16).toString('hex');
+      const passwordHash = await encryptPassword('OriginalPassword123!', uid);
 
       const userData = {
-        uid: randomBytes(16).toString('hex'),
+        uid,
         username: testUsername,
         username_hash: hash(testUsername),
         email: testEmail,
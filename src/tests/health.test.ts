@@ -0,0 +1,32 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import runDbSync from '../database/utils/sync';
+import { getLivenessService, getReadinessService } from '../services/health';
+
+describe('Health Check Tests', () => {
+  beforeAll(async () => {
+    await runDbSync();
+  });
+
+  it('should report liveness without touching dependencies', () => {
+    const liveness = getLivenessService();
+    expect(liveness.status).toBe('up');
+    expect(liveness.uptime_seconds).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report each dependency with its latency', async () => {
+    const report = await getReadinessService();
+
+    expect(report.status).not.toBe('down');
+    expect(report.dependencies.database.status).toBe('up');
+    expect(report.dependencies.database.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(report.dependencies.schema.status).toBe('up');
+    expect(report.dependencies.schema.details?.pending).toBe(0);
+    expect(report.dependencies.smtp.status).toBe('skipped');
+  });
+
+  it('should serve repeat checks from the cache', async () => {
+    await getReadinessService();
+    const report = await getReadinessService();
+    expect(report.cached).toBe(true);
+  });
+});
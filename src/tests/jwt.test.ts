@@ -1,7 +1,22 @@
-import { describe, it, expect, beforeAll } from 'bun:test';
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
 import { verifyJWT, decodeJWT, verifyRefreshTokenFormat } from '../utils/jwt';
 import { createJWT, generateRefreshToken, splitRefreshToken } from '../utils/auth/authEncryption';
-import { randomBytes } from 'crypto';
+import { resolvePermissions, hasPermission } from '../utils/auth/roles';
+import { setTokenDenylistStore, revokeAccessTokenClaims, isAccessTokenRevoked, type TokenDenylistStore } from '../utils/auth/tokenDenylist';
+import {
+  buildSigningKey,
+  registerSigningKey,
+  getActiveSigningKey,
+  getPublicJwks,
+  generateSigningKey,
+  replaceKeyRing,
+  exportKeyMaterial,
+  importKeyMaterial,
+  type JwtAlgorithm,
+  type SigningKey
+} from '../utils/auth/signingKeys';
+import { randomBytes, generateKeyPairSync, createPublicKey } from 'crypto';
+import jwt from 'jsonwebtoken';
 import runDbSync from '../database/utils/sync';
 
 describe('JWT Utilities Tests', () => {
@@ -183,4 +198,232 @@ describe('JWT Utilities Tests', () => {
       expect(token1.length).toBe(token2.length);
     });
   });
+
+  describe('Role Claims', () => {
+    it('should embed role claims in access tokens', () => {
+      const token = createJWT(testUid, {
+        role: 'member',
+        sub_roles: ['support'],
+        permissions: resolvePermissions('member', ['support'])
+      });
+      const decoded = verifyJWT(token);
+
+      expect(decoded.role).toBe('member');
+      expect(decoded.sub_roles).toEqual(['support']);
+      expect(decoded.permissions).toContain('profile:write');
+      expect(decoded.permissions).toContain('users:unlock');
+    });
+
+    it('should not accept refresh tokens as access tokens', () => {
+      expect(() => verifyJWT(generateRefreshToken(testUid))).toThrow();
+    });
+
+    it('should resolve permissions from role and sub-roles', () => {
+      expect(resolvePermissions('admin')).toEqual(['*']);
+      expect(resolvePermissions('guest')).toEqual(['profile:read']);
+      expect(resolvePermissions('unknown_role')).toEqual([]);
+      expect(resolvePermissions('guest', ['moderator'])).toContain('users:ban');
+    });
+
+    it('should match exact, resource wildcard and global wildcard permissions', () => {
+      expect(hasPermission(['users:read'], 'users:read')).toBe(true);
+      expect(hasPermission(['users:read'], 'users:write')).toBe(false);
+      expect(hasPermission(['users:*'], 'users:write')).toBe(true);
+      expect(hasPermission(['*'], 'anything:at_all')).toBe(true);
+      expect(hasPermission([], 'users:read')).toBe(false);
+    });
+  });
+
+  describe('Asymmetric Signing', () => {
+    const keyPairs: Array<[JwtAlgorithm, any, object]> = [
+      ['RS256', 'rsa', { modulusLength: 2048 }],
+      ['ES256', 'ec', { namedCurve: 'prime256v1' }],
+      ['EdDSA', 'ed25519', {}]
+    ];
+    let originalKey: SigningKey;
+
+    const generatePem = (type: any, options: object) => generateKeyPairSync(type, {
+      ...options,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' }
+    } as any) as unknown as { privateKey: string; publicKey: string };
+
+    beforeAll(() => {
+      originalKey = getActiveSigningKey();
+    });
+
+    afterAll(() => {
+      registerSigningKey(originalKey);
+    });
+
+    it('should not publish the shared HS256 secret', () => {
+      expect(getPublicJwks().keys.find(key => key.kid === originalKey.kid)).toBeUndefined();
+    });
+
+    for (const [algorithm, type, options] of keyPairs) {
+      it(`should sign and verify ${algorithm} tokens with a kid header`, () => {
+        const { privateKey } = generatePem(type, options);
+        const signingKey = buildSigningKey(algorithm, { privateKeyPem: privateKey });
+        registerSigningKey(signingKey);
+
+        const token = createJWT(testUid);
+        const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+
+        expect(header.alg).toBe(algorithm);
+        expect(header.kid).toBe(signingKey.kid);
+        expect(verifyJWT(token).sub).toBe(testUid);
+      });
+
+      it(`should publish the ${algorithm} public key in the JWKS`, () => {
+        const token = createJWT(testUid);
+        const { kid } = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+        const jwk = getPublicJwks().keys.find(key => key.kid === kid);
+
+        expect(jwk).toBeDefined();
+        expect(jwk!.alg).toBe(algorithm);
+        expect((jwk as any).d).toBeUndefined(); // never the private part
+
+        // A third party holding only the JWK can verify the token
+        if (algorithm !== 'EdDSA') {
+          const publicKey = createPublicKey({ key: jwk as any, format: 'jwk' });
+          const decoded = jwt.verify(token, publicKey, { algorithms: [algorithm as jwt.Algorithm] }) as any;
+          expect(decoded.sub).toBe(testUid);
+        }
+      });
+    }
+
+    it('should reject a token whose alg does not match its key', () => {
+      const token = createJWT(testUid);
+      const [header, payload, signature] = token.split('.');
+      const forgedHeader = Buffer.from(JSON.stringify({
+        ...JSON.parse(Buffer.from(header, 'base64url').toString()),
+        alg: 'HS256'
+      })).toString('base64url');
+
+      expect(() => verifyJWT(`${forgedHeader}.${payload}.${signature}`)).toThrow();
+    });
+
+    it('should reject tokens signed by an unknown key', () => {
+      const { privateKey } = generatePem('ed25519', {});
+      const strayKey = buildSigningKey('EdDSA', { privateKeyPem: privateKey, kid: 'not-registered' });
+      const token = createJWT(testUid);
+      const [, payload] = token.split('.');
+      const header = Buffer.from(JSON.stringify({ alg: 'EdDSA', typ: 'JWT', kid: strayKey.kid })).toString('base64url');
+
+      expect(() => verifyJWT(`${header}.${payload}.c2lnbmF0dXJl`)).toThrow();
+    });
+
+    it('should reject keys that do not match the algorithm', () => {
+      const { privateKey } = generatePem('ed25519', {});
+      expect(() => buildSigningKey('ES256', { privateKeyPem: privateKey })).toThrow('P-256');
+    });
+  });
+
+  describe('Key Rotation', () => {
+    let originalKey: SigningKey;
+
+    beforeAll(() => {
+      originalKey = getActiveSigningKey();
+    });
+
+    afterAll(() => {
+      replaceKeyRing([originalKey]);
+      registerSigningKey(originalKey);
+    });
+
+    it('should round-trip stored key material', async () => {
+      for (const algorithm of ['HS256', 'RS256', 'ES256', 'EdDSA'] as JwtAlgorithm[]) {
+        const key = await generateSigningKey(algorithm);
+        const material = exportKeyMaterial(key);
+        const restored = importKeyMaterial(algorithm, key.kid, material.privateKey, material.publicKey);
+
+        expect(restored.kid).toBe(key.kid);
+        expect(restored.algorithm).toBe(algorithm);
+      }
+    });
+
+    it('should keep signing with the current key until the new one activates', async () => {
+      const current = { ...originalKey, activatesAt: new Date(Date.now() - 60_000) };
+      const next = { ...(await generateSigningKey('EdDSA')), activatesAt: new Date(Date.now() + 60_000) };
+      replaceKeyRing([current, next]);
+
+      expect(getActiveSigningKey().kid).toBe(current.kid);
+      // Published ahead of use so other services can fetch it before it signs anything
+      expect(getPublicJwks().keys.some(key => key.kid === next.kid)).toBe(true);
+    });
+
+    it('should verify tokens from the old key after rotation', async () => {
+      const oldToken = createJWT(testUid);
+      const next = { ...(await generateSigningKey('ES256')), activatesAt: new Date(Date.now() - 1000) };
+      replaceKeyRing([
+        { ...originalKey, activatesAt: new Date(Date.now() - 60_000), retiresAt: new Date(Date.now() + 60_000) },
+        next
+      ]);
+
+      expect(getActiveSigningKey().kid).toBe(next.kid);
+      expect(verifyJWT(createJWT(testUid)).sub).toBe(testUid);
+      expect(verifyJWT(oldToken).sub).toBe(testUid);
+    });
+
+    it('should stop verifying tokens once their key is retired', async () => {
+      const oldToken = createJWT(testUid);
+      const oldKid = JSON.parse(Buffer.from(oldToken.split('.')[0], 'base64url').toString()).kid;
+      const next = { ...(await generateSigningKey('EdDSA')), activatesAt: new Date(Date.now() - 1000) };
+      const retired = { ...getActiveSigningKey(), kid: oldKid, retiresAt: new Date(Date.now() - 1) };
+      replaceKeyRing([retired, next]);
+
+      expect(() => verifyJWT(oldToken)).toThrow();
+      expect(getPublicJwks().keys.some(key => key.kid === oldKid)).toBe(false);
+    });
+  });
+
+  describe('Access Token Revocation', () => {
+    afterAll(() => {
+      setTokenDenylistStore(null);
+    });
+
+    it('should reject a revoked token until it expires', async () => {
+      setTokenDenylistStore(null);
+      const decoded = verifyJWT(createJWT(testUid));
+      const other = verifyJWT(createJWT(testUid));
+
+      expect(await isAccessTokenRevoked(decoded.jti)).toBe(false);
+      await revokeAccessTokenClaims(decoded);
+
+      expect(await isAccessTokenRevoked(decoded.jti)).toBe(true);
+      expect(await isAccessTokenRevoked(other.jti)).toBe(false);
+    });
+
+    it('should ignore tokens that have already expired', async () => {
+      setTokenDenylistStore(null);
+      const jti = randomBytes(16).toString('hex');
+      await revokeAccessTokenClaims({ jti, exp: Math.floor(Date.now() / 1000) - 60 });
+
+      expect(await isAccessTokenRevoked(jti)).toBe(false);
+    });
+
+    it('should share revocations through the backend store', async () => {
+      const entries = new Map<string, Date>();
+      const store: TokenDenylistStore = {
+        add: async (jti, expiresAt) => { entries.set(jti, expiresAt); },
+        get: async jti => entries.get(jti) ?? null
+      };
+      setTokenDenylistStore(store);
+
+      // Revoked by another instance: only the shared store knows about it
+      const decoded = verifyJWT(createJWT(testUid));
+      entries.set(decoded.jti, new Date(decoded.exp * 1000));
+
+      expect(await isAccessTokenRevoked(decoded.jti)).toBe(true);
+    });
+
+    it('should treat tokens as revoked when the store is unavailable', async () => {
+      setTokenDenylistStore({
+        add: async () => {},
+        get: async () => { throw new Error('connection refused'); }
+      });
+
+      expect(await isAccessTokenRevoked(verifyJWT(createJWT(testUid)).jti)).toBe(true);
+    });
+  });
 });
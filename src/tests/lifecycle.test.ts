@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'bun:test';
+import { trackBackgroundTask, flushBackgroundTasks, pendingBackgroundTasks } from '../utils/lifecycle';
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+describe('Lifecycle Tests', () => {
+  it('should wait for tracked work, including work it starts', async () => {
+    let finished = false;
+    trackBackgroundTask(delay(20).then(() => {
+      trackBackgroundTask(delay(20).then(() => {
+        finished = true;
+      }));
+    }));
+
+    expect(await flushBackgroundTasks(1000)).toBe(true);
+    expect(finished).toBe(true);
+    expect(pendingBackgroundTasks()).toBe(0);
+  });
+
+  it('should stop tracking work that fails', async () => {
+    const failing = trackBackgroundTask(Promise.reject(new Error('boom')));
+    await expect(failing).rejects.toThrow('boom');
+    expect(pendingBackgroundTasks()).toBe(0);
+  });
+
+  it('should give up on work that outlasts the timeout', async () => {
+    trackBackgroundTask(delay(200));
+    expect(await flushBackgroundTasks(20)).toBe(false);
+    await flushBackgroundTasks(1000);
+  });
+});
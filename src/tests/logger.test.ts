@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'bun:test';
+import type { IncomingMessage } from 'http';
+import { generateRequestId, sanitizeForLogging, redactUrl } from '../utils/logger';
+
+const requestWithId = (id?: string) => ({ headers: id === undefined ? {} : { 'x-request-id': id } }) as IncomingMessage;
+
+describe('Logger Tests', () => {
+  it('should reuse a well-formed incoming request id', () => {
+    expect(generateRequestId(requestWithId('req-123.abc:1'))).toBe('req-123.abc:1');
+  });
+
+  it('should generate an id when none or a malformed one is sent', () => {
+    const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+    expect(generateRequestId(requestWithId())).toMatch(uuid);
+    expect(generateRequestId(requestWithId('bad id\n{"level":60}'))).toMatch(uuid);
+    expect(generateRequestId(requestWithId('x'.repeat(129)))).toMatch(uuid);
+  });
+
+  it('should redact sensitive fields at any depth', () => {
+    const sanitized = sanitizeForLogging({
+      email: 'user@example.com',
+      password: 'hunter2',
+      nested: { refresh_token: 'abc', attempts: 3 }
+    });
+
+    expect(sanitized).toEqual({
+      email: 'user@example.com',
+      password: '[REDACTED]',
+      nested: { refresh_token: '[REDACTED]', attempts: 3 }
+    });
+  });
+
+  it('should redact tokens in query strings and path parameters', () => {
+    expect(redactUrl('/auth/verify-email?token=abc123&lang=en')).toBe('/auth/verify-email?token=%5BREDACTED%5D&lang=en');
+    expect(redactUrl('/auth/reset/abc123', { token: 'abc123' })).toBe('/auth/reset/[REDACTED]');
+    expect(redactUrl('/admin/users/u-1?page=2', { uid: 'u-1' })).toBe('/admin/users/u-1?page=2');
+  });
+});
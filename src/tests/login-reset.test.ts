@@ -29,8 +29,8 @@ describe('Login Attempts Reset on Successful Login', () => {
     // Get the test user from database
     const users = await readSelect<User>('users', ['*'], { uid: testUser.user_uid });
     const user = users[0];
-    const { decrypt } = await import('../utils/crypto');
-    const username = await decrypt(user.username);
+    const { decrypt, fieldContext } = await import('../utils/crypto');
+    const username = await decrypt(user.username, fieldContext('users', 'username', user.uid));
 
     // Step 1: Make multiple failed login attempts to trigger lock
     console.log('Making failed login attempts...');
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'bun:test';
+import { Counter, Histogram, renderMetrics } from '../utils/metrics/registry';
+import { sqlOperation } from '../utils/metrics/instruments';
+
+describe('Metrics Tests', () => {
+  it('should render labelled counters', () => {
+    const counter = new Counter('test_logins_total', 'Test logins', ['outcome']);
+    counter.inc({ outcome: 'success' });
+    counter.inc({ outcome: 'success' });
+    counter.inc({ outcome: 'say "hi"\n' });
+
+    const output = renderMetrics();
+    expect(output).toContain('# TYPE test_logins_total counter');
+    expect(output).toContain('test_logins_total{outcome="success"} 2');
+    expect(output).toContain('test_logins_total{outcome="say \\"hi\\"\\n"} 1');
+    expect(() => counter.inc({ outcome: 'success' }, -1)).toThrow('Counters can only increase');
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const histogram = new Histogram('test_duration_seconds', 'Test durations', [], [0.1, 1]);
+    histogram.observe(undefined, 0.05);
+    histogram.observe(undefined, 0.5);
+    histogram.observe(undefined, 5);
+
+    const output = renderMetrics();
+    expect(output).toContain('test_duration_seconds_bucket{le="0.1"} 1');
+    expect(output).toContain('test_duration_seconds_bucket{le="1"} 2');
+    expect(output).toContain('test_duration_seconds_bucket{le="+Inf"} 3');
+    expect(output).toContain('test_duration_seconds_sum 5.55');
+    expect(output).toContain('test_duration_seconds_count 3');
+  });
+
+  it('should refuse duplicate metric names', () => {
+    expect(() => new Counter('test_logins_total', 'Again')).toThrow('Metric already registered');
+  });
+
+  it('should label queries by statement type only', () => {
+    expect(sqlOperation('  select * from users where uid = $1')).toBe('SELECT');
+    expect(sqlOperation('INSERT INTO users (uid) VALUES ($1)')).toBe('INSERT');
+    expect(sqlOperation('VACUUM users')).toBe('OTHER');
+  });
+});
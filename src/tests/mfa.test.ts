@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  generateTotp,
+  verifyTotp,
+  matchTotpStep,
+  buildOtpAuthUri
+} from '../utils/auth/totp';
+import { createMfaChallengeToken, validateMfaChallengeToken, createJWT, validateRefreshToken } from '../utils/auth/authEncryption';
+import {
+  startMfaEnrollmentService,
+  confirmMfaEnrollmentService,
+  regenerateRecoveryCodesService,
+  verifyMfaLoginService
+} from '../services/auth/mfa';
+import { countUnusedRecoveryCodes } from '../database/auth/auth-operations';
+import { executeQuery } from '../database/utils/operations';
+import { hash } from '../utils/crypto';
+import { createUser } from '../utils/auth/userManagement';
+import runDbSync from '../database/utils/sync';
+import { type User } from '../interfaces/auth/user';
+import { randomBytes } from 'crypto';
+import * as bcrypt from 'bcryptjs';
+
+// RFC 6238 Appendix B uses the ASCII secret "12345678901234567890" for SHA1
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('MFA Tests', () => {
+  describe('Base32 Encoding', () => {
+    it('should encode the RFC test secret correctly', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+
+    it('should round-trip random buffers', () => {
+      const buffer = randomBytes(20);
+      expect(base32Decode(base32Encode(buffer)).equals(buffer)).toBe(true);
+    });
+
+    it('should accept lowercase and padded input', () => {
+      expect(base32Decode('gezdgnbvgy3tqojq====').toString('ascii')).toBe('1234567890');
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('INVALID1')).toThrow();
+    });
+  });
+
+  describe('TOTP Generation', () => {
+    it('should match RFC 6238 test vectors (last 6 digits)', () => {
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+      expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+    });
+
+    it('should generate 32 character base32 secrets', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(generateTotpSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('TOTP Verification', () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+
+    it('should accept the current code', () => {
+      expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(true);
+    });
+
+    it('should accept codes one step either side for clock drift', () => {
+      expect(verifyTotp(secret, generateTotp(secret, now - 30 * 1000), now)).toBe(true);
+      expect(verifyTotp(secret, generateTotp(secret, now + 30 * 1000), now)).toBe(true);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      expect(verifyTotp(secret, generateTotp(secret, now - 120 * 1000), now)).toBe(false);
+    });
+
+    it('should report the time step a code belongs to', () => {
+      const counter = Math.floor(now / 1000 / 30);
+      expect(matchTotpStep(secret, generateTotp(secret, now), now)).toBe(counter);
+      expect(matchTotpStep(secret, generateTotp(secret, now + 30 * 1000), now)).toBe(counter + 1);
+      expect(matchTotpStep(secret, generateTotp(secret, now - 120 * 1000), now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(secret, '')).toBe(false);
+      expect(verifyTotp(secret, '12345')).toBe(false);
+      expect(verifyTotp(secret, 'abcdef')).toBe(false);
+      expect(verifyTotp(secret, null as any)).toBe(false);
+    });
+  });
+
+  describe('otpauth URI', () => {
+    it('should include issuer, secret and parameters', () => {
+      const uri = buildOtpAuthUri('JBSWY3DPEHPK3PXP', 'user@example.com');
+      expect(uri.startsWith('otpauth://totp/Hofflabs%3Auser%40example.com?')).toBe(true);
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(uri).toContain('issuer=Hofflabs');
+      expect(uri).toContain('digits=6');
+      expect(uri).toContain('period=30');
+    });
+  });
+
+  describe('MFA Challenge Tokens', () => {
+    const uid = randomBytes(32).toString('hex');
+
+    it('should validate a freshly issued challenge token', () => {
+      const result = validateMfaChallengeToken(createMfaChallengeToken(uid));
+      expect(result.valid).toBe(true);
+      expect(result.uid).toBe(uid);
+    });
+
+    it('should not accept access tokens as challenge tokens', () => {
+      expect(validateMfaChallengeToken(createJWT(uid)).valid).toBe(false);
+    });
+
+    it('should not accept challenge tokens as refresh tokens', () => {
+      expect(validateRefreshToken(createMfaChallengeToken(uid)).valid).toBe(false);
+    });
+
+    it('should carry a token id and expiry so it can be spent', () => {
+      const first = validateMfaChallengeToken(createMfaChallengeToken(uid));
+      const second = validateMfaChallengeToken(createMfaChallengeToken(uid));
+
+      expect(first.tokenId).toBeDefined();
+      expect(first.tokenId).not.toBe(second.tokenId);
+      expect(first.expiresAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject garbage', () => {
+      expect(validateMfaChallengeToken('not-a-token').valid).toBe(false);
+    });
+  });
+
+  describe('MFA Login Verification', () => {
+    let user: User;
+    let secret: string;
+    let challenge: string;
+    // Codes are taken from the current step and the next one, which both stay inside
+    // the drift window even if a step boundary passes while the tests run
+    const now = Date.now();
+
+    beforeAll(async () => {
+      await runDbSync();
+      const suffix = randomBytes(6).toString('hex');
+      user = await createUser({ username: `mfa_${suffix}`, email: `mfa_${suffix}@example.com`, password_hash: 'unused' });
+      ({ secret } = await startMfaEnrollmentService(user.uid));
+      await confirmMfaEnrollmentService(user.uid, generateTotp(secret, now));
+      challenge = createMfaChallengeToken(user.uid);
+    });
+
+    it('should not accept the enrollment code again at login', async () => {
+      const result = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { code: generateTotp(secret, now) });
+      expect('error' in result && result.error).toBe('Invalid verification code');
+    });
+
+    it('should reject a code that was already used to log in', async () => {
+      const code = generateTotp(secret, now + 30 * 1000);
+
+      const first = await verifyMfaLoginService(challenge, { code });
+      expect('access_token' in first).toBe(true);
+
+      const replay = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { code });
+      expect('error' in replay && replay.error).toBe('Invalid verification code');
+    });
+
+    it('should not accept a challenge token that was already used', async () => {
+      const spent = await verifyMfaLoginService(challenge, { code: generateTotp(secret, now + 30 * 1000) });
+      expect('error' in spent && spent.error).toBe('Invalid or expired MFA challenge');
+    });
+  });
+
+  describe('MFA Recovery Codes', () => {
+    const password = 'recovery-test-password';
+    let user: User;
+    let codes: string[];
+
+    beforeAll(async () => {
+      await runDbSync();
+      const suffix = randomBytes(6).toString('hex');
+      user = await createUser({
+        username: `recovery_${suffix}`,
+        email: `recovery_${suffix}@example.com`,
+        password_hash: await bcrypt.hash(password, 4)
+      });
+      const { secret } = await startMfaEnrollmentService(user.uid);
+      codes = await confirmMfaEnrollmentService(user.uid, generateTotp(secret));
+    });
+
+    it('should issue a set of distinct codes on enrollment', async () => {
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+      expect(await countUnusedRecoveryCodes(user.uid)).toBe(10);
+    });
+
+    it('should store keyed digests rather than a plain hash of the code', async () => {
+      const rows = await executeQuery<{ code_hash: string }>({
+        text: 'SELECT code_hash FROM mfa_recovery_codes WHERE user_uid = $1',
+        values: [user.uid]
+      });
+      const plainHash = hash(codes[0].replace('-', ''), user.uid);
+
+      expect(rows).toHaveLength(10);
+      expect(rows.some(row => row.code_hash === plainHash)).toBe(false);
+    });
+
+    it('should accept a code once', async () => {
+      const first = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { recovery_code: codes[0] });
+      expect('access_token' in first).toBe(true);
+      expect(await countUnusedRecoveryCodes(user.uid)).toBe(9);
+
+      const again = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { recovery_code: codes[0] });
+      expect('error' in again && again.error).toBe('Invalid verification code');
+    });
+
+    it('should ignore case, spaces and dashes', async () => {
+      const typed = ` ${codes[1].replace('-', '').toUpperCase()} `;
+      const result = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { recovery_code: typed });
+      expect('access_token' in result).toBe(true);
+    });
+
+    it('should require the current password to regenerate', async () => {
+      await expect(regenerateRecoveryCodesService(user.uid, 'wrong-password')).rejects.toThrow('Current password is incorrect');
+    });
+
+    it('should invalidate the old set when regenerated', async () => {
+      const fresh = await regenerateRecoveryCodesService(user.uid, password);
+      expect(fresh).toHaveLength(10);
+      expect(fresh).not.toContain(codes[2]);
+      expect(await countUnusedRecoveryCodes(user.uid)).toBe(10);
+
+      const old = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { recovery_code: codes[2] });
+      expect('error' in old && old.error).toBe('Invalid verification code');
+
+      const current = await verifyMfaLoginService(createMfaChallengeToken(user.uid), { recovery_code: fresh[0] });
+      expect('access_token' in current).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadMigrations, createMigration } from '../database/utils/migrate';
+
+describe('Migration Tests', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('Loading', () => {
+    it('should load the repository migrations in version order', () => {
+      const migrations = loadMigrations();
+      const versions = migrations.map(migration => migration.version);
+
+      expect(versions[0]).toBe(1);
+      expect(versions).toEqual([...versions].sort((a, b) => a - b));
+      expect(migrations.every(migration => migration.down !== null)).toBe(true);
+    });
+
+    it('should pair up and down files and ignore unrelated files', () => {
+      fs.writeFileSync(path.join(directory, '0002_second.up.sql'), 'SELECT 2;');
+      fs.writeFileSync(path.join(directory, '0001_first.up.sql'), 'SELECT 1;');
+      fs.writeFileSync(path.join(directory, '0001_first.down.sql'), 'SELECT -1;');
+      fs.writeFileSync(path.join(directory, 'README.md'), 'notes');
+
+      const migrations = loadMigrations(directory);
+
+      expect(migrations.map(migration => migration.name)).toEqual(['first', 'second']);
+      expect(migrations[0].down).toBe('SELECT -1;');
+      expect(migrations[1].down).toBeNull();
+    });
+
+    it('should change the checksum when an up file is edited', () => {
+      const file = path.join(directory, '0001_first.up.sql');
+      fs.writeFileSync(file, 'SELECT 1;');
+      const before = loadMigrations(directory)[0].checksum;
+
+      fs.writeFileSync(file, 'SELECT 1; SELECT 2;');
+      expect(loadMigrations(directory)[0].checksum).not.toBe(before);
+    });
+
+    it('should detect the no-transaction directive', () => {
+      fs.writeFileSync(path.join(directory, '0001_index.up.sql'), '-- migrate:no-transaction\nCREATE INDEX CONCURRENTLY x ON y (z);');
+      expect(loadMigrations(directory)[0].transactional).toBe(false);
+    });
+
+    it('should reject two migrations with the same version', () => {
+      fs.writeFileSync(path.join(directory, '0001_first.up.sql'), 'SELECT 1;');
+      fs.writeFileSync(path.join(directory, '0001_other.up.sql'), 'SELECT 1;');
+      expect(() => loadMigrations(directory)).toThrow('Duplicate migration version');
+    });
+
+    it('should reject a down file without an up file', () => {
+      fs.writeFileSync(path.join(directory, '0001_first.down.sql'), 'SELECT 1;');
+      expect(() => loadMigrations(directory)).toThrow('has no .up.sql file');
+    });
+  });
+
+  describe('Scaffolding', () => {
+    it('should create the next numbered up/down pair', () => {
+      fs.writeFileSync(path.join(directory, '0007_existing.up.sql'), 'SELECT 1;');
+
+      const files = createMigration('add_widgets', directory);
+
+      expect(files).toEqual(['0008_add_widgets.up.sql', '0008_add_widgets.down.sql']);
+      expect(fs.existsSync(path.join(directory, files[0]))).toBe(true);
+    });
+
+    it('should reject invalid names', () => {
+      expect(() => createMigration('Add Widgets', directory)).toThrow();
+    });
+  });
+});
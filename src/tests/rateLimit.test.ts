@@ -0,0 +1,163 @@
+import { describe, it, expect, afterAll } from 'bun:test';
+import { MemoryRateLimitStore, RedisRateLimitStore, type RedisRateLimitClient } from '../utils/rateLimit/stores';
+import {
+  consumeRateLimit,
+  resetRateLimit,
+  rateLimitHeaders,
+  setRateLimitStore,
+  parsePolicies,
+  parseDuration,
+  listRateLimitedClients,
+  clearRateLimits
+} from '../utils/rateLimit/limiter';
+
+describe('Rate Limiting Tests', () => {
+  afterAll(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  describe('Policy Configuration', () => {
+    it('should parse durations', () => {
+      expect(parseDuration('500ms')).toBe(500);
+      expect(parseDuration('30s')).toBe(30_000);
+      expect(parseDuration('15m')).toBe(900_000);
+      expect(parseDuration('1h')).toBe(3_600_000);
+      expect(() => parseDuration('soon')).toThrow();
+    });
+
+    it('should parse policy overrides', () => {
+      expect(parsePolicies('auth=5/15m/1h, global=300/1m')).toEqual({
+        auth: { max: 5, windowMs: 900_000, blockMs: 3_600_000 },
+        global: { max: 300, windowMs: 60_000 }
+      });
+      expect(parsePolicies('')).toEqual({});
+      expect(() => parsePolicies('auth=lots/1m')).toThrow();
+    });
+  });
+
+  describe('Limiter', () => {
+    it('should allow requests up to the limit and reject the rest', async () => {
+      setRateLimitStore(new MemoryRateLimitStore());
+      const client = `test-${Date.now()}`;
+
+      for (let i = 0; i < 100; i++) {
+        expect((await consumeRateLimit('global', client)).limited).toBe(false);
+      }
+
+      const decision = await consumeRateLimit('global', client);
+      expect(decision.limited).toBe(true);
+      expect(decision.exceeded).toBe(true);
+      expect(decision.remaining).toBe(0);
+
+      // Counted separately per client
+      expect((await consumeRateLimit('global', `${client}-other`)).limited).toBe(false);
+
+      // global counters live in this instance, not the store swapped in above
+      await resetRateLimit('global', client);
+    });
+
+    it('should keep a client blocked for the policy block duration', async () => {
+      setRateLimitStore(new MemoryRateLimitStore());
+      const client = `blocked-${Date.now()}`;
+
+      let decision = await consumeRateLimit('auth', client);
+      for (let i = 0; i < 10; i++) {
+        decision = await consumeRateLimit('auth', client);
+      }
+
+      expect(decision.limited).toBe(true);
+      expect(decision.resetAt).toBeGreaterThanOrEqual(Date.now() + 15 * 60 * 1000 - 1000);
+
+      await resetRateLimit('auth', client);
+      expect((await consumeRateLimit('auth', client)).limited).toBe(false);
+    });
+
+    it('should describe the decision in headers', async () => {
+      setRateLimitStore(new MemoryRateLimitStore());
+      const headers = rateLimitHeaders(await consumeRateLimit('global', 'headers-client'));
+
+      expect(headers['RateLimit-Limit']).toBe('100');
+      expect(headers['RateLimit-Remaining']).toBe('99');
+      expect(headers['RateLimit-Policy']).toBe('100;w=60');
+      expect(parseInt(headers['RateLimit-Reset'])).toBeLessThanOrEqual(60);
+      expect(headers['Retry-After']).toBeUndefined();
+    });
+
+    it('should fail open when the store is unavailable', async () => {
+      setRateLimitStore({
+        increment: async () => { throw new Error('connection refused'); },
+        block: async () => {},
+        list: async () => [],
+        reset: async () => {}
+      });
+
+      expect((await consumeRateLimit('auth', 'any-client')).limited).toBe(false);
+    });
+
+    it('should count the global policy per instance rather than in the shared store', async () => {
+      setRateLimitStore({
+        increment: async () => { throw new Error('shared store should not be used'); },
+        block: async () => {},
+        list: async () => [],
+        reset: async () => {}
+      });
+
+      await consumeRateLimit('global', 'global-client');
+      expect((await consumeRateLimit('global', 'global-client')).remaining).toBe(98);
+    });
+
+    it('should limit mail-sending routes more tightly than logins', async () => {
+      setRateLimitStore(new MemoryRateLimitStore());
+      const client = `email-${Date.now()}`;
+
+      for (let i = 0; i < 5; i++) {
+        expect((await consumeRateLimit('email', client)).limited).toBe(false);
+      }
+      const decision = await consumeRateLimit('email', client);
+      expect(decision.limited).toBe(true);
+      expect(decision.resetAt).toBeGreaterThanOrEqual(Date.now() + 60 * 60 * 1000 - 1000);
+    });
+
+    it('should list and clear blocked clients', async () => {
+      setRateLimitStore(new MemoryRateLimitStore());
+      for (let i = 0; i < 11; i++) {
+        await consumeRateLimit('auth', '203.0.113.7');
+      }
+      await consumeRateLimit('auth', '203.0.113.8');
+
+      const blocked = await listRateLimitedClients();
+      expect(blocked).toHaveLength(1);
+      expect(blocked[0]).toMatchObject({ client: '203.0.113.7', policy: 'auth', attempts: 11, limit: 10 });
+
+      expect(await clearRateLimits('203.0.113.7')).toEqual(['auth']);
+      expect(await listRateLimitedClients()).toHaveLength(0);
+      expect((await consumeRateLimit('auth', '203.0.113.7')).remaining).toBe(9);
+    });
+
+    it('should reject unknown policies', async () => {
+      await expect(consumeRateLimit('no-such-policy', 'client')).rejects.toThrow('Unknown rate limit policy');
+    });
+  });
+
+  describe('Redis Adapter', () => {
+    it('should count through a Redis-compatible client', async () => {
+      const counts = new Map<string, number>();
+      const client: RedisRateLimitClient = {
+        eval: async (_script, _numKeys, key) => {
+          const count = (counts.get(String(key)) || 0) + 1;
+          counts.set(String(key), count);
+          return [count, 60_000];
+        },
+        del: async key => counts.delete(key)
+      };
+      const store = new RedisRateLimitStore(client);
+
+      expect((await store.increment('global:1.2.3.4', 60_000)).count).toBe(1);
+      expect((await store.increment('global:1.2.3.4', 60_000)).count).toBe(2);
+      expect(counts.has('ratelimit:global:1.2.3.4')).toBe(true);
+
+      await store.reset('global:1.2.3.4');
+      expect(counts.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { randomBytes } from 'crypto';
+import runDbSync from '../database/utils/sync';
+import { readSelect, executeQuery } from '../database/utils/operations';
+import { fingerprint } from '../utils/crypto';
+import { createUser } from '../utils/auth/userManagement';
+import { createUserSession, findSessionByJWT, findSessionByRawRefreshToken } from '../utils/auth/sessionManagement';
+import { createJWT, generateRefreshToken } from '../utils/auth/authEncryption';
+import { refreshTokenService } from '../services/auth/refresh';
+import { setAlertSinks } from '../utils/alerts/dispatcher';
+import { type AlertSink, type SecurityAlert } from '../utils/alerts/sinks';
+import { flushBackgroundTasks } from '../utils/lifecycle';
+import { type User, type UserSession } from '../interfaces/auth/user';
+
+describe('Session Tests', () => {
+  const suffix = randomBytes(6).toString('hex');
+  let user: User;
+
+  beforeAll(async () => {
+    await runDbSync();
+    user = await createUser({ username: `session_${suffix}`, email: `session_${suffix}@example.com`, password_hash: 'unused' });
+  });
+
+  describe('Session Lookup', () => {
+    it('should store token fingerprints and find the session by them', async () => {
+      const jwt = createJWT(user.uid, { role: 'member', sub_roles: [], permissions: [] });
+      const refreshToken = generateRefreshToken(user.uid);
+      const created = await createUserSession(user.uid, refreshToken, jwt, '198.51.100.7', 'sessions-test');
+
+      const [session] = await readSelect<UserSession>('user_sessions', ['*'], { id: created.id });
+      expect(session.session_token_fingerprint).toBe(fingerprint(jwt));
+      expect(session.refresh_token_fingerprint).toBe(fingerprint(refreshToken));
+
+      expect((await findSessionByJWT(jwt))?.id).toBe(created.id);
+      expect((await findSessionByRawRefreshToken(refreshToken))?.id).toBe(created.id);
+    });
+
+    it('should not find sessions for tokens that were never issued one', async () => {
+      const jwt = createJWT(user.uid, { role: 'member', sub_roles: [], permissions: [] });
+      expect(await findSessionByJWT(jwt)).toBeNull();
+      expect(await findSessionByRawRefreshToken(generateRefreshToken(user.uid))).toBeNull();
+      expect(await findSessionByJWT('not-a-jwt')).toBeNull();
+    });
+  });
+
+  describe('Refresh Token Families', () => {
+    const alerts: SecurityAlert[] = [];
+    const recordingSink: AlertSink = { name: 'recording', minSeverity: 'critical', send: async alert => { alerts.push(alert); } };
+
+    beforeAll(() => {
+      setAlertSinks([recordingSink]);
+    });
+
+    afterAll(() => {
+      setAlertSinks([]);
+    });
+
+    const startFamily = async (owner: User): Promise<string> => {
+      const refreshToken = generateRefreshToken(owner.uid);
+      const jwt = createJWT(owner.uid, { role: 'member', sub_roles: [], permissions: [] });
+      await createUserSession(owner.uid, refreshToken, jwt, '198.51.100.7', 'sessions-test');
+      return refreshToken;
+    };
+
+    // Move the user's rotations out of the retry grace period
+    const ageRotations = (owner: User) => executeQuery({
+      text: "UPDATE refresh_token_history SET rotated_at = rotated_at - INTERVAL '1 hour' WHERE user_uid = $1",
+      values: [owner.uid]
+    });
+
+    it('should treat a replay right after rotation as a client retry', async () => {
+      const original = await startFamily(user);
+      const first = await refreshTokenService(original);
+      expect(first).not.toBeNull();
+
+      // The lost-response retry fails, but the family survives it
+      expect(await refreshTokenService(original)).toBeNull();
+      expect(await refreshTokenService(first!.refresh_token)).not.toBeNull();
+
+      await flushBackgroundTasks(5000);
+      expect(alerts).toHaveLength(0);
+    });
+
+    it('should revoke the whole family and alert when a rotated refresh token is reused', async () => {
+      const owner = await createUser({ username: `family_${suffix}`, email: `family_${suffix}@example.com`, password_hash: 'unused' });
+      const original = await startFamily(owner);
+      const first = await refreshTokenService(original);
+      expect(first).not.toBeNull();
+      await ageRotations(owner);
+
+      // Replaying the token that was rotated out is treated as theft
+      expect(await refreshTokenService(original, '10.0.0.1', 'Replay Client')).toBeNull();
+
+      // ...and the legitimate client's current token stops working too
+      expect(await refreshTokenService(first!.refresh_token)).toBeNull();
+      expect(await readSelect<UserSession>('user_sessions', ['id'], { user_uid: owner.uid })).toHaveLength(0);
+
+      await flushBackgroundTasks(5000);
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({
+        severity: 'critical',
+        message: 'Refresh token reuse detected - token family revoked',
+        userId: owner.uid,
+        ip: '10.0.0.1'
+      });
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect, beforeAll } from 'bun:test';
+import { trace, SpanStatusCode } from '@opentelemetry/api';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { withSpan, withQuerySpan } from '../utils/tracing';
+
+describe('Tracing Tests', () => {
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+  });
+
+  it('should name query spans by statement and table only', async () => {
+    exporter.reset();
+    await withQuerySpan("SELECT * FROM users WHERE email_hash = 'abc'", async () => []);
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.name).toBe('SELECT users');
+    expect(span.attributes['db.collection.name']).toBe('users');
+    expect(JSON.stringify(span.attributes)).not.toContain('abc');
+  });
+
+  it('should mark failed spans and rethrow', async () => {
+    exporter.reset();
+    await expect(withSpan('failing', async () => { throw new Error('SMTP timeout'); })).rejects.toThrow('SMTP timeout');
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.events[0].name).toBe('exception');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { createServer, type Server, type IncomingHttpHeaders } from 'http';
+import { type AddressInfo } from 'net';
+import runDbSync from '../database/utils/sync';
+import { withTransaction } from '../database/utils/operations';
+import { emitWebhookEvent } from '../utils/webhooks/events';
+import { deliverDueWebhooks, signWebhookPayload, webhookRetryDelay } from '../utils/webhooks/delivery';
+import {
+  createWebhookService,
+  updateWebhookService,
+  deleteWebhookService,
+  listWebhookDeliveriesService
+} from '../services/admin/webhooks';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook Tests', () => {
+  const actorUid = 'webhook-test-admin';
+  const received: ReceivedRequest[] = [];
+  let responseStatus = 200;
+  let server: Server;
+  let webhookUid: string;
+  let secret: string;
+
+  beforeAll(async () => {
+    await runDbSync();
+
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    const created = await createWebhookService(actorUid, {
+      url: `http://127.0.0.1:${port}/hooks`,
+      event_types: ['user.banned']
+    });
+    webhookUid = created.webhook.uid;
+    secret = created.secret;
+  });
+
+  afterAll(async () => {
+    await deleteWebhookService(actorUid, webhookUid).catch(() => {});
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should reject unknown event types and non-URLs', async () => {
+    await expect(createWebhookService(actorUid, { url: 'https://example.com', event_types: ['user.exploded'] }))
+      .rejects.toThrow('Unknown webhook event type');
+    await expect(createWebhookService(actorUid, { url: 'not a url', event_types: ['user.banned'] }))
+      .rejects.toThrow('Invalid webhook URL');
+  });
+
+  it('should deliver a signed payload for subscribed events', async () => {
+    received.length = 0;
+    const payload = await withTransaction(() => emitWebhookEvent('user.banned', { user_uid: 'webhook-user', shadow: false }));
+    await emitWebhookEvent('user.registered', { user_uid: 'webhook-user' });
+
+    await deliverDueWebhooks();
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(JSON.parse(request.body)).toEqual(payload);
+    expect(request.headers['webhook-id']).toBe(payload.id);
+    expect(request.headers['webhook-signature'])
+      .toBe(signWebhookPayload(secret, payload.id, parseInt(request.headers['webhook-timestamp'] as string), request.body));
+
+    const { deliveries } = await listWebhookDeliveriesService(webhookUid, { limit: 1 });
+    expect(deliveries[0].status).toBe('delivered');
+    expect(deliveries[0].last_status_code).toBe(200);
+  });
+
+  it('should not send events from a rolled back transaction', async () => {
+    received.length = 0;
+
+    await expect(withTransaction(async () => {
+      await emitWebhookEvent('user.banned', { user_uid: 'rolled-back', shadow: false });
+      throw new Error('Ban failed');
+    })).rejects.toThrow('Ban failed');
+
+    await deliverDueWebhooks();
+    expect(received).toHaveLength(0);
+  });
+
+  it('should schedule a retry when the endpoint fails', async () => {
+    responseStatus = 503;
+    try {
+      await emitWebhookEvent('user.banned', { user_uid: 'retried', shadow: true });
+      await deliverDueWebhooks();
+    } finally {
+      responseStatus = 200;
+    }
+
+    const { deliveries } = await listWebhookDeliveriesService(webhookUid, { status: 'pending', limit: 1 });
+    expect(deliveries[0].attempts).toBe(1);
+    expect(deliveries[0].last_error).toBe('HTTP 503');
+    expect(new Date(deliveries[0].next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should not send events to a paused endpoint', async () => {
+    await updateWebhookService(actorUid, webhookUid, { is_active: false });
+    received.length = 0;
+
+    try {
+      await emitWebhookEvent('user.banned', { user_uid: 'paused', shadow: false });
+      await deliverDueWebhooks();
+      expect(received).toHaveLength(0);
+    } finally {
+      await updateWebhookService(actorUid, webhookUid, { is_active: true });
+    }
+  });
+
+  it('should back off exponentially', () => {
+    expect(webhookRetryDelay(2)).toBe(webhookRetryDelay(1) * 2);
+    expect(webhookRetryDelay(3)).toBe(webhookRetryDelay(1) * 4);
+    expect(webhookRetryDelay(50)).toBe(6 * 60 * 60 * 1000);
+  });
+});
@@ -0,0 +1,136 @@
+import { randomUUID } from 'crypto';
+import {
+  ALERT_MIN_SEVERITY,
+  ALERT_DEDUP_WINDOW_SECONDS,
+  ALERT_WEBHOOK_URL,
+  ALERT_WEBHOOK_MIN_SEVERITY,
+  ALERT_EMAIL_TO,
+  ALERT_EMAIL_MIN_SEVERITY,
+  ALERT_FILE_PATH,
+  ALERT_FILE_MIN_SEVERITY
+} from '../../config/environment';
+import { HttpAlertSink, EmailAlertSink, FileAlertSink, type AlertSink, type SecurityAlert } from './sinks';
+import { type AuditSeverity } from '../../interfaces/audit';
+import { getLogger } from '../logger';
+
+const SEVERITY_RANK: Record<AuditSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+export function parseSeverity(value: string): AuditSeverity {
+  const severity = value.trim().toLowerCase();
+  if (!(severity in SEVERITY_RANK)) {
+    throw new Error(`Invalid alert severity: ${value}`);
+  }
+  return severity as AuditSeverity;
+}
+
+export const meetsSeverity = (severity: AuditSeverity, threshold: AuditSeverity): boolean =>
+  SEVERITY_RANK[severity] >= SEVERITY_RANK[threshold];
+
+function configuredSinks(): AlertSink[] {
+  const fallback = parseSeverity(ALERT_MIN_SEVERITY);
+  const threshold = (value?: string) => (value ? parseSeverity(value) : fallback);
+  const sinks: AlertSink[] = [];
+
+  if (ALERT_WEBHOOK_URL) {
+    sinks.push(new HttpAlertSink(ALERT_WEBHOOK_URL, threshold(ALERT_WEBHOOK_MIN_SEVERITY)));
+  }
+  if (ALERT_EMAIL_TO) {
+    const recipients = ALERT_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean);
+    sinks.push(new EmailAlertSink(recipients, threshold(ALERT_EMAIL_MIN_SEVERITY)));
+  }
+  if (ALERT_FILE_PATH) {
+    sinks.push(new FileAlertSink(ALERT_FILE_PATH, threshold(ALERT_FILE_MIN_SEVERITY)));
+  }
+
+  return sinks;
+}
+
+// Built on first use rather than at import, so a bad ALERT_*_MIN_SEVERITY is reported by
+// validateConfig along with every other problem instead of crashing the import
+let sinks: AlertSink[] | null = null;
+
+const activeSinks = (): AlertSink[] => (sinks ??= configuredSinks());
+
+// Replace the configured sinks, e.g. with a PagerDuty or Slack app integration
+export function setAlertSinks(custom: AlertSink[]): void {
+  sinks = [...custom];
+}
+
+export function addAlertSink(sink: AlertSink): void {
+  activeSinks().push(sink);
+}
+
+export function getAlertSinks(): readonly AlertSink[] {
+  return activeSinks();
+}
+
+// Per instance: each API instance can send one copy of a repeated alert per window
+interface RecentAlert {
+  until: number;       // repeats before this are suppressed
+  suppressed: number;
+}
+
+const recentAlerts = new Map<string, RecentAlert>();
+let lastSweep = Date.now();
+
+// Repeats are the same event from anyone, so a flood from many IPs is still one alert
+const dedupKey = (alert: AlertInput): string => `${alert.type}|${alert.severity}|${alert.message}`;
+
+// Forget finished windows, except ones whose suppressed count is still owed to the next alert
+function sweep(now: number): void {
+  if (now - lastSweep < 60_000) return;
+  lastSweep = now;
+
+  for (const [key, recent] of recentAlerts) {
+    if (recent.until <= now && recent.suppressed === 0) recentAlerts.delete(key);
+  }
+}
+
+// Returns true to send, along with how many repeats were suppressed since the last one sent
+function admit(alert: AlertInput): { send: boolean; suppressed: number } {
+  if (ALERT_DEDUP_WINDOW_SECONDS <= 0) return { send: true, suppressed: 0 };
+
+  const now = Date.now();
+  sweep(now);
+
+  const key = dedupKey(alert);
+  const recent = recentAlerts.get(key);
+  if (recent && recent.until > now) {
+    recent.suppressed++;
+    return { send: false, suppressed: 0 };
+  }
+
+  recentAlerts.set(key, { until: now + ALERT_DEDUP_WINDOW_SECONDS * 1000, suppressed: 0 });
+  return { send: true, suppressed: recent?.suppressed ?? 0 };
+}
+
+export type AlertInput = Omit<SecurityAlert, 'id' | 'suppressed'>;
+
+export interface AlertResult {
+  sink: string;
+  delivered: boolean;
+  error?: string;
+}
+
+// Send an alert to every sink whose threshold it meets. Resolves with each sink's
+// outcome - empty when no sink wants it or it was suppressed as a repeat. Never rejects.
+export async function dispatchAlert(input: AlertInput, options: { dedupe?: boolean } = {}): Promise<AlertResult[]> {
+  const targets = activeSinks().filter(sink => meetsSeverity(input.severity, sink.minSeverity));
+  if (targets.length === 0) return [];
+
+  const { send, suppressed } = options.dedupe === false ? { send: true, suppressed: 0 } : admit(input);
+  if (!send) return [];
+
+  const alert: SecurityAlert = { ...input, id: randomUUID(), suppressed };
+  const outcomes = await Promise.allSettled(targets.map(sink => sink.send(alert)));
+
+  return outcomes.map((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      return { sink: targets[i].name, delivered: true };
+    }
+
+    const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+    getLogger().error({ sink: targets[i].name, alertId: alert.id, error }, 'Alert sink failed to send alert');
+    return { sink: targets[i].name, delivered: false, error };
+  });
+}
@@ -0,0 +1,88 @@
+import { appendFile } from 'fs/promises';
+import { sendEmail, generateSecurityAlertEmail } from '../../services/auth/email';
+import { TEST_EMAIL_RECIPIENT } from '../../config/environment';
+import { type AuditEventType, type AuditSeverity } from '../../interfaces/audit';
+
+export interface SecurityAlert {
+  id: string;
+  timestamp: string;
+  type: AuditEventType;
+  severity: AuditSeverity;
+  message: string;
+  userId: string;
+  targetUid?: string;
+  ip: string;
+  userAgent: string;
+  details?: any;         // already sanitized
+  suppressed: number;    // repeats of this alert dropped by deduplication since the last one sent
+  test?: boolean;        // fired from the admin test endpoint
+}
+
+// Somewhere alerts go. send should reject when the alert didn't get through, so
+// the dispatcher can report it.
+export interface AlertSink {
+  readonly name: string;
+  readonly minSeverity: AuditSeverity;
+  send(alert: SecurityAlert): Promise<void>;
+}
+
+export const alertSummary = (alert: SecurityAlert): string =>
+  `[${alert.severity.toUpperCase()}]${alert.test ? ' [TEST]' : ''} ${alert.message}` +
+  (alert.suppressed > 0 ? ` (+${alert.suppressed} repeats suppressed)` : '');
+
+// POSTs the alert as JSON. `text` carries a one-line summary, which is all chat
+// incoming webhooks (Slack, Mattermost, Teams workflows) need.
+export class HttpAlertSink implements AlertSink {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    readonly minSeverity: AuditSeverity,
+    private readonly timeoutMs = 10_000
+  ) {}
+
+  async send(alert: SecurityAlert): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: alertSummary(alert), alert }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+  }
+}
+
+export class EmailAlertSink implements AlertSink {
+  readonly name = 'email';
+
+  constructor(private readonly recipients: string[], readonly minSeverity: AuditSeverity) {}
+
+  async send(alert: SecurityAlert): Promise<void> {
+    const emailOptions = generateSecurityAlertEmail(alert, alertSummary(alert));
+    emailOptions.to = this.recipients.join(', ');
+
+    // In test mode, redirect emails to configured test recipient
+    if (process.env.NODE_ENV === 'test' || process.env.TEST_MODE === 'true') {
+      emailOptions.to = TEST_EMAIL_RECIPIENT;
+    }
+
+    const result = await sendEmail(emailOptions);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send alert email');
+    }
+  }
+}
+
+// One JSON alert per line, for log shippers to pick up
+export class FileAlertSink implements AlertSink {
+  readonly name = 'file';
+
+  constructor(private readonly path: string, readonly minSeverity: AuditSeverity) {}
+
+  async send(alert: SecurityAlert): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(alert)}\n`, { mode: 0o600 });
+  }
+}
@@ -0,0 +1,137 @@
+import { createHash } from 'crypto';
+import {
+  insertAuditEvent,
+  readAuditChainHead,
+  readAuditStreams,
+  insertAuditCheckpoint,
+  readLatestAuditCheckpoint
+} from '../database/audit/audit-operations';
+import { checkpointSignature } from './crypto';
+import { AUDIT_CHECKPOINT_INTERVAL_MINUTES } from '../config/environment';
+import { type AuditEventRecord, type AuditEventType, type NewAuditEvent } from '../interfaces/audit';
+import { logger } from './logger';
+import { trackBackgroundTask } from './lifecycle';
+
+// prev_hash of the first event in every chain
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+const MAX_APPEND_ATTEMPTS = 5;
+const UNIQUE_VIOLATION = '23505';
+
+// JSON with object keys sorted at every level. details is stored as JSONB, which
+// doesn't keep key order, so the hash has to be independent of it.
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+type HashedFields = Pick<AuditEventRecord,
+  'occurred_at' | 'type' | 'severity' | 'message' | 'actor_uid' | 'target_uid' | 'ip_address' | 'user_agent' | 'details'>;
+
+export function hashAuditEvent(prevHash: string, event: HashedFields): string {
+  const content = canonicalJson([
+    prevHash,
+    new Date(event.occurred_at).toISOString(),
+    event.type,
+    event.severity,
+    event.message,
+    event.actor_uid,
+    event.target_uid,
+    event.ip_address,
+    event.user_agent,
+    event.details
+  ]);
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export const checkpointPayload = (stream: string, eventId: string, hash: string): string =>
+  JSON.stringify([stream, eventId, hash]);
+
+// Last hash this process appended per stream, so appends don't re-read the head
+const chainHeads = new Map<AuditEventType, string>();
+// Appends within this process run one at a time per stream
+const appendQueues = new Map<AuditEventType, Promise<void>>();
+
+async function appendToChain(event: NewAuditEvent): Promise<void> {
+  for (let attempt = 1; attempt <= MAX_APPEND_ATTEMPTS; attempt++) {
+    const prevHash = chainHeads.get(event.type) ?? (await readAuditChainHead(event.type))?.hash ?? AUDIT_GENESIS_HASH;
+    const hash = hashAuditEvent(prevHash, event);
+
+    try {
+      await insertAuditEvent({ ...event, prev_hash: prevHash, hash });
+      chainHeads.set(event.type, hash);
+      return;
+    } catch (error: unknown) {
+      // Another instance appended first: re-read the head and link after it
+      if (!(error instanceof Error) || !('code' in error) || error.code !== UNIQUE_VIOLATION) throw error;
+      chainHeads.delete(event.type);
+    }
+  }
+
+  throw new Error(`Could not append to the ${event.type} audit chain after ${MAX_APPEND_ATTEMPTS} attempts`);
+}
+
+export function appendAuditEvent(event: NewAuditEvent): Promise<void> {
+  const previous = appendQueues.get(event.type) ?? Promise.resolve();
+  const appended = previous.catch(() => {}).then(() => appendToChain(event));
+
+  appendQueues.set(event.type, appended);
+  appended.finally(() => {
+    if (appendQueues.get(event.type) === appended) appendQueues.delete(event.type);
+  }).catch(() => {});
+
+  return appended;
+}
+
+// Sign the current head of every stream that has moved since its last checkpoint.
+// Safe to run from several instances at once; duplicates are ignored.
+export async function writeAuditCheckpoints(): Promise<number> {
+  let written = 0;
+
+  for (const stream of await readAuditStreams()) {
+    const head = await readAuditChainHead(stream);
+    if (!head) continue;
+
+    const latest = await readLatestAuditCheckpoint(stream);
+    if (latest && latest.event_id === head.id) continue;
+
+    await insertAuditCheckpoint({
+      stream,
+      event_id: head.id,
+      hash: head.hash,
+      signature: checkpointSignature(checkpointPayload(stream, head.id, head.hash))
+    });
+    written++;
+  }
+
+  return written;
+}
+
+let checkpointTimer: NodeJS.Timeout | null = null;
+
+export function startAuditCheckpoints(): void {
+  if (checkpointTimer || AUDIT_CHECKPOINT_INTERVAL_MINUTES <= 0) return;
+
+  checkpointTimer = setInterval(() => {
+    trackBackgroundTask(writeAuditCheckpoints().catch(error => {
+      logger.error({ err: error }, 'Audit checkpoint failed');
+    }));
+  }, AUDIT_CHECKPOINT_INTERVAL_MINUTES * 60 * 1000);
+  checkpointTimer.unref();
+}
+
+export function stopAuditCheckpoints(): void {
+  if (checkpointTimer) {
+    clearInterval(checkpointTimer);
+    checkpointTimer = null;
+  }
+}
@@ -1,14 +1,19 @@
 import { randomBytes } from 'crypto';
-import { encrypt, decrypt} from '../crypto';
+import { encrypt, decrypt, fieldContext } from '../crypto';
 import * as bcrypt from 'bcryptjs';
 import { readUID } from '../../database/auth/auth-operations';
 
 
-import { type User, type Cookie } from '../../interfaces/auth/user';
-import jwt from 'jsonwebtoken';
-import { ENCRYPTION_KEY, JWT_SECRET } from '../../config/environment';
+import { type User, type Cookie, type AccessTokenClaims } from '../../interfaces/auth/user';
+import { signToken, verifyToken } from './tokenSigning';
+import { ENCRYPTION_KEY } from '../../config/environment';
+import { getLogger } from '../logger';
+import { withSpan } from '../tracing';
 
 const ENCRYPTION_ALGORITHM = 'aes-256-cbc';
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // Reduced from 30m for better security
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // Refresh tokens last longer
+export const MFA_CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes to enter the code
 
 export async function generateUID(): Promise<string> {
   const uid = randomBytes(32).toString('hex');
@@ -28,58 +33,93 @@ export function generateRefreshToken(uid: string): string {
   };
   
   // Create a secure token using JWT for better security and validation
-  const refreshToken = jwt.sign(
+  const refreshToken = signToken(
     { 
       sub: uid, 
       type: 'refresh',
       nonce: tokenData.nonce,
       iat: Math.floor(Date.now() / 1000)
     },
-    JWT_SECRET,
     {
-      expiresIn: '7d', // Refresh tokens last longer
-      algorithm: 'HS256',
-      issuer: 'hofflabs-api',
-      audience: 'hofflabs-refresh'
+      expiresIn: REFRESH_TOKEN_TTL_SECONDS,
+      audience: 'hofflabs-refresh',
+      jwtid: randomBytes(16).toString('hex') // Identifies this token within its family once rotated
     }
   );
   
   return refreshToken;
 }
 
-export function createJWT(uid: string) {
-  const jwtToken = jwt.sign(createCookie(uid) as unknown as Cookie, JWT_SECRET, {
-    expiresIn: '15m', // Reduced from 30m for better security
-    algorithm: 'HS256',
-    issuer: 'hofflabs-api',
+export function createJWT(uid: string, claims?: AccessTokenClaims) {
+  const jwtToken = signToken(createCookie(uid, claims), {
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
     audience: 'hofflabs-users',
     jwtid: randomBytes(16).toString('hex') // Add unique JWT ID
   });
   return jwtToken;
 }
 
-function createCookie(uid: string) {
+function createCookie(uid: string, claims?: AccessTokenClaims) {
   return { 
     sub: uid,
     iat: Math.floor(Date.now() / 1000), // Add issued at timestamp
-    type: 'access'
+    type: 'access',
+    ...claims // Role, sub-roles and permissions for stateless authorization
   };
 }
 
 
-// Validate and extract UID from JWT-based refresh token
-export function validateRefreshToken(refreshToken: string): { uid: string; valid: boolean } {
+// Validate and extract UID (and token id, when present) from JWT-based refresh token
+export function validateRefreshToken(refreshToken: string): { uid: string; valid: boolean; tokenId?: string } {
   try {
-    const decoded = jwt.verify(refreshToken, JWT_SECRET, {
-      issuer: 'hofflabs-api',
+    const decoded = verifyToken(refreshToken, {
       audience: 'hofflabs-refresh'
-    }) as any;
+    });
     
     if (decoded.type !== 'refresh') {
       return { uid: '', valid: false };
     }
     
-    return { uid: decoded.sub, valid: true };
+    return { uid: decoded.sub, valid: true, tokenId: decoded.jti };
+  } catch (error) {
+    return { uid: '', valid: false };
+  }
+}
+
+// Short-lived token proving the password step succeeded for an MFA-enabled account.
+// It cannot be used as an access token (different audience and type).
+export function createMfaChallengeToken(uid: string): string {
+  return signToken(
+    {
+      sub: uid,
+      type: 'mfa_pending',
+      iat: Math.floor(Date.now() / 1000)
+    },
+    {
+      expiresIn: MFA_CHALLENGE_TTL_SECONDS,
+      audience: 'hofflabs-mfa',
+      jwtid: randomBytes(16).toString('hex')
+    }
+  );
+}
+
+// The token id and expiry let the verify step spend the challenge once it has been used
+export function validateMfaChallengeToken(challengeToken: string): { uid: string; valid: boolean; tokenId?: string; expiresAt?: Date } {
+  try {
+    const decoded = verifyToken(challengeToken, {
+      audience: 'hofflabs-mfa'
+    });
+
+    if (decoded.type !== 'mfa_pending') {
+      return { uid: '', valid: false };
+    }
+
+    return {
+      uid: decoded.sub,
+      valid: true,
+      tokenId: decoded.jti,
+      expiresAt: decoded.exp ? new Date(decoded.exp * 1000) : undefined
+    };
   } catch (error) {
     return { uid: '', valid: false };
   }
@@ -87,7 +127,7 @@ export function validateRefreshToken(refreshToken: string): { uid: string; valid
 
 // Legacy function - deprecated, use validateRefreshToken instead
 export function splitRefreshToken(refreshToken: string): string {
-  console.warn('splitRefreshToken is deprecated - use validateRefreshToken instead');
+  getLogger().warn('splitRefreshToken is deprecated - use validateRefreshToken instead');
   const result = validateRefreshToken(refreshToken);
   return result.valid ? result.uid : '';
 }
@@ -98,20 +138,20 @@ export async function hashPassword(password: string): Promise<string> {
   return hash; // bcrypt handles salt internally, no need to separate
 }
 
-export async function encryptPassword(password: string): Promise<string> {
-  return encrypt(await hashPassword(password));
+export async function encryptPassword(password: string, uid: string): Promise<string> {
+  return encrypt(await hashPassword(password), fieldContext('users', 'password_hash', uid));
 }
 
-export async function verifyPassword(password: string, encryptedStoredHash: string): Promise<boolean> {
+export async function verifyPassword(password: string, encryptedStoredHash: string, uid: string): Promise<boolean> {
   try {
-    const storedHash = await decrypt(encryptedStoredHash);
+    const storedHash = await decrypt(encryptedStoredHash, fieldContext('users', 'password_hash', uid));
     
     // Use bcrypt.compare for proper verification
-    const isValid = await bcrypt.compare(password, storedHash);
+    const isValid = await withSpan('bcrypt.compare', () => bcrypt.compare(password, storedHash));
     
     // Add artificial delay to prevent timing attacks
     const delay = 100 + Math.random() * 50; // 100-150ms
-    await new Promise(resolve => setTimeout(resolve, delay));
+    await withSpan('auth.timing_delay', () => new Promise(resolve => setTimeout(resolve, delay)));
     
     return isValid;
   } catch (error) {
@@ -0,0 +1,72 @@
+import { executeQuery } from '../../database/utils/operations';
+import { type Role, type User, type AccessTokenClaims } from '../../interfaces/auth/user';
+
+// Permissions granted by each base role (names match the rows seeded into `roles`).
+// '*' grants everything, 'resource:*' grants every action on a resource.
+export const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['*'],
+  member: ['profile:read', 'profile:write', 'sessions:read', 'sessions:write'],
+  guest: ['profile:read']
+};
+
+// Extra permissions layered on top of the base role via users.sub_roles
+export const SUB_ROLE_PERMISSIONS: Record<string, string[]> = {
+  moderator: ['users:read', 'users:ban'],
+  support: ['users:read', 'users:unlock']
+};
+
+const DEFAULT_ROLE = 'guest';
+
+// Roles are static reference data, so cache the id -> name mapping after the first lookup
+let roleNameCache: Map<number, string> | null = null;
+
+async function loadRoleNames(): Promise<Map<number, string>> {
+  if (!roleNameCache) {
+    const roles = await executeQuery<Role>({ text: 'SELECT id, name FROM roles' });
+    roleNameCache = new Map(roles.map(role => [role.id, role.name]));
+  }
+  return roleNameCache;
+}
+
+export async function getRoleName(roleId: number): Promise<string> {
+  const roles = await loadRoleNames();
+  return roles.get(roleId) || DEFAULT_ROLE;
+}
+
+export async function getRoleId(roleName: string): Promise<number | null> {
+  const roles = await loadRoleNames();
+  for (const [id, name] of roles) {
+    if (name === roleName) return id;
+  }
+  return null;
+}
+
+export function resolvePermissions(role: string, subRoles: string[] = []): string[] {
+  const permissions = new Set<string>(ROLE_PERMISSIONS[role] || []);
+  for (const subRole of subRoles) {
+    for (const permission of SUB_ROLE_PERMISSIONS[subRole] || []) {
+      permissions.add(permission);
+    }
+  }
+  return Array.from(permissions);
+}
+
+export function hasPermission(granted: string[], required: string): boolean {
+  const [resource] = required.split(':');
+  return granted.some(permission =>
+    permission === '*' || permission === required || permission === `${resource}:*`
+  );
+}
+
+// Build the role claims embedded in access tokens so downstream services can
+// authorize requests without a database round trip
+export async function buildAccessClaims(user: Pick<User, 'role_id' | 'sub_roles'>): Promise<AccessTokenClaims> {
+  const role = await getRoleName(user.role_id);
+  const subRoles = Array.isArray(user.sub_roles) ? user.sub_roles : [];
+
+  return {
+    role,
+    sub_roles: subRoles,
+    permissions: resolvePermissions(role, subRoles)
+  };
+}
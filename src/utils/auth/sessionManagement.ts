@@ -1,79 +1,136 @@
 import { type UserSession } from '../../interfaces/auth/user';
-import { create, readSelect, update } from '../../database/utils/operations';
-import { encrypt, decrypt } from '../crypto';
-import { verifyJWT } from '../jwt';
-import { splitRefreshToken } from './authEncryption';
+import { create, reserveId, readSelect, update, executeQuery } from '../../database/utils/operations';
+import { rotateSessionTokens } from '../../database/auth/refresh-token-operations';
+import { touchSession } from '../../database/auth/session-operations';
+import { encrypt, decrypt, fieldContext, fingerprint } from '../crypto';
+import { hasUnfingerprintedSessions } from '../../database/utils/fingerprints';
+import { verifyJWT, decodeJWT } from '../jwt';
+import { splitRefreshToken, validateRefreshToken } from './authEncryption';
+import { parseUserAgent } from '../userAgent';
+import { lookupLocation } from '../geoip';
+import { revokeAccessTokenClaims } from './tokenDenylist';
+import { randomBytes } from 'crypto';
+import { getLogger } from '../logger';
 
 export async function createUserSession(uid: string, refreshToken: string, jwt: string, ip?: string, userAgent?: string): Promise<UserSession> {
   const jwtExpire = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
   const refreshExpire = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days (reduced from 90 days)
 
+  // Encrypted values are bound to the row, so its id is needed up front
+  const id = await reserveId('user_sessions');
   const session = await create<UserSession>('user_sessions', {
+    id,
     user_uid: uid,
-    session_token: await encrypt(jwt),
-    refresh_token: await encrypt(refreshToken),
+    session_token: await encrypt(jwt, fieldContext('user_sessions', 'session_token', id)),
+    refresh_token: await encrypt(refreshToken, fieldContext('user_sessions', 'refresh_token', id)),
+    session_token_fingerprint: fingerprint(jwt),
+    refresh_token_fingerprint: fingerprint(refreshToken),
     session_expires_at: jwtExpire,
     refresh_expires_at: refreshExpire,
     created_at: new Date(),
+    // Each login starts a new refresh token family
+    family_id: randomBytes(16).toString('hex'),
+    refresh_token_id: validateRefreshToken(refreshToken).tokenId ?? null,
+    // Device metadata so users can recognise their sessions
+    ip_address: ip ? await encrypt(ip, fieldContext('user_sessions', 'ip_address', id)) : null,
+    user_agent: userAgent ? userAgent.slice(0, 512) : null,
+    ...parseUserAgent(userAgent),
+    location: lookupLocation(ip),
+    last_accessed: new Date(),
   });
 
   return session;
 }
 
-export async function updateUserSession(sessionId: number, refreshToken: string, jwt: string): Promise<UserSession> {
+// Replace a session's tokens, recording the refresh token being replaced in the
+// family history. Returns null if the session was rotated concurrently.
+export async function rotateUserSession(session: UserSession, refreshToken: string, jwt: string): Promise<UserSession | null> {
   const jwtExpire = new Date(Date.now() + 15 * 60 * 1000); // 15 minutes
   const refreshExpire = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
   
-  const updatedSession = await update<UserSession>('user_sessions', sessionId, {
-    session_token: await encrypt(jwt),
-    refresh_token: await encrypt(refreshToken),
+  const updatedSession = await rotateSessionTokens(session, {
+    session_token: await encrypt(jwt, fieldContext('user_sessions', 'session_token', session.id)),
+    refresh_token: await encrypt(refreshToken, fieldContext('user_sessions', 'refresh_token', session.id)),
+    refresh_token_id: validateRefreshToken(refreshToken).tokenId ?? null,
+    session_token_fingerprint: fingerprint(jwt),
+    refresh_token_fingerprint: fingerprint(refreshToken),
     session_expires_at: jwtExpire,
     refresh_expires_at: refreshExpire,
   });
+  if (!updatedSession) return null;
 
+  // The access token being replaced shouldn't outlive the rotation
+  await revokeSessionAccessTokens([session]);
   return updatedSession;
 }
 
+type SessionTokenColumn = 'session_token' | 'refresh_token';
+
+// Sessions are always created and rotated with fingerprints, so once none are missing
+// that can't change again and the decrypting fallback is switched off for good
+let unfingerprintedSessionsRemain = true;
+
+async function legacySessionsRemain(): Promise<boolean> {
+  if (unfingerprintedSessionsRemain) {
+    unfingerprintedSessionsRemain = await hasUnfingerprintedSessions();
+  }
+  return unfingerprintedSessionsRemain;
+}
+
+// Find the session holding a token by its fingerprint (a unique index lookup).
+// Sessions created before fingerprints existed have none until
+// `npm run db:fingerprints` has run; until then, and until any it skipped have
+// expired, those are still matched by decrypting the token owner's unfingerprinted sessions.
+export async function findSessionByToken(column: SessionTokenColumn, token: string, uid: string): Promise<UserSession | null> {
+  const fingerprintColumn = column === 'session_token' ? 'session_token_fingerprint' : 'refresh_token_fingerprint';
+
+  const [session] = await readSelect<UserSession>('user_sessions', ['*'], {
+    [fingerprintColumn]: fingerprint(token)
+  });
+  if (session) {
+    return session.user_uid === uid ? session : null;
+  }
+
+  if (!(await legacySessionsRemain())) {
+    return null;
+  }
+
+  const legacySessions = (await readSelect<UserSession>('user_sessions', ['*'], { user_uid: uid }))
+    .filter(candidate => !candidate[fingerprintColumn]);
+
+  for (const candidate of legacySessions) {
+    try {
+      if (await decrypt(candidate[column], fieldContext('user_sessions', column, candidate.id, candidate.user_uid)) === token) {
+        return candidate;
+      }
+    } catch (decryptError) {
+      // Skip this session if decryption fails
+      continue;
+    }
+  }
+
+  return null;
+}
+
 export async function findSessionByRawRefreshToken(refreshToken: string): Promise<UserSession | null> {
   try {
     // Use the new JWT-based refresh token validation
-    const { validateRefreshToken } = await import('./authEncryption');
     const tokenValidation = validateRefreshToken(refreshToken);
     
     if (!tokenValidation.valid || !tokenValidation.uid) {
       return null;
     }
     
-    // Get sessions for this specific user only
-    const userSessions = await readSelect<UserSession>('user_sessions', ['*'], {
-      user_uid: tokenValidation.uid
-    });
-    
-    // Find the session that matches this refresh token
-    // Since refresh tokens are now JWTs, we need to match them differently
-    for (const session of userSessions) {
-      try {
-        // Check if refresh token is not expired
-        if (new Date(session.refresh_expires_at) > new Date()) {
-          // For JWT-based refresh tokens, we validate the token itself
-          // rather than storing and comparing the raw token
-          // This is more secure as we don't store the actual token value
-          const storedRefreshToken = await decrypt(session.refresh_token);
-          
-          // Compare the refresh tokens directly
-          if (storedRefreshToken === refreshToken) {
-            return session;
-          }
-        }
-      } catch (decryptError) {
-        // Skip this session if decryption fails
-        continue;
-      }
+    const session = await findSessionByToken('refresh_token', refreshToken, tokenValidation.uid);
+
+    // Check if refresh token is not expired
+    if (!session || new Date(session.refresh_expires_at) <= new Date()) {
+      return null;
     }
-    
-    return null;
+
+    return session;
   } catch (error) {
-    console.error('Error finding session by raw refresh token:', error);
+    getLogger().error({ err: error }, 'Error finding session by raw refresh token');
     return null;
   }
 }
@@ -88,31 +145,16 @@ export async function findSessionByJWT(jwt: string): Promise<UserSession | null>
       return null;
     }
     
-    // Get sessions for this specific user only
-    const userSessions = await readSelect<UserSession>('user_sessions', ['*'], {
-      user_uid: uid
-    });
-    
-    // Decrypt each session token to find the match
-    for (const session of userSessions) {
-      try {
-        const decryptedSessionToken = await decrypt(session.session_token);
-        
-        if (decryptedSessionToken === jwt) {
-          // Check if session is not expired
-          if (new Date(session.session_expires_at) > new Date()) {
-            return session;
-          }
-        }
-      } catch (decryptError) {
-        // Skip this session if decryption fails
-        continue;
-      }
+    const session = await findSessionByToken('session_token', jwt, uid);
+
+    // Check if session is not expired
+    if (!session || new Date(session.session_expires_at) <= new Date()) {
+      return null;
     }
-    
-    return null;
+
+    return session;
   } catch (error) {
-    console.error('Error finding session by JWT:', error);
+    getLogger().error({ err: error }, 'Error finding session by JWT');
     return null;
   }
 }
@@ -140,8 +182,11 @@ export async function validateAndExtendSession(jwt: string): Promise<{ valid: bo
       
       updatedSession = await update<UserSession>('user_sessions', session.id, {
         session_expires_at: newExpiresAt,
+        last_accessed: now,
       });
       extended = true;
+    } else {
+      await touchSession(session.id);
     }
 
     return {
@@ -151,17 +196,50 @@ export async function validateAndExtendSession(jwt: string): Promise<{ valid: bo
     };
 
   } catch (error) {
-    console.error('Session validation error:', error);
+    getLogger().error({ err: error }, 'Session validation error');
     return { valid: false };
   }
 }
 
-export async function invalidateSession(sessionId: number): Promise<void> {
+// Deny the access tokens these sessions currently hold, so ending a session takes
+// effect immediately rather than when its access token expires
+export async function revokeSessionAccessTokens(sessions: UserSession[]): Promise<void> {
+  for (const session of sessions) {
+    try {
+      const jwt = await decrypt(session.session_token, fieldContext('user_sessions', 'session_token', session.id, session.user_uid));
+      await revokeAccessTokenClaims(decodeJWT(jwt));
+    } catch (error) {
+      getLogger().error({ err: error, sessionId: session.id }, 'Failed to revoke access token for session');
+    }
+  }
+}
+
+export async function invalidateSession(session: UserSession): Promise<void> {
   // Set expiry dates to past to invalidate the session
-  await update('user_sessions', sessionId, {
+  await update('user_sessions', session.id, {
     session_expires_at: new Date(Date.now() - 1000), // 1 second ago
     refresh_expires_at: new Date(Date.now() - 1000),
   });
+  await revokeSessionAccessTokens([session]);
 }
 
+// Deny the access tokens held by a user's live sessions without ending the sessions, so
+// their next refresh picks up the user's current claims. Returns the number of sessions.
+export async function revokeUserAccessTokens(uid: string): Promise<number> {
+  const sessions = await executeQuery<UserSession>({
+    text: 'SELECT * FROM user_sessions WHERE user_uid = $1 AND session_expires_at > CURRENT_TIMESTAMP',
+    values: [uid],
+  });
+  await revokeSessionAccessTokens(sessions);
+  return sessions.length;
+}
 
+// Remove every session for a user (forced logout everywhere). Returns the number removed.
+export async function revokeAllUserSessions(uid: string): Promise<number> {
+  const result = await executeQuery<UserSession>({
+    text: 'DELETE FROM user_sessions WHERE user_uid = $1 RETURNING *',
+    values: [uid],
+  });
+  await revokeSessionAccessTokens(result);
+  return result.length;
+}
@@ -0,0 +1,305 @@
+import fs from 'fs';
+import { createHash, createPrivateKey, createPublicKey, createSecretKey, generateKeyPair, randomBytes, type KeyObject } from 'crypto';
+import { getSecret } from '../../config/vault';
+import {
+  JWT_ALGORITHM,
+  JWT_SECRET,
+  JWT_PRIVATE_KEY_FILE,
+  JWT_PUBLIC_KEY_FILE,
+  JWT_KEY_VAULT_PATH,
+  JWT_KEY_ID
+} from '../../config/environment';
+import { logger } from '../logger';
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA';
+
+export const SUPPORTED_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'ES256', 'EdDSA'];
+
+export interface SigningKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  // For HS256 both are the same secret key
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  // The newest key whose activation time has passed signs new tokens
+  activatesAt: Date;
+  // After this the key no longer verifies anything
+  retiresAt: Date | null;
+}
+
+export interface PublicJwk extends JsonWebKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  use: 'sig';
+}
+
+interface KeyMaterial {
+  privateKeyPem: string;
+  publicKeyPem?: string;
+  kid?: string;
+}
+
+// Keys that issued tokens may be verified against, by kid
+let keyRing = new Map<string, SigningKey>();
+let activeKey: SigningKey | null = null;
+// The key from JWT_SECRET / key files / Vault. Never stored; signs until a key in the database ring activates
+let configuredKey: SigningKey | null = null;
+
+
+export const isAsymmetric = (algorithm: JwtAlgorithm): boolean => algorithm !== 'HS256';
+
+export function parseAlgorithm(value: string): JwtAlgorithm {
+  if (!SUPPORTED_ALGORITHMS.includes(value as JwtAlgorithm)) {
+    throw new Error(`Unsupported JWT_ALGORITHM "${value}" (expected one of ${SUPPORTED_ALGORITHMS.join(', ')})`);
+  }
+  return value as JwtAlgorithm;
+}
+
+// Reject keys that don't match the configured algorithm so a misconfigured
+// deployment fails at startup rather than issuing unverifiable tokens
+function assertKeyMatchesAlgorithm(key: KeyObject, algorithm: JwtAlgorithm): void {
+  const details = key.asymmetricKeyDetails;
+
+  switch (algorithm) {
+    case 'RS256':
+      if (key.asymmetricKeyType !== 'rsa' || (details?.modulusLength ?? 0) < 2048) {
+        throw new Error('RS256 requires an RSA key of at least 2048 bits');
+      }
+      break;
+    case 'ES256':
+      if (key.asymmetricKeyType !== 'ec' || details?.namedCurve !== 'prime256v1') {
+        throw new Error('ES256 requires an EC key on the P-256 curve');
+      }
+      break;
+    case 'EdDSA':
+      if (key.asymmetricKeyType !== 'ed25519') {
+        throw new Error('EdDSA requires an Ed25519 key');
+      }
+      break;
+  }
+}
+
+// RFC 7638 JWK thumbprint - a stable kid derived from the public key itself
+export function computeKeyThumbprint(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: 'jwk' });
+  const members: Record<string, string[]> = {
+    RSA: ['e', 'kty', 'n'],
+    EC: ['crv', 'kty', 'x', 'y'],
+    OKP: ['crv', 'kty', 'x']
+  };
+  const required = members[jwk.kty as string];
+  if (!required) {
+    throw new Error(`Cannot compute thumbprint for key type ${jwk.kty}`);
+  }
+
+  const canonical = JSON.stringify(Object.fromEntries(required.map(member => [member, (jwk as any)[member]])));
+  return createHash('sha256').update(canonical).digest('base64url');
+}
+
+export function buildSigningKey(algorithm: JwtAlgorithm, material: KeyMaterial): SigningKey {
+  const privateKey = createPrivateKey(material.privateKeyPem);
+  const publicKey = material.publicKeyPem ? createPublicKey(material.publicKeyPem) : createPublicKey(privateKey);
+
+  assertKeyMatchesAlgorithm(privateKey, algorithm);
+
+  const derivedPublic = createPublicKey(privateKey).export({ format: 'jwk' });
+  const providedPublic = publicKey.export({ format: 'jwk' });
+  if (JSON.stringify(derivedPublic) !== JSON.stringify(providedPublic)) {
+    throw new Error('JWT public key does not match the private key');
+  }
+
+  return {
+    kid: material.kid || computeKeyThumbprint(publicKey),
+    algorithm,
+    privateKey,
+    publicKey,
+    activatesAt: new Date(),
+    retiresAt: null
+  };
+}
+
+export function buildSecretKey(secret: string | Buffer, kid?: string): SigningKey {
+  const key = createSecretKey(typeof secret === 'string' ? Buffer.from(secret, 'utf-8') : secret);
+  return {
+    // Truncated hash so the kid identifies the secret without revealing it
+    kid: kid || `hs-${createHash('sha256').update(secret).digest('hex').slice(0, 16)}`,
+    algorithm: 'HS256',
+    privateKey: key,
+    publicKey: key,
+    activatesAt: new Date(),
+    retiresAt: null
+  };
+}
+
+// Serialize a key for storage: the shared secret (base64) or PKCS#8 private key, plus the SPKI public key
+export function exportKeyMaterial(key: SigningKey): { privateKey: string; publicKey: string | null } {
+  if (!isAsymmetric(key.algorithm)) {
+    return { privateKey: key.privateKey.export().toString('base64'), publicKey: null };
+  }
+
+  return {
+    privateKey: key.privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+    publicKey: key.publicKey.export({ type: 'spki', format: 'pem' }) as string
+  };
+}
+
+// Rebuild a key from exportKeyMaterial output
+export function importKeyMaterial(algorithm: JwtAlgorithm, kid: string, privateKey: string, publicKey: string | null): SigningKey {
+  return isAsymmetric(algorithm)
+    ? buildSigningKey(algorithm, { privateKeyPem: privateKey, publicKeyPem: publicKey ?? undefined, kid })
+    : buildSecretKey(Buffer.from(privateKey, 'base64'), kid);
+}
+
+// PKCS#8 PEM private key for a fresh key pair, generated off the event loop
+function generatePrivateKeyPem(type: 'rsa' | 'ec' | 'ed25519', options: { modulusLength?: number; namedCurve?: string } = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    generateKeyPair(type as any, {
+      ...options,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' }
+    }, (err: Error | null, _publicKey: string, privateKey: string) => {
+      if (err) reject(err);
+      else resolve(privateKey);
+    });
+  });
+}
+
+export async function generateSigningKey(algorithm: JwtAlgorithm): Promise<SigningKey> {
+  switch (algorithm) {
+    case 'HS256':
+      return buildSecretKey(randomBytes(64));
+    case 'RS256':
+      return buildSigningKey(algorithm, { privateKeyPem: await generatePrivateKeyPem('rsa', { modulusLength: 2048 }) });
+    case 'ES256':
+      return buildSigningKey(algorithm, { privateKeyPem: await generatePrivateKeyPem('ec', { namedCurve: 'prime256v1' }) });
+    case 'EdDSA':
+      return buildSigningKey(algorithm, { privateKeyPem: await generatePrivateKeyPem('ed25519') });
+  }
+}
+
+function readKeyFiles(): KeyMaterial {
+  if (!JWT_PRIVATE_KEY_FILE) {
+    throw new Error(`JWT_PRIVATE_KEY_FILE or JWT_KEY_VAULT_PATH must be set when JWT_ALGORITHM is ${JWT_ALGORITHM}`);
+  }
+
+  return {
+    privateKeyPem: fs.readFileSync(JWT_PRIVATE_KEY_FILE, 'utf-8'),
+    publicKeyPem: JWT_PUBLIC_KEY_FILE ? fs.readFileSync(JWT_PUBLIC_KEY_FILE, 'utf-8') : undefined,
+    kid: JWT_KEY_ID
+  };
+}
+
+async function readVaultKey(path: string): Promise<KeyMaterial> {
+  const secret = await getSecret(path);
+  if (!secret.private_key) {
+    throw new Error(`Vault secret at ${path} does not contain a private_key`);
+  }
+
+  return {
+    privateKeyPem: secret.private_key,
+    publicKeyPem: secret.public_key,
+    kid: JWT_KEY_ID || secret.kid
+  };
+}
+
+const isRetired = (key: SigningKey, now: number = Date.now()): boolean =>
+  key.retiresAt !== null && key.retiresAt.getTime() <= now;
+
+// Make a key the current signing key immediately (configured keys and tests)
+export function registerSigningKey(key: SigningKey, active: boolean = true): void {
+  const registered = active ? { ...key, activatesAt: new Date() } : key;
+  keyRing.set(registered.kid, registered);
+  if (active) {
+    activeKey = registered;
+  }
+}
+
+// Swap in the key ring loaded from the database. Keys that aren't active yet are
+// accepted for verification and published straight away, so every instance knows
+// a new key before any of them signs with it.
+export function replaceKeyRing(keys: SigningKey[]): void {
+  const configured = getConfiguredSigningKey();
+
+  keyRing = new Map(keys.map(key => [key.kid, key]));
+  // The configured key is never stored, so it stays wherever the deployment keeps it.
+  // It verifies for as long as it is configured, and signs only until a stored key activates.
+  keyRing.set(configured.kid, { ...configured, activatesAt: new Date(0), retiresAt: null });
+  activeKey = null;
+  promotePendingKeys();
+}
+
+function promotePendingKeys(): void {
+  const now = Date.now();
+
+  for (const key of keyRing.values()) {
+    if (key.activatesAt.getTime() > now || isRetired(key, now)) continue;
+    if (!activeKey || key.activatesAt.getTime() > activeKey.activatesAt.getTime()) {
+      activeKey = key;
+    }
+  }
+}
+
+function loadConfiguredKey(material?: KeyMaterial): void {
+  const algorithm = parseAlgorithm(JWT_ALGORITHM);
+
+  configuredKey = isAsymmetric(algorithm)
+    ? buildSigningKey(algorithm, material || readKeyFiles())
+    : buildSecretKey(JWT_SECRET, JWT_KEY_ID);
+  registerSigningKey(configuredKey);
+}
+
+// Load the configured signing key at startup. Required when keys come from Vault;
+// file and shared-secret keys are also loaded lazily on first use.
+export async function initSigningKeys(): Promise<SigningKey> {
+  const algorithm = parseAlgorithm(JWT_ALGORITHM);
+  const useVault = isAsymmetric(algorithm) && JWT_KEY_VAULT_PATH;
+
+  loadConfiguredKey(useVault ? await readVaultKey(JWT_KEY_VAULT_PATH!) : undefined);
+
+  logger.info(`JWT signing key loaded (${configuredKey!.algorithm}, kid ${configuredKey!.kid})..`);
+  return configuredKey!;
+}
+
+export function getConfiguredSigningKey(): SigningKey {
+  if (!configuredKey) {
+    const algorithm = parseAlgorithm(JWT_ALGORITHM);
+    if (isAsymmetric(algorithm) && JWT_KEY_VAULT_PATH) {
+      throw new Error('JWT signing keys have not been loaded from Vault. Ensure initSigningKeys is called during server startup.');
+    }
+    loadConfiguredKey();
+  }
+  return configuredKey!;
+}
+
+export function getActiveSigningKey(): SigningKey {
+  getConfiguredSigningKey();
+  promotePendingKeys();
+  return activeKey!;
+}
+
+export function getVerificationKey(kid?: string): SigningKey | null {
+  const legacyKey = getConfiguredSigningKey();
+
+  // Tokens issued before kid headers were added were always HS256 with JWT_SECRET
+  const key = kid ? keyRing.get(kid) : (legacyKey.algorithm === 'HS256' ? keyRing.get(legacyKey.kid) : undefined);
+
+  if (!key || isRetired(key)) return null;
+  return key;
+}
+
+// Public half of every asymmetric key in the ring, for /.well-known/jwks.json.
+// Shared HS256 secrets are never published.
+export function getPublicJwks(): { keys: PublicJwk[] } {
+  getActiveSigningKey();
+
+  const keys = Array.from(keyRing.values())
+    .filter(key => isAsymmetric(key.algorithm) && !isRetired(key))
+    .map(key => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.algorithm,
+      use: 'sig' as const
+    }));
+
+  return { keys };
+}
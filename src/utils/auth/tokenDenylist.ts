@@ -0,0 +1,96 @@
+import { insertRevokedToken, readRevokedToken, pruneRevokedTokens } from '../../database/auth/revoked-token-operations';
+import { TOKEN_DENYLIST_BACKEND, TOKEN_DENYLIST_CACHE_SIZE } from '../../config/environment';
+import { getLogger } from '../logger';
+
+// Shared record of revoked access tokens, so a token revoked on one instance is
+// rejected by all of them. Entries only need to live until the token's exp.
+export interface TokenDenylistStore {
+  add(jti: string, expiresAt: Date): Promise<void>;
+  // When the revoked token expires, or null if it isn't revoked
+  get(jti: string): Promise<Date | null>;
+}
+
+export const postgresDenylistStore: TokenDenylistStore = {
+  async add(jti, expiresAt) {
+    await insertRevokedToken(jti, expiresAt);
+    await pruneRevokedTokens();
+  },
+  async get(jti) {
+    const revoked = await readRevokedToken(jti);
+    return revoked ? new Date(revoked.expires_at) : null;
+  }
+};
+
+// In-process LRU of revoked jtis with their expiry. Map iteration order is
+// insertion order, so re-inserting on access keeps the oldest entry first.
+class ExpiringLru {
+  private readonly entries = new Map<string, number>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  has(key: string): boolean {
+    const expiresAt = this.entries.get(key);
+    if (expiresAt === undefined) return false;
+
+    this.entries.delete(key);
+    if (expiresAt <= Date.now()) return false;
+
+    this.entries.set(key, expiresAt);
+    return true;
+  }
+
+  set(key: string, expiresAt: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, expiresAt);
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+const localDenylist = new ExpiringLru(TOKEN_DENYLIST_CACHE_SIZE);
+let sharedStore: TokenDenylistStore | null = TOKEN_DENYLIST_BACKEND === 'memory' ? null : postgresDenylistStore;
+
+// Swap the shared backend (e.g. Redis). null keeps revocations in this process only.
+export function setTokenDenylistStore(store: TokenDenylistStore | null): void {
+  sharedStore = store;
+  localDenylist.clear();
+}
+
+// Reject the access token with this jti until it expires on its own
+export async function revokeAccessToken(jti: string, expiresAt: Date): Promise<void> {
+  if (expiresAt.getTime() <= Date.now()) return;
+
+  localDenylist.set(jti, expiresAt.getTime());
+  await sharedStore?.add(jti, expiresAt);
+}
+
+// Decoded access token claims in, so tokens are revoked with their real exp
+export async function revokeAccessTokenClaims(claims: { jti?: string; exp?: number } | null): Promise<void> {
+  if (!claims?.jti || !claims.exp) return;
+  await revokeAccessToken(claims.jti, new Date(claims.exp * 1000));
+}
+
+export async function isAccessTokenRevoked(jti?: string): Promise<boolean> {
+  // Tokens issued before jtis were added can't be revoked individually
+  if (!jti) return false;
+  if (localDenylist.has(jti)) return true;
+  if (!sharedStore) return false;
+
+  try {
+    const expiresAt = await sharedStore.get(jti);
+    if (!expiresAt) return false;
+
+    localDenylist.set(jti, expiresAt.getTime());
+    return true;
+  } catch (error) {
+    // Fail closed: a token we can't check is treated as revoked
+    getLogger().error({ err: error }, 'Token denylist lookup failed');
+    return true;
+  }
+}
@@ -0,0 +1,128 @@
+import { createHmac, sign, verify, timingSafeEqual } from 'crypto';
+import { getActiveSigningKey, getVerificationKey, type SigningKey } from './signingKeys';
+
+// jsonwebtoken has no EdDSA support, so tokens are signed and verified here with
+// node's crypto primitives for every algorithm.
+
+export const JWT_ISSUER = 'hofflabs-api';
+
+export interface SignTokenOptions {
+  audience: string;
+  expiresIn: number; // seconds
+  jwtid?: string;
+}
+
+export interface VerifyTokenOptions {
+  audience: string;
+}
+
+export interface JwtHeader {
+  alg: string;
+  typ: string;
+  kid?: string;
+}
+
+// Allowance for clock differences between issuer and verifier
+const CLOCK_TOLERANCE_SECONDS = 5;
+
+const encodeSegment = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const decodeSegment = (segment: string): any => JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+
+function createSignature(key: SigningKey, data: Buffer): Buffer {
+  switch (key.algorithm) {
+    case 'HS256':
+      return createHmac('sha256', key.privateKey).update(data).digest();
+    case 'RS256':
+      return sign('sha256', data, key.privateKey);
+    case 'ES256':
+      // JWS uses the raw r||s encoding rather than DER
+      return sign('sha256', data, { key: key.privateKey, dsaEncoding: 'ieee-p1363' });
+    case 'EdDSA':
+      return sign(null, data, key.privateKey);
+  }
+}
+
+function checkSignature(key: SigningKey, data: Buffer, signature: Buffer): boolean {
+  switch (key.algorithm) {
+    case 'HS256': {
+      const expected = createHmac('sha256', key.publicKey).update(data).digest();
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    }
+    case 'RS256':
+      return verify('sha256', data, key.publicKey, signature);
+    case 'ES256':
+      return verify('sha256', data, { key: key.publicKey, dsaEncoding: 'ieee-p1363' }, signature);
+    case 'EdDSA':
+      return verify(null, data, key.publicKey, signature);
+  }
+}
+
+export function signToken(payload: Record<string, any>, options: SignTokenOptions): string {
+  const key = getActiveSigningKey();
+  const now = Math.floor(Date.now() / 1000);
+
+  const header: JwtHeader = { alg: key.algorithm, typ: 'JWT', kid: key.kid };
+  const claims = {
+    ...payload,
+    iat: payload.iat ?? now,
+    exp: now + options.expiresIn,
+    aud: options.audience,
+    iss: JWT_ISSUER,
+    ...(options.jwtid && { jti: options.jwtid })
+  };
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`;
+  const signature = createSignature(key, Buffer.from(signingInput));
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+export function verifyToken(token: string, options: VerifyTokenOptions): Record<string, any> {
+  const segments = typeof token === 'string' ? token.split('.') : [];
+  if (segments.length !== 3) {
+    throw new Error('Malformed token');
+  }
+
+  let header: JwtHeader;
+  let payload: Record<string, any>;
+  try {
+    header = decodeSegment(segments[0]);
+    payload = decodeSegment(segments[1]);
+  } catch {
+    throw new Error('Malformed token');
+  }
+
+  const key = getVerificationKey(header.kid);
+  if (!key) {
+    throw new Error('Unknown signing key');
+  }
+
+  // Never let the token choose the algorithm - it must match the key it names
+  if (header.alg !== key.algorithm) {
+    throw new Error('Token algorithm does not match signing key');
+  }
+
+  const signingInput = Buffer.from(`${segments[0]}.${segments[1]}`);
+  if (!checkSignature(key, signingInput, Buffer.from(segments[2], 'base64url'))) {
+    throw new Error('Invalid signature');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== 'number' || payload.exp + CLOCK_TOLERANCE_SECONDS <= now) {
+    throw new Error('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - CLOCK_TOLERANCE_SECONDS > now) {
+    throw new Error('Token not yet valid');
+  }
+  if (payload.iss !== JWT_ISSUER) {
+    throw new Error('Invalid token issuer');
+  }
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(options.audience)) {
+    throw new Error('Invalid token audience');
+  }
+
+  return payload;
+}
@@ -0,0 +1,122 @@
+import { randomBytes, createHmac, timingSafeEqual } from 'crypto';
+
+// RFC 6238 defaults - these match what Google Authenticator, 1Password, Authy etc. expect
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+const TOTP_ISSUER = 'Hofflabs';
+
+// Allow one step of clock drift either side of the current window
+const TOTP_DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in secret');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(output);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES));
+}
+
+// HOTP (RFC 4226) - TOTP is HOTP with a time-based counter
+function generateHotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const digest = createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    ((digest[offset + 1] & 0xff) << 16) |
+    ((digest[offset + 2] & 0xff) << 8) |
+    (digest[offset + 3] & 0xff);
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+export function generateTotp(secret: string, timestamp: number = Date.now()): string {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  return generateHotp(base32Decode(secret), counter);
+}
+
+// The time step the code belongs to, or null if it doesn't match any step in the drift
+// window. Callers record the step so the same code can't be used twice.
+export function matchTotpStep(secret: string, code: string, timestamp: number = Date.now()): number | null {
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  let matched: number | null = null;
+
+  // Check every step in the drift window so timing doesn't reveal which one matched
+  for (let step = -TOTP_DRIFT_STEPS; step <= TOTP_DRIFT_STEPS; step++) {
+    if (timingSafeEqual(Buffer.from(generateHotp(key, counter + step)), Buffer.from(code))) {
+      matched = counter + step;
+    }
+  }
+
+  return matched;
+}
+
+export function verifyTotp(secret: string, code: string, timestamp: number = Date.now()): boolean {
+  return matchTotpStep(secret, code, timestamp) !== null;
+}
+
+// Build the otpauth:// URI authenticator apps consume (usually rendered as a QR code)
+export function buildOtpAuthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString()
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
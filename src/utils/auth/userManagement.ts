@@ -1,21 +1,23 @@
-import { create, readSelect } from '../../database/utils/operations';
+import { create, reserveId, readSelect } from '../../database/utils/operations';
 import { type User, type UserLoginHistory } from '../../interfaces/auth/user';
-import { encryptPassword, generateUID } from '../../utils/auth/authEncryption';
-import { encrypt, decrypt, hash } from '../../utils/crypto';
+import { generateUID } from '../../utils/auth/authEncryption';
+import { encrypt, decrypt, hash, fieldContext } from '../../utils/crypto';
 
 
 
+// userData.password_hash is the bcrypt hash; it is encrypted here once the uid it is bound to exists
 export async function createUser(userData: Partial<User>): Promise<User> {
+    const uid = await generateUID();
     const defaultUserData: Partial<User> = {
-      uid: await generateUID(),
+      uid,
       avatar: 'http://0.0.0.0:3000/avatars/user.png',
-      username: await encrypt(userData.username as string) as unknown as string,
+      username: await encrypt(userData.username as string, fieldContext('users', 'username', uid)) as unknown as string,
       username_hash: hash(userData.username as string),
-      email: await encrypt(userData.email as string) as unknown as string,
+      email: await encrypt(userData.email as string, fieldContext('users', 'email', uid)) as unknown as string,
       email_hash: hash(userData.email as string),
       first_name: '',
       last_name: '',
-      password_hash: userData.password_hash as string, // Already encrypted by controller
+      password_hash: await encrypt(userData.password_hash as string, fieldContext('users', 'password_hash', uid)),
       role_id: 3,
       sub_roles: [],
       is_active: true,
@@ -31,10 +33,12 @@ export async function createUser(userData: Partial<User>): Promise<User> {
   }
   
   export async function updateUserLoginHistory(uid: string, request: Partial<UserLoginHistory>) {
+    const id = await reserveId('user_login_history');
     await create<UserLoginHistory>('user_login_history', {
+      id,
       user_uid: uid,
       login_at: new Date(),
-      login_ip: await encrypt(request.login_ip as string),
+      login_ip: await encrypt(request.login_ip as string, fieldContext('user_login_history', 'login_ip', id)),
       user_agent: request.user_agent,
       auth_method: 'default',
     });
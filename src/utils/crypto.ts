@@ -1,82 +1,274 @@
-import { randomBytes, createCipheriv, createDecipheriv, createHash } from 'crypto';
+import { randomBytes, createCipheriv, createDecipheriv, createHash, createHmac, hkdfSync, pbkdf2Sync } from 'crypto';
 import * as bcrypt from 'bcryptjs';
-import { ENCRYPTION_KEY } from '../config/environment';
+import { ENCRYPTION_KEY, ENCRYPTION_KEYS, ENCRYPTION_KEY_ID, ENCRYPTION_ALLOW_LEGACY, NODE_ENV } from '../config/environment';
+import { logger, getLogger } from './logger';
 
 
 
-const ENCRYPTION_ALGORITHM = 'aes-256-cbc';
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const GCM_IV_LENGTH = 12;
+const GCM_TAG_LENGTH = 16;
+// Read-only support for values written before authenticated encryption
+const LEGACY_ENCRYPTION_ALGORITHM = 'aes-256-cbc';
+
+// Ciphertext envelope: "v2:<key id>:<base64 iv + data + tag>" (AES-256-GCM).
+// "v1:<key id>:<base64 iv + data>" is unauthenticated AES-256-CBC, and values
+// written before envelopes existed are bare CBC base64 under the default key.
+// Both older formats are upgraded by `npm run db:reencrypt` and only decrypted while
+// ENCRYPTION_ALLOW_LEGACY is on: they carry no context, so they can be moved between rows.
+const ENVELOPE_VERSION = 'v2';
+const LEGACY_ENVELOPE_VERSION = 'v1';
+export const DEFAULT_ENCRYPTION_KEY_ID = 'default';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Where an encrypted value lives. Bound into the GCM tag as associated data so a
+// value copied into another column or another user's row fails to decrypt.
+export interface EncryptionContext {
+  table: string;
+  column: string;
+  rowId: string;
+  // What older releases bound instead (the owning user's uid for sessions and login
+  // history); accepted only as a legacy read until db:reencrypt has rebound the value
+  previousRowId?: string;
+}
+
+export const fieldContext = (table: string, column: string, rowId: string | number, previousRowId?: string): EncryptionContext =>
+  ({ table, column, rowId: String(rowId), ...(previousRowId && { previousRowId }) });
+
+export interface DecryptOptions {
+  // Defaults to ENCRYPTION_ALLOW_LEGACY; db:reencrypt always reads legacy values to upgrade them
+  allowLegacy?: boolean;
+}
+
+interface EncryptionKey {
+  key: Buffer;        // AES-256-GCM key for v2 values
+  legacyKey: Buffer;  // AES-256-CBC key for v1 and unversioned values
+}
 
 export const hash = (input: string, salt: string = ''): string => {
   return createHash('sha256').update(input + salt).digest('hex');
 };
 
-// Derive key from ENCRYPTION_KEY for AES-256-CBC (32 bytes needed)
-function deriveKey(keyString: string): Buffer {
+let fingerprintKey: Buffer | null = null;
+
+// Keyed hash of a secret value (e.g. a session token) for indexed equality lookups.
+// Derived from ENCRYPTION_KEY rather than the current key id so fingerprints stay
+// valid across encryption key rotation.
+export const fingerprint = (value: string): string => {
+  if (!fingerprintKey) {
+    const keyMaterial = decodeRawKey(ENCRYPTION_KEY) || Buffer.from(ENCRYPTION_KEY, 'utf-8');
+    fingerprintKey = Buffer.from(hkdfSync('sha256', keyMaterial, Buffer.alloc(0), 'hofflabs-token-fingerprint', 32));
+  }
+  return createHmac('sha256', fingerprintKey).update(value).digest('hex');
+};
+
+let recoveryCodeKey: Buffer | null = null;
+
+// HMAC of an MFA recovery code for direct lookup. The codes only carry 40 bits of entropy,
+// so a server-side key is what stops someone with a copy of the table from brute-forcing them.
+export const recoveryCodeDigest = (value: string): string => {
+  if (!recoveryCodeKey) {
+    const keyMaterial = decodeRawKey(ENCRYPTION_KEY) || Buffer.from(ENCRYPTION_KEY, 'utf-8');
+    recoveryCodeKey = Buffer.from(hkdfSync('sha256', keyMaterial, Buffer.alloc(0), 'hofflabs-mfa-recovery-code', 32));
+  }
+  return createHmac('sha256', recoveryCodeKey).update(value).digest('hex');
+};
+
+let checkpointKey: Buffer | null = null;
+
+// MAC over an audit log checkpoint. Like fingerprints, keyed from ENCRYPTION_KEY so
+// old checkpoints stay verifiable after the field encryption key rotates.
+export const checkpointSignature = (value: string): string => {
+  if (!checkpointKey) {
+    const keyMaterial = decodeRawKey(ENCRYPTION_KEY) || Buffer.from(ENCRYPTION_KEY, 'utf-8');
+    checkpointKey = Buffer.from(hkdfSync('sha256', keyMaterial, Buffer.alloc(0), 'hofflabs-audit-checkpoint', 32));
+  }
+  return createHmac('sha256', checkpointKey).update(value).digest('hex');
+};
+
+// A base64-encoded key of at least 32 bytes, as generated by `openssl rand -base64 32`
+function decodeRawKey(keyString: string): Buffer | null {
+  if (keyString.length < 44) return null; // 32 bytes base64 encoded is ~44 chars
+
+  const keyBuffer = Buffer.from(keyString, 'base64');
+  return keyBuffer.length >= 32 ? keyBuffer.subarray(0, 32) : null;
+}
+
+// Key derivation used for v1 and unversioned AES-256-CBC values. The fixed PBKDF2
+// salt is kept only so existing data stays readable; nothing new is written with it.
+function deriveLegacyKey(keyString: string): Buffer {
+  return decodeRawKey(keyString) || pbkdf2Sync(keyString, 'hofflabs-salt', 10000, 32, 'sha256');
+}
+
+// Per-key-id subkey for AES-256-GCM, so the same secret never encrypts under two formats
+function deriveKey(keyString: string, keyId: string): Buffer {
+  const keyMaterial = decodeRawKey(keyString) || Buffer.from(keyString, 'utf-8');
+  return Buffer.from(hkdfSync('sha256', keyMaterial, Buffer.alloc(0), `hofflabs-field-encryption:${ENVELOPE_VERSION}:${keyId}`, 32));
+}
+
+function buildEncryptionKey(keyString: string, keyId: string): EncryptionKey {
   if (!keyString) {
     throw new Error('Encryption key is required');
   }
-  
-  // If key is already 32 bytes (for base64), use it directly
-  if (keyString.length >= 44) { // 32 bytes base64 encoded is ~44 chars
-    try {
-      const keyBuffer = Buffer.from(keyString, 'base64');
-      if (keyBuffer.length >= 32) {
-        return keyBuffer.subarray(0, 32);
-      }
-    } catch (e) {
-      // Fall through to hash-based derivation
+  return { key: deriveKey(keyString, keyId), legacyKey: deriveLegacyKey(keyString) };
+}
+
+let encryptionKeys: Map<string, EncryptionKey> | null = null;
+
+// Derived once - PBKDF2 is deliberately slow
+function getEncryptionKeys(): Map<string, EncryptionKey> {
+  if (encryptionKeys) return encryptionKeys;
+
+  const secrets = new Map<string, string>([[DEFAULT_ENCRYPTION_KEY_ID, ENCRYPTION_KEY]]);
+
+  for (const entry of ENCRYPTION_KEYS.split(',').map(pair => pair.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    const secret = entry.slice(separator + 1);
+
+    if (separator < 1 || !KEY_ID_PATTERN.test(id) || !secret) {
+      throw new Error('ENCRYPTION_KEYS must be a comma-separated list of id:secret pairs');
+    }
+    if (secrets.has(id)) {
+      throw new Error(`Duplicate encryption key id: ${id}`);
     }
+    secrets.set(id, secret);
   }
-  
-  // Derive key using PBKDF2 for better security
-  const { pbkdf2Sync } = require('crypto');
-  return pbkdf2Sync(keyString, 'hofflabs-salt', 10000, 32, 'sha256');
+
+  const currentSecret = secrets.get(ENCRYPTION_KEY_ID);
+  if (!currentSecret) {
+    throw new Error(`ENCRYPTION_KEY_ID "${ENCRYPTION_KEY_ID}" does not match any configured encryption key`);
+  }
+
+  // Passphrases are only stretched by HKDF, which is no defence against guessing
+  if (!decodeRawKey(currentSecret)) {
+    if (NODE_ENV === 'production') {
+      throw new Error(`Encryption key "${ENCRYPTION_KEY_ID}" is not a base64-encoded 32-byte key. Add one generated with \`openssl rand -base64 32\` to ENCRYPTION_KEYS and point ENCRYPTION_KEY_ID at it.`);
+    }
+    logger.warn({ keyId: ENCRYPTION_KEY_ID }, 'Encryption key is a passphrase rather than a random 32-byte key');
+  }
+
+  const keys = new Map<string, EncryptionKey>();
+  for (const [id, secret] of secrets) {
+    keys.set(id, buildEncryptionKey(secret, id));
+  }
+
+  encryptionKeys = keys;
+  return keys;
+}
+
+// Fail at startup rather than on the first encrypt() if ENCRYPTION_KEYS / ENCRYPTION_KEY_ID are misconfigured
+export const validateEncryptionKeys = (): void => {
+  getEncryptionKeys();
+};
+
+export const getCurrentEncryptionKeyId = (): string => ENCRYPTION_KEY_ID;
+
+function parseEnvelope(encryptedData: string): { version: string | null; keyId: string; payload: string } {
+  const parts = encryptedData.split(':');
+  if (parts.length === 3 && (parts[0] === ENVELOPE_VERSION || parts[0] === LEGACY_ENVELOPE_VERSION)) {
+    return { version: parts[0], keyId: parts[1], payload: parts[2] };
+  }
+  return { version: null, keyId: DEFAULT_ENCRYPTION_KEY_ID, payload: encryptedData };
 }
 
-export const encrypt = async (text: string): Promise<string> => {
+const associatedData = (context?: EncryptionContext): Buffer =>
+  Buffer.from(context ? `${context.table}:${context.column}:${context.rowId}` : '', 'utf-8');
+
+// Which key a stored value was encrypted with, without decrypting it
+export const getCiphertextKeyId = (encryptedData: string): string => parseEnvelope(encryptedData).keyId;
+
+// True for values that use an older format or key and should be re-encrypted
+export const needsReencryption = (encryptedData: string): boolean => {
+  const { version, keyId } = parseEnvelope(encryptedData);
+  return version !== ENVELOPE_VERSION || keyId !== ENCRYPTION_KEY_ID;
+};
+
+export const encrypt = async (text: string, context?: EncryptionContext): Promise<string> => {
   if (!text) {
     throw new Error('Text to encrypt cannot be empty');
   }
   
   try {
-    const key = deriveKey(ENCRYPTION_KEY);
-    const iv = randomBytes(16);
-    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv);
+    const { key } = getEncryptionKeys().get(ENCRYPTION_KEY_ID)!;
+    const iv = randomBytes(GCM_IV_LENGTH);
+    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, key, iv, { authTagLength: GCM_TAG_LENGTH });
+    cipher.setAAD(associatedData(context));
     
     const encrypted = Buffer.concat([
       cipher.update(text, 'utf8'),
       cipher.final()
     ]);
     
-    // Combine IV + encrypted data and encode as base64
-    return Buffer.concat([iv, encrypted]).toString('base64');
+    // Combine IV + encrypted data + auth tag, encode as base64 and tag with the key id
+    const payload = Buffer.concat([iv, encrypted, cipher.getAuthTag()]).toString('base64');
+    return `${ENVELOPE_VERSION}:${ENCRYPTION_KEY_ID}:${payload}`;
   } catch (error) {
-    console.error('Encryption error:', error);
+    getLogger().error({ err: error }, 'Encryption error');
     throw new Error('Encryption failed');
   }
 };
 
-export const decrypt = async (encryptedData: string): Promise<string> => {
+function decryptLegacy(key: Buffer, buffer: Buffer): string {
+  if (buffer.length < 16) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const iv = buffer.subarray(0, 16);
+  const data = buffer.subarray(16);
+  const decipher = createDecipheriv(LEGACY_ENCRYPTION_ALGORITHM, key, iv);
+
+  return decipher.update(data, undefined, 'utf8') + decipher.final('utf8');
+}
+
+function decryptGcm(key: Buffer, buffer: Buffer, context?: EncryptionContext): string {
+  if (buffer.length < GCM_IV_LENGTH + GCM_TAG_LENGTH) {
+    throw new Error('Invalid encrypted data format');
+  }
+
+  const iv = buffer.subarray(0, GCM_IV_LENGTH);
+  const data = buffer.subarray(GCM_IV_LENGTH, buffer.length - GCM_TAG_LENGTH);
+  const tag = buffer.subarray(buffer.length - GCM_TAG_LENGTH);
+
+  const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, iv, { authTagLength: GCM_TAG_LENGTH });
+  decipher.setAAD(associatedData(context));
+  decipher.setAuthTag(tag);
+
+  // final() throws if the data, tag or associated data were tampered with
+  return decipher.update(data, undefined, 'utf8') + decipher.final('utf8');
+}
+
+export const decrypt = async (encryptedData: string, context?: EncryptionContext, options: DecryptOptions = {}): Promise<string> => {
   if (!encryptedData) {
     throw new Error('Encrypted data cannot be empty');
   }
+  const allowLegacy = options.allowLegacy ?? ENCRYPTION_ALLOW_LEGACY;
   
   try {
-    const key = deriveKey(ENCRYPTION_KEY);
-    const buffer = Buffer.from(encryptedData, 'base64');
-    
-    if (buffer.length < 16) {
-      throw new Error('Invalid encrypted data format');
+    const { version, keyId, payload } = parseEnvelope(encryptedData);
+    const keys = getEncryptionKeys().get(keyId);
+
+    if (!keys) {
+      throw new Error(`Unknown encryption key id: ${keyId}`);
+    }
+
+    const buffer = Buffer.from(payload, 'base64');
+
+    if (version !== ENVELOPE_VERSION) {
+      if (!allowLegacy) {
+        throw new Error('Legacy ciphertext refused: ENCRYPTION_ALLOW_LEGACY is off');
+      }
+      return decryptLegacy(keys.legacyKey, buffer);
+    }
+
+    try {
+      return decryptGcm(keys.key, buffer, context);
+    } catch (error) {
+      if (!allowLegacy || !context?.previousRowId) throw error;
+      return decryptGcm(keys.key, buffer, { ...context, rowId: context.previousRowId });
     }
-    
-    const iv = buffer.subarray(0, 16);
-    const data = buffer.subarray(16);
-    
-    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, key, iv);
-    
-    return decipher.update(data, undefined, 'utf8') + decipher.final('utf8');
   } catch (error) {
-    console.error('Decryption error:', error);
+    getLogger().error({ err: error }, 'Decryption error');
     throw new Error('Decryption failed');
   }
 };
@@ -0,0 +1,142 @@
+import fs from 'fs';
+import { isIP } from 'net';
+import { GEOIP_DATABASE_FILE } from '../config/environment';
+import { logger, getLogger } from './logger';
+
+// Resolves an IP address to a coarse, human-readable location ("Berlin, DE").
+// Lookups must be local - IP addresses are never sent to a third party.
+export interface GeoIpProvider {
+  lookup(ip: string): string | null;
+}
+
+interface IpRange {
+  start: bigint;
+  end: bigint;
+  label: string;
+}
+
+// Convert an IPv4 or IPv6 address to a number so ranges can be compared.
+// IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are treated as IPv4.
+export function ipToBigInt(ip: string): { family: 4 | 6; value: bigint } | null {
+  const address = ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip;
+
+  switch (isIP(address)) {
+    case 4:
+      return {
+        family: 4,
+        value: address.split('.').reduce((total, octet) => (total << 8n) + BigInt(parseInt(octet, 10)), 0n)
+      };
+    case 6: {
+      const [head, tail = ''] = address.split('::');
+      const headGroups = head ? head.split(':') : [];
+      const tailGroups = address.includes('::') && tail ? tail.split(':') : [];
+
+      // An embedded IPv4 suffix counts as two groups
+      const expand = (groups: string[]): string[] => groups.flatMap(group => {
+        if (!group.includes('.')) return [group];
+        const octets = group.split('.').map(octet => parseInt(octet, 10));
+        return [((octets[0] << 8) | octets[1]).toString(16), ((octets[2] << 8) | octets[3]).toString(16)];
+      });
+
+      const headExpanded = expand(headGroups);
+      const tailExpanded = expand(tailGroups);
+      const groups = [...headExpanded, ...Array(8 - headExpanded.length - tailExpanded.length).fill('0'), ...tailExpanded];
+
+      return {
+        family: 6,
+        value: groups.reduce((total, group) => (total << 16n) + BigInt(parseInt(group || '0', 16)), 0n)
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+// Offline range database in CSV form, one range per line:
+//   start_ip,end_ip,country_code[,region[,city]]
+// The free DB-IP "IP to Country Lite" export can be used as-is. Loaded into
+// memory once and searched with a binary search.
+export class CsvGeoIpProvider implements GeoIpProvider {
+  private readonly ranges: Record<4 | 6, IpRange[]> = { 4: [], 6: [] };
+
+  constructor(filePath: string) {
+    const lines = fs.readFileSync(filePath, 'utf-8').split('\n');
+
+    for (const line of lines) {
+      const fields = line.trim().split(',').map(field => field.replace(/^"|"$/g, '').trim());
+      if (fields.length < 3) continue;
+
+      const start = ipToBigInt(fields[0]);
+      const end = ipToBigInt(fields[1]);
+      if (!start || !end || start.family !== end.family) continue; // header or malformed row
+
+      const [country, region, city] = fields.slice(2);
+      const label = [city || region, country].filter(Boolean).join(', ');
+      if (label) {
+        this.ranges[start.family].push({ start: start.value, end: end.value, label });
+      }
+    }
+
+    for (const family of [4, 6] as const) {
+      this.ranges[family].sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+    }
+  }
+
+  get size(): number {
+    return this.ranges[4].length + this.ranges[6].length;
+  }
+
+  lookup(ip: string): string | null {
+    const address = ipToBigInt(ip);
+    if (!address) return null;
+
+    const ranges = this.ranges[address.family];
+    let low = 0;
+    let high = ranges.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const range = ranges[mid];
+      if (address.value < range.start) high = mid - 1;
+      else if (address.value > range.end) low = mid + 1;
+      else return range.label;
+    }
+
+    return null;
+  }
+}
+
+let provider: GeoIpProvider | null | undefined;
+
+// Swap in a different provider (e.g. a MaxMind reader, or a stub in tests).
+// Pass null to disable location lookups.
+export function setGeoIpProvider(custom: GeoIpProvider | null): void {
+  provider = custom;
+}
+
+function getGeoIpProvider(): GeoIpProvider | null {
+  if (provider !== undefined) return provider;
+
+  provider = null;
+  if (GEOIP_DATABASE_FILE) {
+    try {
+      const csvProvider = new CsvGeoIpProvider(GEOIP_DATABASE_FILE);
+      logger.info(`GeoIP database loaded (${csvProvider.size} ranges)..`);
+      provider = csvProvider;
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to load GeoIP database');
+    }
+  }
+  return provider;
+}
+
+export function lookupLocation(ip?: string | null): string | null {
+  if (!ip) return null;
+
+  try {
+    return getGeoIpProvider()?.lookup(ip) ?? null;
+  } catch (error) {
+    getLogger().error({ err: error }, 'GeoIP lookup failed');
+    return null;
+  }
+}
@@ -1,9 +1,13 @@
-import { JWT_SECRET } from '../config/environment';
 import jwt from 'jsonwebtoken';
+import { verifyToken } from './auth/tokenSigning';
 
 export const verifyJWT = (token: string): any => {
   try {
-    return jwt.verify(token, JWT_SECRET);
+    // Pin the audience so refresh and MFA challenge tokens (signed with the
+    // same key) can never be used as access tokens
+    return verifyToken(token, {
+      audience: 'hofflabs-users'
+    });
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
@@ -15,6 +19,6 @@ export const decodeJWT = (token: string): any => {
 
 // Verify refresh token format
 export const verifyRefreshTokenFormat = (refreshToken: string): boolean => {
-  // Refresh token should be 128 characters: 64 (UID hex) + 64 (random hex)
-  return typeof refreshToken === 'string' && refreshToken.length === 128;
+  // Refresh tokens are signed JWTs: three base64url segments
+  return typeof refreshToken === 'string' && /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/.test(refreshToken);
 };
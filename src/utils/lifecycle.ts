@@ -0,0 +1,50 @@
+import { logger } from './logger';
+
+let shuttingDown = false;
+const backgroundTasks = new Set<Promise<unknown>>();
+
+// Once set, readiness reports down and background workers stop picking up new work
+export function beginShutdown(): void {
+  shuttingDown = true;
+}
+
+export function isShuttingDown(): boolean {
+  return shuttingDown;
+}
+
+// Register fire-and-forget work (audit writes, alerts, webhook polls) so shutdown can wait
+// for it instead of exiting mid-write. Returns the promise so callers can keep chaining.
+export function trackBackgroundTask<T>(task: Promise<T>): Promise<T> {
+  backgroundTasks.add(task);
+  const untrack = () => {
+    backgroundTasks.delete(task);
+  };
+  task.then(untrack, untrack);
+  return task;
+}
+
+export function pendingBackgroundTasks(): number {
+  return backgroundTasks.size;
+}
+
+// Wait for tracked work, including anything it starts meanwhile (a failed audit write logs an
+// alert, say). Resolves false if some was still running after timeoutMs.
+export async function flushBackgroundTasks(timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (backgroundTasks.size > 0) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      logger.warn({ pending: backgroundTasks.size }, 'Gave up waiting for background work');
+      return false;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<void>(resolve => {
+      timer = setTimeout(resolve, remaining);
+    });
+    await Promise.race([Promise.allSettled([...backgroundTasks]), timeout]).finally(() => clearTimeout(timer));
+  }
+
+  return true;
+}
@@ -0,0 +1,130 @@
+import pino from 'pino';
+import { trace } from '@opentelemetry/api';
+import { randomUUID } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { FastifyBaseLogger } from 'fastify';
+import { LOG_LEVEL, NODE_ENV } from '../config/environment';
+import { getRequestContext } from './requestContext';
+
+// List of sensitive fields that should never be logged
+const SENSITIVE_FIELDS = [
+  'password',
+  'password_hash',
+  'refresh_token',
+  'session_token',
+  'access_token',
+  'jwt',
+  'secret',
+  'key',
+  'token',
+  'email_verification_token',
+  'reset_token'
+];
+
+const isSensitiveKey = (key: string): boolean => {
+  const lowerKey = key.toLowerCase();
+  return SENSITIVE_FIELDS.some(field => lowerKey.includes(field) || lowerKey.includes('auth'));
+};
+
+// Recursively sanitize objects to remove sensitive data
+export function sanitizeForLogging(obj: any, depth = 0): any {
+  if (depth > 5) return '[Max depth reached]'; // Prevent infinite recursion
+
+  if (obj === null || obj === undefined) return obj;
+
+  if (typeof obj === 'string') {
+    // Check if string looks like a token/secret
+    if (obj.length > 20 && (obj.includes('.') || obj.match(/^[A-Za-z0-9+/=]+$/))) {
+      return '[REDACTED_TOKEN]';
+    }
+    return obj;
+  }
+
+  if (typeof obj !== 'object') return obj;
+
+  if (Array.isArray(obj)) {
+    return obj.map(item => sanitizeForLogging(item, depth + 1));
+  }
+
+  const sanitized: any = {};
+  for (const [key, value] of Object.entries(obj)) {
+    sanitized[key] = isSensitiveKey(key) ? '[REDACTED]' : sanitizeForLogging(value, depth + 1);
+  }
+
+  return sanitized;
+}
+
+// Errors keep their name and message everywhere; stack traces only in development
+function serializeError(error: unknown): unknown {
+  if (typeof error === 'string') return error;
+  if (!(error instanceof Error)) {
+    return sanitizeForLogging(error);
+  }
+  const { stack, ...serialized } = pino.stdSerializers.err(error);
+  return NODE_ENV === 'development' ? { ...serialized, stack } : serialized;
+}
+
+// Query strings and path parameters (/auth/reset/:token) carry verification and reset tokens
+export function redactUrl(url: string, pathParams?: unknown): string {
+  const queryStart = url.indexOf('?');
+  let path = queryStart === -1 ? url : url.slice(0, queryStart);
+
+  if (typeof pathParams === 'object' && pathParams !== null) {
+    for (const [key, value] of Object.entries(pathParams)) {
+      if (isSensitiveKey(key) && typeof value === 'string' && value !== '') {
+        path = path.split(encodeURIComponent(value)).join('[REDACTED]');
+      }
+    }
+  }
+  if (queryStart === -1) return path;
+
+  const params = new URLSearchParams(url.slice(queryStart + 1));
+  for (const key of Array.from(params.keys())) {
+    if (isSensitiveKey(key)) params.set(key, '[REDACTED]');
+  }
+  return `${path}?${params.toString()}`;
+}
+
+// Shared by Fastify (request logs) and everything else, so one process writes one
+// stream of JSON lines. Sanitizing happens here, whoever logs.
+export const logger: FastifyBaseLogger = pino({
+  level: LOG_LEVEL,
+  // Lines logged under a span carry its ids, so logs and traces can be joined up
+  mixin() {
+    const span = trace.getActiveSpan();
+    if (!span) return {};
+    const { traceId, spanId } = span.spanContext();
+    return { trace_id: traceId, span_id: spanId };
+  },
+  serializers: {
+    err: serializeError,
+    error: serializeError,
+    details: sanitizeForLogging,
+    context: sanitizeForLogging,
+    req: (request: { method: string; url: string; params?: unknown; host?: string; ip?: string }) => ({
+      method: request.method,
+      url: redactUrl(request.url, request.params),
+      host: request.host,
+      remoteAddress: request.ip
+    }),
+    res: (reply: { statusCode: number }) => ({ statusCode: reply.statusCode })
+  }
+});
+
+// The current request's logger (tagged with its reqId) when there is one, so lines
+// from services correlate with the request that caused them
+export function getLogger(): FastifyBaseLogger {
+  return getRequestContext()?.log ?? logger;
+}
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Use the caller's X-Request-Id when it looks like an id; anything else could be
+// used to forge or break up log lines
+export function generateRequestId(request: IncomingMessage): string {
+  const incoming = request.headers[REQUEST_ID_HEADER];
+  if (typeof incoming === 'string' && /^[\w.:-]{1,128}$/.test(incoming)) {
+    return incoming;
+  }
+  return randomUUID();
+}
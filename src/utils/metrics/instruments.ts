@@ -0,0 +1,77 @@
+import { Counter, Histogram } from './registry';
+
+// Every label here takes a small fixed set of values: outcomes, route templates,
+// policy names. Never label with user ids, usernames, emails, IPs or raw URLs.
+
+export const httpRequestsTotal = new Counter(
+  'http_requests_total',
+  'HTTP requests by route template, method and status code',
+  ['method', 'route', 'status_code']
+);
+
+export const httpRequestDuration = new Histogram(
+  'http_request_duration_seconds',
+  'HTTP request duration by route template and method',
+  ['method', 'route']
+);
+
+export type LoginOutcome = 'success' | 'mfa_required' | 'invalid_credentials' | 'locked' | 'deactivated' | 'banned' | 'error';
+
+export const loginAttemptsTotal = new Counter(
+  'auth_login_attempts_total',
+  'Password login attempts by outcome',
+  ['outcome']
+);
+
+export const accountLockoutsTotal = new Counter(
+  'auth_account_lockouts_total',
+  'Accounts locked after repeated failed logins'
+);
+
+export type RegistrationOutcome = 'success' | 'conflict' | 'invalid' | 'error';
+
+export const registrationsTotal = new Counter(
+  'auth_registrations_total',
+  'Registration attempts by outcome',
+  ['outcome']
+);
+
+export type RefreshOutcome = 'success' | 'invalid' | 'reuse_detected' | 'concurrent_rotation' | 'error';
+
+export const tokenRefreshesTotal = new Counter(
+  'auth_token_refreshes_total',
+  'Refresh token exchanges by outcome',
+  ['outcome']
+);
+
+export const emailsTotal = new Counter(
+  'emails_total',
+  'Outgoing emails by outcome (sent, failed, or mocked in test mode)',
+  ['outcome']
+);
+
+export const emailSendDuration = new Histogram(
+  'email_send_duration_seconds',
+  'Time taken to hand an email to the SMTP server',
+  ['outcome']
+);
+
+export const dbQueryDuration = new Histogram(
+  'db_query_duration_seconds',
+  'Database query duration by statement type and outcome',
+  ['operation', 'outcome']
+);
+
+export const rateLimitDecisionsTotal = new Counter(
+  'rate_limit_decisions_total',
+  'Rate limit checks by policy and outcome (allowed, limited, or store_error when failing open)',
+  ['policy', 'outcome']
+);
+
+const SQL_OPERATIONS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'WITH', 'BEGIN', 'COMMIT', 'ROLLBACK', 'LOCK']);
+
+// The statement keyword, so the label can't pick up table contents or values
+export function sqlOperation(text: string): string {
+  const keyword = text.trimStart().split(/\s/, 1)[0].toUpperCase();
+  return SQL_OPERATIONS.has(keyword) ? keyword : 'OTHER';
+}
@@ -0,0 +1,154 @@
+// Just enough of the Prometheus client model (counters and histograms with labels)
+// to expose the text format at /metrics
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels<L extends string> = Record<L, string>;
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+const metrics = new Map<string, Metric>();
+
+function register(metric: Metric): void {
+  if (metrics.has(metric.name)) {
+    throw new Error(`Metric already registered: ${metric.name}`);
+  }
+  metrics.set(metric.name, metric);
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+function formatLabels(names: readonly string[], values: readonly string[], extra = ''): string {
+  const pairs = names.map((name, i) => `${name}="${escapeLabelValue(values[i])}"`);
+  if (extra) pairs.push(extra);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+const formatValue = (value: number): string =>
+  Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+
+// Series are keyed by their label values in labelNames order
+abstract class LabelledMetric<L extends string, S> implements Metric {
+  protected readonly series = new Map<string, { values: string[]; state: S }>();
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: readonly L[] = []) {
+    register(this);
+  }
+
+  protected abstract initialState(): S;
+  protected abstract type: string;
+  protected abstract renderSeries(values: string[], state: S): string[];
+
+  protected labelValues(labels?: Partial<Labels<L>>): string[] {
+    return this.labelNames.map(name => labels?.[name] ?? '');
+  }
+
+  protected seriesFor(labels?: Partial<Labels<L>>): S {
+    const values = this.labelValues(labels);
+    const key = values.join('\u0000');
+
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { values, state: this.initialState() };
+      this.series.set(key, entry);
+    }
+    return entry.state;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { values, state } of this.series.values()) {
+      lines.push(...this.renderSeries(values, state));
+    }
+    return lines;
+  }
+}
+
+export class Counter<L extends string = never> extends LabelledMetric<L, { value: number }> {
+  protected type = 'counter';
+
+  protected initialState() {
+    return { value: 0 };
+  }
+
+  inc(labels?: Labels<L>, amount = 1): void {
+    if (amount < 0) {
+      throw new Error('Counters can only increase');
+    }
+    this.seriesFor(labels).value += amount;
+  }
+
+  get(labels?: Labels<L>): number {
+    return this.series.get(this.labelValues(labels).join('\u0000'))?.state.value ?? 0;
+  }
+
+  protected renderSeries(values: string[], state: { value: number }): string[] {
+    return [`${this.name}${formatLabels(this.labelNames, values)} ${formatValue(state.value)}`];
+  }
+}
+
+interface HistogramState {
+  buckets: number[];   // per-bucket (not cumulative) counts
+  sum: number;
+  count: number;
+}
+
+// Seconds, suited to database queries through to SMTP round trips
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export class Histogram<L extends string = never> extends LabelledMetric<L, HistogramState> {
+  protected type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: readonly L[] = [], readonly buckets: readonly number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  protected initialState(): HistogramState {
+    return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Labels<L> | undefined, value: number): void {
+    const state = this.seriesFor(labels);
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket !== -1) state.buckets[bucket]++;
+    state.sum += value;
+    state.count++;
+  }
+
+  // Returns a function that records the seconds elapsed since the timer started.
+  // Labels only known at the end (e.g. the outcome) can be passed to it.
+  startTimer(labels?: Partial<Labels<L>>): (endLabels?: Partial<Labels<L>>) => number {
+    const start = process.hrtime.bigint();
+    return endLabels => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels } as Labels<L>, seconds);
+      return seconds;
+    };
+  }
+
+  protected renderSeries(values: string[], state: HistogramState): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, i) => {
+      cumulative += state.buckets[i];
+      lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, `le="${formatValue(bound)}"`)} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, 'le="+Inf"')} ${state.count}`);
+    lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(state.sum)}`);
+    lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${state.count}`);
+    return lines;
+  }
+}
+
+// Every registered metric in the Prometheus text exposition format
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of metrics.values()) {
+    lines.push(...metric.render());
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,192 @@
+import { RATE_LIMIT_STORE, RATE_LIMIT_GLOBAL_STORE, RATE_LIMIT_POLICIES } from '../../config/environment';
+import { MemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from './stores';
+import { getLogger } from '../logger';
+import { rateLimitDecisionsTotal } from '../metrics/instruments';
+
+export interface RateLimitPolicy {
+  max: number;       // hits allowed per window
+  windowMs: number;
+  blockMs?: number;  // once over the limit, keep the client blocked this long
+}
+
+// Built-in policies. Routes pick one with `config: { rateLimit: '<name>' }` on top of
+// `global`; RATE_LIMIT_POLICIES can override any of them or add new ones.
+const DEFAULT_POLICIES: Record<string, RateLimitPolicy> = {
+  global: { max: 100, windowMs: 60 * 1000 },
+  auth: { max: 10, windowMs: 15 * 60 * 1000, blockMs: 15 * 60 * 1000 },
+  // Routes that send mail, so they can't be used to flood someone's inbox
+  email: { max: 5, windowMs: 60 * 60 * 1000, blockMs: 60 * 60 * 1000 }
+};
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)(ms|s|m|h)$/);
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+// "name=max/window[/block]" pairs separated by commas, e.g. "auth=5/15m/1h,global=300/1m"
+export function parsePolicies(spec: string): Record<string, RateLimitPolicy> {
+  const policies: Record<string, RateLimitPolicy> = {};
+
+  for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, rule] = entry.split('=').map(part => part?.trim());
+    const [max, window, block] = (rule || '').split('/');
+    if (!name || !/^\d+$/.test(max || '') || !window) {
+      throw new Error(`Invalid rate limit policy: ${entry}`);
+    }
+
+    policies[name] = {
+      max: parseInt(max, 10),
+      windowMs: parseDuration(window),
+      ...(block && { blockMs: parseDuration(block) })
+    };
+  }
+
+  return policies;
+}
+
+const policies: Record<string, RateLimitPolicy> = { ...DEFAULT_POLICIES, ...parsePolicies(RATE_LIMIT_POLICIES) };
+
+export function getRateLimitPolicy(name: string): RateLimitPolicy {
+  const policy = policies[name];
+  if (!policy) {
+    throw new Error(`Unknown rate limit policy: ${name}`);
+  }
+  return policy;
+}
+
+let store: RateLimitStore = RATE_LIMIT_STORE === 'memory' ? new MemoryRateLimitStore() : new PostgresRateLimitStore();
+// Every request counts against `global`, so it is only a coarse per-instance flood guard
+// unless RATE_LIMIT_GLOBAL_STORE asks for the shared store and its per-request round trip
+const globalStore: RateLimitStore | null = RATE_LIMIT_GLOBAL_STORE === 'shared' ? null : new MemoryRateLimitStore();
+
+const storeFor = (policy: string): RateLimitStore => (policy === 'global' && globalStore) || store;
+
+// Swap the shared counter backend, e.g. for a RedisRateLimitStore
+export function setRateLimitStore(custom: RateLimitStore): void {
+  store = custom;
+}
+
+export interface RateLimitDecision {
+  policy: string;
+  limit: number;
+  remaining: number;
+  resetAt: number;    // epoch ms when the client may try again / the window ends
+  windowMs: number;
+  limited: boolean;
+  exceeded: boolean;  // this hit is the one that went over the limit
+}
+
+const counterKey = (policy: string, client: string): string => `${policy}:${client}`;
+
+// Count one hit by `client` (usually an IP) against a policy
+export async function consumeRateLimit(policyName: string, client: string): Promise<RateLimitDecision> {
+  const policy = getRateLimitPolicy(policyName);
+  const key = counterKey(policyName, client);
+
+  let counter;
+  try {
+    counter = await storeFor(policyName).increment(key, policy.windowMs);
+  } catch (error) {
+    // Fail open: an unreachable store shouldn't take the whole API down with it
+    getLogger().error({ err: error, policy: policyName }, 'Rate limit store unavailable');
+    rateLimitDecisionsTotal.inc({ policy: policyName, outcome: 'store_error' });
+    return {
+      policy: policyName,
+      limit: policy.max,
+      remaining: policy.max,
+      resetAt: Date.now() + policy.windowMs,
+      windowMs: policy.windowMs,
+      limited: false,
+      exceeded: false
+    };
+  }
+
+  const limited = counter.count > policy.max;
+  const exceeded = counter.count === policy.max + 1;
+  rateLimitDecisionsTotal.inc({ policy: policyName, outcome: limited ? 'limited' : 'allowed' });
+  let resetAt = counter.resetAt;
+
+  if (exceeded && policy.blockMs) {
+    resetAt = Math.max(resetAt, Date.now() + policy.blockMs);
+    await storeFor(policyName).block(key, resetAt).catch(error => {
+      getLogger().error({ err: error, policy: policyName }, 'Failed to block rate limited client');
+    });
+  }
+
+  return {
+    policy: policyName,
+    limit: policy.max,
+    remaining: Math.max(policy.max - counter.count, 0),
+    resetAt,
+    windowMs: policy.windowMs,
+    limited,
+    exceeded
+  };
+}
+
+export async function resetRateLimit(policyName: string, client: string): Promise<void> {
+  await storeFor(policyName).reset(counterKey(policyName, client));
+}
+
+export interface RateLimitedClient {
+  client: string;
+  policy: string;
+  attempts: number;
+  limit: number;
+  blockedUntil: Date;
+}
+
+// Clients currently over the limit of any policy, most recently blocked first
+export async function listRateLimitedClients(): Promise<RateLimitedClient[]> {
+  const clients: RateLimitedClient[] = [];
+
+  for (const [name, policy] of Object.entries(policies)) {
+    const prefix = counterKey(name, '');
+    for (const entry of await storeFor(name).list(prefix, policy.max + 1)) {
+      clients.push({
+        client: entry.key.slice(prefix.length),
+        policy: name,
+        attempts: entry.count,
+        limit: policy.max,
+        blockedUntil: new Date(entry.resetAt)
+      });
+    }
+  }
+
+  return clients.sort((a, b) => b.blockedUntil.getTime() - a.blockedUntil.getTime());
+}
+
+// Forget a client's counters under every policy. Returns the policies it was over the limit of.
+export async function clearRateLimits(client: string): Promise<string[]> {
+  const limited = (await listRateLimitedClients())
+    .filter(entry => entry.client === client)
+    .map(entry => entry.policy);
+
+  for (const name of Object.keys(policies)) {
+    await resetRateLimit(name, client);
+  }
+
+  return limited;
+}
+
+// RateLimit-* fields from the IETF RateLimit header draft, plus Retry-After once limited
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const resetSeconds = Math.max(Math.ceil((decision.resetAt - Date.now()) / 1000), 0);
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${decision.limit};w=${Math.ceil(decision.windowMs / 1000)}`
+  };
+
+  if (decision.limited) {
+    headers['Retry-After'] = String(resetSeconds);
+  }
+
+  return headers;
+}
@@ -0,0 +1,192 @@
+import {
+  incrementRateLimitCounter,
+  extendRateLimitCounter,
+  listRateLimitCounters,
+  deleteRateLimitCounter,
+  pruneRateLimitCounters
+} from '../../database/auth/rate-limit-operations';
+import { logger } from '../logger';
+
+export interface RateLimitCounter {
+  count: number;    // hits in the current window, including this one
+  resetAt: number;  // epoch ms when the window (or block) ends
+}
+
+export interface RateLimitEntry extends RateLimitCounter {
+  key: string;
+}
+
+// Where fixed-window counters live. Implementations must make increment atomic,
+// since every API instance may be counting against the same key.
+export interface RateLimitStore {
+  // Count a hit, opening a new window of windowMs if the key has none
+  increment(key: string, windowMs: number): Promise<RateLimitCounter>;
+  // Keep the key's current count until `until` (used to block a client)
+  block(key: string, until: number): Promise<void>;
+  // Open windows whose key starts with prefix and that have at least minCount hits
+  list(prefix: string, minCount: number): Promise<RateLimitEntry[]>;
+  reset(key: string): Promise<void>;
+}
+
+// Single-process store. Limits reset on restart and aren't shared between instances.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters = new Map<string, RateLimitCounter>();
+  private lastSweep = Date.now();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.counters.set(key, fresh);
+      return { ...fresh };
+    }
+
+    counter.count++;
+    return { ...counter };
+  }
+
+  async block(key: string, until: number): Promise<void> {
+    const counter = this.counters.get(key);
+    if (counter) counter.resetAt = Math.max(counter.resetAt, until);
+  }
+
+  async list(prefix: string, minCount: number): Promise<RateLimitEntry[]> {
+    const now = Date.now();
+    return Array.from(this.counters)
+      .filter(([key, counter]) => key.startsWith(prefix) && counter.count >= minCount && counter.resetAt > now)
+      .map(([key, counter]) => ({ key, ...counter }));
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  // Drop finished windows now and then so idle clients don't accumulate
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60_000) return;
+    this.lastSweep = now;
+
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+const POSTGRES_PRUNE_INTERVAL = 5 * 60 * 1000;
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastPrune = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const row = await incrementRateLimitCounter(key, windowMs);
+    this.prune();
+    return { count: row.count, resetAt: new Date(row.resets_at).getTime() };
+  }
+
+  async block(key: string, until: number): Promise<void> {
+    await extendRateLimitCounter(key, new Date(until));
+  }
+
+  async list(prefix: string, minCount: number): Promise<RateLimitEntry[]> {
+    const rows = await listRateLimitCounters(prefix, minCount);
+    return rows.map(row => ({ key: row.key, count: row.count, resetAt: new Date(row.resets_at).getTime() }));
+  }
+
+  async reset(key: string): Promise<void> {
+    await deleteRateLimitCounter(key);
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < POSTGRES_PRUNE_INTERVAL) return;
+    this.lastPrune = now;
+
+    pruneRateLimitCounters().catch(error => {
+      logger.error({ err: error }, 'Failed to prune rate limit counters');
+    });
+  }
+}
+
+// The subset of a Redis client the adapter needs. ioredis clients fit as-is;
+// other clients can be wrapped in a couple of lines.
+export interface RedisRateLimitClient {
+  eval(script: string, numKeys: number, ...args: Array<string | number>): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+// INCR and set the expiry in one round trip so concurrent hits can't leave a key without a TTL
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return {count, ttl}
+`;
+
+const BLOCK_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl >= 0 and ttl < tonumber(ARGV[1]) then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return ttl
+`;
+
+// Walks the keyspace with SCAN rather than KEYS so a large keyspace doesn't stall Redis.
+// Only used by admin listings, never on the request path.
+const LIST_SCRIPT = `
+local cursor = '0'
+local result = {}
+repeat
+  local page = redis.call('SCAN', cursor, 'MATCH', ARGV[1], 'COUNT', 1000)
+  cursor = page[1]
+  for _, key in ipairs(page[2]) do
+    local count = tonumber(redis.call('GET', key) or '0')
+    local ttl = redis.call('PTTL', key)
+    if count >= tonumber(ARGV[2]) and ttl > 0 then
+      table.insert(result, key)
+      table.insert(result, count)
+      table.insert(result, ttl)
+    end
+  end
+until cursor == '0'
+return result
+`;
+
+const escapeGlob = (value: string): string => value.replace(/[*?[\]\\]/g, '\\$&');
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(private readonly client: RedisRateLimitClient, private readonly prefix = 'ratelimit:') {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const [count, ttl] = await this.client.eval(INCREMENT_SCRIPT, 1, this.prefix + key, windowMs) as [number, number];
+    return { count: Number(count), resetAt: Date.now() + Number(ttl) };
+  }
+
+  async block(key: string, until: number): Promise<void> {
+    await this.client.eval(BLOCK_SCRIPT, 1, this.prefix + key, Math.max(until - Date.now(), 1));
+  }
+
+  async list(prefix: string, minCount: number): Promise<RateLimitEntry[]> {
+    const flat = await this.client.eval(LIST_SCRIPT, 0, `${escapeGlob(this.prefix + prefix)}*`, minCount) as Array<string | number>;
+    const now = Date.now();
+    const entries: RateLimitEntry[] = [];
+
+    for (let i = 0; i < flat.length; i += 3) {
+      entries.push({
+        key: String(flat[i]).slice(this.prefix.length),
+        count: Number(flat[i + 1]),
+        resetAt: now + Number(flat[i + 2])
+      });
+    }
+    return entries;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
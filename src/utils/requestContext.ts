@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { FastifyRequest, FastifyReply, FastifyBaseLogger, HookHandlerDoneFunction } from 'fastify';
+
+// Per-request details that code deep in a service call may need (e.g. the audit
+// log) without every function having to pass the request down
+export interface RequestContext {
+  ip?: string;
+  userAgent?: string;
+  requestId?: string;
+  log?: FastifyBaseLogger;    // the request's logger, tagged with its reqId
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+// Callback-style on purpose: everything fastify runs after `done` is called inside the context
+export function requestContextHook(request: FastifyRequest, reply: FastifyReply, done: HookHandlerDoneFunction): void {
+  // Echo the correlation id so clients can quote it when reporting a problem
+  reply.header('X-Request-Id', request.id);
+
+  storage.run({
+    ip: request.ip,
+    userAgent: request.headers['user-agent'],
+    requestId: request.id,
+    log: request.log
+  }, done);
+}
@@ -1,68 +1,28 @@
-import { NODE_ENV } from '../config/environment';
+import { appendAuditEvent } from './auditChain';
+import { getLogger, sanitizeForLogging } from './logger';
+import { getRequestContext } from './requestContext';
+import { dispatchAlert, type AlertInput } from './alerts/dispatcher';
+import { trackBackgroundTask } from './lifecycle';
+import { type AuditEventType, type AuditSeverity } from '../interfaces/audit';
 
-interface SecurityEvent {
-  type: 'auth' | 'error' | 'security' | 'audit';
-  severity: 'low' | 'medium' | 'high' | 'critical';
+export interface SecurityEvent {
+  type: AuditEventType;
+  severity: AuditSeverity;
   message: string;
-  userId?: string;
-  ip?: string;
-  userAgent?: string;
+  userId?: string;     // the actor
+  targetUid?: string;  // the account acted on, when it isn't the actor's own
+  ip?: string;         // defaults to the current request's
+  userAgent?: string;  // defaults to the current request's
   details?: any;
 }
 
-// List of sensitive fields that should never be logged
-const SENSITIVE_FIELDS = [
-  'password',
-  'password_hash',
-  'refresh_token',
-  'session_token',
-  'access_token',
-  'jwt',
-  'secret',
-  'key',
-  'token',
-  'email_verification_token',
-  'reset_token'
-];
-
-// Recursively sanitize objects to remove sensitive data
-function sanitizeForLogging(obj: any, depth = 0): any {
-  if (depth > 5) return '[Max depth reached]'; // Prevent infinite recursion
-  
-  if (obj === null || obj === undefined) return obj;
-  
-  if (typeof obj === 'string') {
-    // Check if string looks like a token/secret
-    if (obj.length > 20 && (obj.includes('.') || obj.match(/^[A-Za-z0-9+/=]+$/))) {
-      return '[REDACTED_TOKEN]';
-    }
-    return obj;
-  }
-  
-  if (typeof obj !== 'object') return obj;
-  
-  if (Array.isArray(obj)) {
-    return obj.map(item => sanitizeForLogging(item, depth + 1));
-  }
-  
-  const sanitized: any = {};
-  for (const [key, value] of Object.entries(obj)) {
-    const lowerKey = key.toLowerCase();
-    
-    // Check if field name indicates sensitive data
-    const isSensitive = SENSITIVE_FIELDS.some(field => 
-      lowerKey.includes(field) || lowerKey.includes('auth')
-    );
-    
-    if (isSensitive) {
-      sanitized[key] = '[REDACTED]';
-    } else {
-      sanitized[key] = sanitizeForLogging(value, depth + 1);
-    }
-  }
-  
-  return sanitized;
-}
+// Security events are always logged; how loudly depends on severity
+const SEVERITY_LEVELS: Record<AuditSeverity, 'info' | 'warn' | 'error'> = {
+  low: 'info',
+  medium: 'warn',
+  high: 'error',
+  critical: 'error'
+};
 
 export class SecureLogger {
   private static instance: SecureLogger;
@@ -76,10 +36,14 @@ export class SecureLogger {
     return SecureLogger.instance;
   }
   
-  // Log security events (always logged, even in production)
+  // Log security events (always logged, even in production) and record them in audit_events
   security(event: SecurityEvent): void {
-    const timestamp = new Date().toISOString();
+    const occurredAt = new Date();
+    const timestamp = occurredAt.toISOString();
     const sanitizedDetails = event.details ? sanitizeForLogging(event.details) : null;
+    const context = getRequestContext();
+    const ip = event.ip || context?.ip;
+    const userAgent = event.userAgent || context?.userAgent;
     
     const logEntry = {
       timestamp,
@@ -87,18 +51,34 @@ export class SecureLogger {
       severity: event.severity,
       message: event.message,
       userId: event.userId || '[anonymous]',
-      ip: event.ip || '[unknown]',
-      userAgent: event.userAgent ? event.userAgent.substring(0, 100) : '[unknown]',
+      ...(event.targetUid && { targetUid: event.targetUid }),
+      ip: ip || '[unknown]',
+      userAgent: userAgent ? userAgent.substring(0, 100) : '[unknown]',
       ...(sanitizedDetails && { details: sanitizedDetails })
     };
     
-    // In production, this should go to a security monitoring system
-    console.error(`[SECURITY] ${JSON.stringify(logEntry)}`);
+    // pino stamps its own time
+    const { timestamp: _timestamp, message, details, ...security } = logEntry;
+    getLogger()[SEVERITY_LEVELS[event.severity]]({ security, details }, message);
     
-    // Critical events should trigger alerts
-    if (event.severity === 'critical') {
-      this.alertCriticalEvent(logEntry);
-    }
+    // Not awaited: callers shouldn't fail, or wait, because the audit table is unavailable.
+    // Tracked so a shutdown lets the write finish.
+    trackBackgroundTask(appendAuditEvent({
+      occurred_at: occurredAt,
+      type: event.type,
+      severity: event.severity,
+      message: event.message,
+      actor_uid: event.userId || null,
+      target_uid: event.targetUid || null,
+      ip_address: ip || null,
+      user_agent: userAgent ? userAgent.substring(0, 512) : null,
+      details: sanitizedDetails
+    }).catch(error => {
+      getLogger().error({ err: error }, 'Failed to record audit event');
+    }));
+    
+    // Sinks decide by severity whether they want it; nothing to wait for here either
+    this.raiseAlert(logEntry);
   }
   
   // Log authentication events
@@ -112,59 +92,26 @@ export class SecureLogger {
     });
   }
   
-  // Log general errors (sanitized)
+  // Log general errors. The logger's serializers sanitize error and context.
   error(message: string, error?: Error | any, context?: any): void {
-    const timestamp = new Date().toISOString();
-    
-    let errorInfo: any = {};
-    if (error instanceof Error) {
-      errorInfo = {
-        name: error.name,
-        message: error.message,
-        // Only include stack trace in development
-        ...(NODE_ENV === 'development' && { stack: error.stack })
-      };
-    } else if (error) {
-      errorInfo = sanitizeForLogging(error);
-    }
-    
-    const logEntry = {
-      timestamp,
-      level: 'error',
-      message,
-      ...(Object.keys(errorInfo).length > 0 && { error: errorInfo }),
-      ...(context && { context: sanitizeForLogging(context) })
-    };
-    
-    console.error(`[ERROR] ${JSON.stringify(logEntry)}`);
+    getLogger().error({ err: error, context }, message);
   }
   
-  // Log info messages (development only)
   info(message: string, context?: any): void {
-    if (NODE_ENV === 'development') {
-      const timestamp = new Date().toISOString();
-      const logEntry = {
-        timestamp,
-        level: 'info',
-        message,
-        ...(context && { context: sanitizeForLogging(context) })
-      };
-      console.log(`[INFO] ${JSON.stringify(logEntry)}`);
-    }
+    getLogger().info({ context }, message);
   }
   
-  // Debug messages (development only)
   debug(message: string, context?: any): void {
-    if (NODE_ENV === 'development') {
-      const timestamp = new Date().toISOString();
-      console.log(`[DEBUG] ${timestamp} ${message}`, context ? sanitizeForLogging(context) : '');
-    }
+    getLogger().debug({ context }, message);
   }
   
-  private alertCriticalEvent(event: any): void {
-    // In production, this would integrate with monitoring systems
-    // like DataDog, New Relic, Slack, PagerDuty, etc.
-    console.error(`[CRITICAL ALERT] ${JSON.stringify(event)}`);
+  private raiseAlert(event: AlertInput): void {
+    trackBackgroundTask(dispatchAlert(event).then(results => {
+      // Critical events must never go unnoticed, even with no sink configured for them
+      if (event.severity === 'critical' && results.every(result => !result.delivered)) {
+        getLogger().error({ alert: event }, `[CRITICAL ALERT] ${event.message}`);
+      }
+    }));
   }
 }
 
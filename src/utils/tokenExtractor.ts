@@ -1,15 +1,10 @@
 import { FastifyRequest } from 'fastify';
 
-interface RequestWithToken {
-  Body?: { token?: string };
-  Headers?: { authorization?: string };
-}
-
 /**
  * Extracts JWT token from HttpOnly cookies, with fallback to request body or Authorization header
  * Prioritizes secure HttpOnly cookie over less secure alternatives
  */
-export function extractTokenFromRequest(request: FastifyRequest<RequestWithToken>): string | null {
+export function extractTokenFromRequest(request: FastifyRequest): string | null {
   // Priority 1: Try to get token from HttpOnly cookie (most secure)
   const cookieToken = request.cookies?.access_token;
   if (cookieToken) {
@@ -17,7 +12,8 @@ export function extractTokenFromRequest(request: FastifyRequest<RequestWithToken
   }
   
   // Priority 2: Try to get token from request body (for backward compatibility)
-  let token = request.body?.token;
+  const body = request.body;
+  let token = typeof body === 'object' && body !== null && 'token' in body && typeof body.token === 'string' ? body.token : undefined;
   
   // Priority 3: Check Authorization header (for backward compatibility)
   if (!token && request.headers.authorization) {
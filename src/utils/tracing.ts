@@ -0,0 +1,93 @@
+import { trace, SpanKind, SpanStatusCode, type Attributes, type Span } from '@opentelemetry/api';
+import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, ParentBasedSampler, TraceIdRatioBasedSampler } from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+  ATTR_DB_SYSTEM_NAME,
+  ATTR_DB_OPERATION_NAME,
+  ATTR_DB_COLLECTION_NAME
+} from '@opentelemetry/semantic-conventions';
+import { TRACING_ENABLED, TRACING_SERVICE_NAME, TRACING_SAMPLE_RATIO } from '../config/environment';
+import { logger } from './logger';
+import { sqlOperation } from './metrics/instruments';
+
+let provider: NodeTracerProvider | null = null;
+
+// Until this runs every span is a no-op, so instrumented code costs next to nothing
+// with tracing disabled. Call it before the server starts taking requests.
+export function initTracing(): void {
+  if (!TRACING_ENABLED || provider) return;
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: TRACING_SERVICE_NAME,
+      [ATTR_SERVICE_VERSION]: process.env.npm_package_version || 'unknown'
+    }),
+    // Follow the caller's sampling decision when a traceparent says they made one
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(TRACING_SAMPLE_RATIO) }),
+    // The exporter reads its endpoint and headers from the standard OTEL_EXPORTER_OTLP_* variables
+    spanProcessors: [new BatchSpanProcessor(new OTLPTraceExporter())]
+  });
+  provider.register({ propagator: new W3CTraceContextPropagator() });
+
+  logger.info({ service: TRACING_SERVICE_NAME, sampleRatio: TRACING_SAMPLE_RATIO }, 'Tracing enabled, exporting spans over OTLP');
+}
+
+// Flush buffered spans, e.g. before the process exits
+export async function shutdownTracing(): Promise<void> {
+  if (!provider) return;
+  await provider.shutdown();
+  provider = null;
+}
+
+export const tracer = trace.getTracer('hofflabs-api');
+
+export function recordSpanError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : undefined });
+}
+
+interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+}
+
+// Run fn inside a child span of whatever is active. A throw marks the span as failed
+// and is rethrown. Attributes must never carry credentials, tokens or personal data.
+export async function withSpan<T>(name: string, fn: (span: Span) => Promise<T>, options: SpanOptions = {}): Promise<T> {
+  return tracer.startActiveSpan(name, { kind: options.kind ?? SpanKind.INTERNAL, attributes: options.attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+// Wrap a service function so every call gets its own span
+export function traced<A extends unknown[], R>(name: string, fn: (...args: A) => Promise<R>): (...args: A) => Promise<R> {
+  return (...args: A) => withSpan(name, () => fn(...args));
+}
+
+// Query spans are named by statement keyword and table ("SELECT users"). The statement
+// text is left out: it's noisy and any literals in it could hold anything.
+export function withQuerySpan<T>(text: string, fn: () => Promise<T>): Promise<T> {
+  const operation = sqlOperation(text);
+  const table = text.match(/\b(?:FROM|INTO|UPDATE|JOIN)\s+"?([a-z_][a-z0-9_]*)"?/i)?.[1];
+
+  return withSpan(table ? `${operation} ${table}` : operation, fn, {
+    kind: SpanKind.CLIENT,
+    attributes: {
+      [ATTR_DB_SYSTEM_NAME]: 'postgresql',
+      [ATTR_DB_OPERATION_NAME]: operation,
+      ...(table && { [ATTR_DB_COLLECTION_NAME]: table })
+    }
+  });
+}
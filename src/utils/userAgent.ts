@@ -0,0 +1,93 @@
+export type DeviceType = 'desktop' | 'mobile' | 'tablet' | 'bot' | 'unknown';
+
+export interface DeviceInfo {
+  browser: string | null;
+  os: string | null;
+  device_type: DeviceType;
+}
+
+// First match wins, so more specific products come before the engines they embed
+// (Edge and Opera also claim to be Chrome, Chrome also claims to be Safari)
+const BROWSERS: Array<[string, RegExp]> = [
+  ['Edge', /Edg(?:e|A|iOS)?\/([\d.]+)/],
+  ['Opera', /(?:OPR|Opera)\/([\d.]+)/],
+  ['Samsung Internet', /SamsungBrowser\/([\d.]+)/],
+  ['Firefox', /(?:Firefox|FxiOS)\/([\d.]+)/],
+  ['Chrome', /(?:Chrome|CriOS)\/([\d.]+)/],
+  ['Safari', /Version\/([\d.]+).*Safari\//],
+  ['Internet Explorer', /(?:MSIE |Trident\/.*rv:)([\d.]+)/],
+  ['curl', /^curl\/([\d.]+)/],
+  ['Postman', /PostmanRuntime\/([\d.]+)/]
+];
+
+const OPERATING_SYSTEMS: Array<[string, RegExp]> = [
+  ['iOS', /(?:iPhone|iPad|iPod).*OS (\d+)[_\d]*/],
+  ['Android', /Android (\d+(?:\.\d+)?)/],
+  ['Windows', /Windows NT ([\d.]+)/],
+  ['macOS', /Mac OS X (\d+[_.]\d+)/],
+  ['ChromeOS', /CrOS [\w]+ ([\d.]+)/],
+  ['Linux', /Linux()/]
+];
+
+// Marketing names for the NT kernel versions Windows still reports
+const WINDOWS_VERSIONS: Record<string, string> = {
+  '10.0': '10/11',
+  '6.3': '8.1',
+  '6.2': '8',
+  '6.1': '7'
+};
+
+const BOT_PATTERN = /bot|crawler|spider|slurp|headless/i;
+const TABLET_PATTERN = /iPad|Tablet|Android(?!.*Mobile)/;
+const MOBILE_PATTERN = /Mobi|iPhone|iPod|Android.*Mobile|Windows Phone/;
+
+const majorVersion = (version: string): string => version.split('.')[0];
+
+function parseBrowser(userAgent: string): string | null {
+  for (const [name, pattern] of BROWSERS) {
+    const match = userAgent.match(pattern);
+    if (match) return `${name} ${majorVersion(match[1])}`;
+  }
+  return null;
+}
+
+function parseOs(userAgent: string): string | null {
+  for (const [name, pattern] of OPERATING_SYSTEMS) {
+    const match = userAgent.match(pattern);
+    if (!match) continue;
+
+    const version = match[1]?.replace('_', '.');
+    if (!version) return name;
+    if (name === 'Windows') return `Windows ${WINDOWS_VERSIONS[version] || version}`;
+    return `${name} ${name === 'macOS' ? version : majorVersion(version)}`;
+  }
+  return null;
+}
+
+function parseDeviceType(userAgent: string): DeviceType {
+  if (BOT_PATTERN.test(userAgent)) return 'bot';
+  if (TABLET_PATTERN.test(userAgent)) return 'tablet';
+  if (MOBILE_PATTERN.test(userAgent)) return 'mobile';
+  if (/Windows|Macintosh|X11|CrOS/.test(userAgent)) return 'desktop';
+  return 'unknown';
+}
+
+// Coarse browser / OS / device classification - enough for a user to recognise
+// their own devices in a session list, not for fingerprinting
+export function parseUserAgent(userAgent?: string | null): DeviceInfo {
+  if (!userAgent) {
+    return { browser: null, os: null, device_type: 'unknown' };
+  }
+
+  return {
+    browser: parseBrowser(userAgent),
+    os: parseOs(userAgent),
+    device_type: parseDeviceType(userAgent)
+  };
+}
+
+// Human-readable label such as "Firefox 128 on Windows 10/11"
+export function describeDevice(device: DeviceInfo): string {
+  if (device.browser && device.os) return `${device.browser} on ${device.os}`;
+  return device.browser || device.os || 'Unknown device';
+}
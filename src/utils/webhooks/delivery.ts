@@ -0,0 +1,118 @@
+import { createHmac } from 'crypto';
+import {
+  claimDueWebhookDeliveries,
+  markWebhookDelivered,
+  markWebhookAttemptFailed
+} from '../../database/webhooks/webhook-operations';
+import { decrypt, fieldContext } from '../crypto';
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_SECONDS,
+  WEBHOOK_POLL_INTERVAL_SECONDS,
+  WEBHOOK_TIMEOUT_MS
+} from '../../config/environment';
+import { type DueWebhookDelivery } from '../../interfaces/webhook';
+import { logger } from '../logger';
+import { isShuttingDown, trackBackgroundTask } from '../lifecycle';
+
+const BATCH_SIZE = 20;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+// A claimed delivery comes due again after this if the worker dies mid-request
+const CLAIM_LEASE_SECONDS = Math.ceil(WEBHOOK_TIMEOUT_MS / 1000) + 30;
+
+// Receivers recompute this over `${id}.${timestamp}.${body}` with their secret and
+// compare, then reject timestamps too far from their own clock to stop replays.
+export function signWebhookPayload(secret: string, id: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${id}.${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Exponential backoff: base, 2x base, 4x base.. capped at six hours
+export function webhookRetryDelay(attempt: number): number {
+  return Math.min(WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+async function deliver(delivery: DueWebhookDelivery): Promise<void> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let statusCode: number | null = null;
+  let error: string;
+
+  try {
+    const secret = await decrypt(delivery.secret, fieldContext('webhook_endpoints', 'secret', delivery.endpoint_uid));
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'hofflabs-auth-webhooks/1.0',
+        'Webhook-Id': delivery.event_id,
+        'Webhook-Timestamp': String(timestamp),
+        'Webhook-Signature': signWebhookPayload(secret, delivery.event_id, timestamp, body)
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    if (response.ok) {
+      await markWebhookDelivered(delivery.id, response.status);
+      return;
+    }
+    statusCode = response.status;
+    error = `HTTP ${response.status}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const exhausted = delivery.attempts >= WEBHOOK_MAX_ATTEMPTS;
+  await markWebhookAttemptFailed(delivery.id, {
+    status_code: statusCode,
+    error: error.substring(0, 500),
+    next_attempt_at: exhausted ? null : new Date(Date.now() + webhookRetryDelay(delivery.attempts))
+  });
+
+  if (exhausted) {
+    logger.error({ deliveryId: delivery.id, endpoint: delivery.endpoint_uid, attempts: delivery.attempts, error }, 'Webhook delivery failed permanently');
+  }
+}
+
+// Send every delivery that is due, a batch at a time. Returns how many were attempted.
+// During shutdown the current batch is finished and the rest left for the next instance.
+export async function deliverDueWebhooks(): Promise<number> {
+  let attempted = 0;
+
+  while (true) {
+    const batch = await claimDueWebhookDeliveries(BATCH_SIZE, CLAIM_LEASE_SECONDS);
+    await Promise.all(batch.map(delivery => deliver(delivery)));
+    attempted += batch.length;
+    if (batch.length < BATCH_SIZE || isShuttingDown()) return attempted;
+  }
+}
+
+let deliveryTimer: NodeJS.Timeout | null = null;
+let polling = false;
+
+export function startWebhookDelivery(): void {
+  if (deliveryTimer || WEBHOOK_POLL_INTERVAL_SECONDS <= 0) return;
+
+  deliveryTimer = setInterval(() => {
+    // Slow endpoints can make a poll outlast the interval; don't stack them up
+    if (polling) return;
+    polling = true;
+
+    trackBackgroundTask(deliverDueWebhooks()
+      .catch(error => {
+        logger.error({ err: error }, 'Webhook delivery failed');
+      })
+      .finally(() => {
+        polling = false;
+      }));
+  }, WEBHOOK_POLL_INTERVAL_SECONDS * 1000);
+  deliveryTimer.unref();
+}
+
+export function stopWebhookDelivery(): void {
+  if (deliveryTimer) {
+    clearInterval(deliveryTimer);
+    deliveryTimer = null;
+  }
+}
@@ -0,0 +1,18 @@
+import { randomUUID } from 'crypto';
+import { enqueueWebhookDeliveries } from '../../database/webhooks/webhook-operations';
+import { type WebhookEventType, type WebhookPayload } from '../../interfaces/webhook';
+
+// Queue an event for subscribed endpoints. Call it inside the withTransaction that
+// makes the change, so an event is only ever sent for a change that committed.
+// data goes to third parties: uids and flags, never personal details.
+export async function emitWebhookEvent(type: WebhookEventType, data: Record<string, any>): Promise<WebhookPayload> {
+  const payload: WebhookPayload = {
+    id: randomUUID(),
+    type,
+    occurred_at: new Date().toISOString(),
+    data
+  };
+
+  await enqueueWebhookDeliveries(payload);
+  return payload;
+}